@@ -1,31 +1,179 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import RetroScreen from './components/RetroScreen';
 import TerminalOutput from './components/TerminalOutput';
-import { chatWithExpert, generateVectorExplanation } from './services/geminiService';
-import { DisplayMode, ChatMessage, MessageRole, ContentMode, VectorPoint } from './types';
-import { Monitor, Zap, Terminal, Send, Activity, PenTool, Type, Play, RotateCcw, Sliders } from 'lucide-react';
+import LessonPanel, { LessonNarration } from './components/LessonPanel';
+import ScopePanel from './components/ScopePanel';
+import SimulationPanel from './components/SimulationPanel';
+import ScenePanel from './components/ScenePanel';
+import ExportPanel from './components/ExportPanel';
+import DvgPanel from './components/DvgPanel';
+import DrawOrderPanel from './components/DrawOrderPanel';
+import TimelinePanel from './components/TimelinePanel';
+import WireframePanel from './components/WireframePanel';
+import XyAudioPanel, { XyTrace } from './components/XyAudioPanel';
+import BeamStylePicker from './components/BeamStylePicker';
+import PhosphorPanel from './components/PhosphorPanel';
+import LlmSettingsPanel from './components/LlmSettingsPanel';
+import { createProvider, generateVectorArt, getVectorExplanation, streamChatWithExpert } from './services/expertService';
+import { VectorArtError } from './utils/vectorArt';
+import { loadLlmSettings, saveLlmSettings } from './services/llmProvider';
+import { loadPhosphorSettings, savePhosphorSettings } from './services/phosphorSettings';
+import { DisplayMode, ChatMessage, MessageRole, ContentMode, VectorShape, BeamPhysics, ScreenRenderer, RasterSettings, Mesh, WireframeSettings, BeamStyle, PhosphorModel, SceneContext, LlmSettings, Explanation } from './types';
+import {
+  DrawingHistory, VertexRef, createHistory, commit, replacePresent, undo, redo,
+  addPoint, addShapes, penUp, closeActiveShape, moveVertex, deleteVertex
+} from './utils/drawing';
+import { svgToVectorShapes } from './utils/svgImport';
+import { getSceneAnimation, getSceneShapes } from './utils/sceneShapes';
+import { AnimationClock } from './utils/animation';
+import { SimulationClock } from './utils/simulation';
+import { BeamFrame, DEFAULT_BEAM_PHYSICS, REALTIME_TIME_SCALE } from './utils/beamPhysics';
+import { beamFrameToShapes, xySignalToBeamFrame } from './utils/xyAudio';
+import { DEFAULT_WIREFRAME_SETTINGS, MESH_PRIMITIVES, projectMesh } from './utils/wireframe';
+import { parseObj } from './utils/objImport';
+import { DEFAULT_PERSISTENCE, PHOSPHOR_PRESETS, standardPhosphor } from './utils/phosphor';
+import { DEFAULT_RASTER_SETTINGS, RASTER_RESOLUTIONS } from './utils/rasterizer';
+import { BUILTIN_FONT, TextAlign, VectorFont } from './utils/vectorFont';
+import { importFontFile, listFonts, loadFont } from './services/fontRegistry';
+import { GameSession } from './services/gameSession';
+import { SceneDocument, createScene } from './utils/sceneFormat';
+import { LessonSetup } from './utils/lessonFormat';
+import { LessonState } from './utils/lessonEngine';
+import { BeamCapture } from './utils/deflectionSignals';
+import { Monitor, Zap, Terminal, Send, Activity, PenTool, Type, Play, RotateCcw, Sliders, Undo2, Redo2, PenOff, Hexagon, FileUp, Cpu, RefreshCw, Gauge, Waves, Timer, Layers, Grid3x3, AlignLeft, AlignCenter, AlignRight, Gamepad2, Box, AudioWaveform, Square, Sparkles, Columns2 } from 'lucide-react';
 
 const App: React.FC = () => {
   // Display State
   const [mode, setMode] = useState<DisplayMode>(DisplayMode.VECTOR);
+  const [compare, setCompare] = useState(false); // both modes side by side
   const [contentMode, setContentMode] = useState<ContentMode>(ContentMode.PRESET);
   
   // Simulation Controls
   const [beamSpeed, setBeamSpeed] = useState<number>(5); // 1-10
-  const [persistence, setPersistence] = useState<number>(1000); // ms
+  const [persistence, setPersistence] = useState<number>(DEFAULT_PERSISTENCE); // ms, STANDARD phosphor only
+  const [savedPhosphor] = useState(loadPhosphorSettings);
+  const [phosphorId, setPhosphorId] = useState<string>(savedPhosphor.phosphorId);
+  const [customPhosphor, setCustomPhosphor] = useState<PhosphorModel>(savedPhosphor.custom);
+  const [optimizeOrder, setOptimizeOrder] = useState<boolean>(false);
+  const [physics, setPhysics] = useState<BeamPhysics>(DEFAULT_BEAM_PHYSICS);
+  const [renderer, setRenderer] = useState<ScreenRenderer>(ScreenRenderer.SVG);
+  const [raster, setRaster] = useState<RasterSettings>(DEFAULT_RASTER_SETTINGS);
+
+  const updatePhysics = (key: keyof BeamPhysics, value: number) =>
+    setPhysics(prev => ({ ...prev, [key]: value }));
+
+  const phosphor = useMemo<PhosphorModel>(() => {
+    if (phosphorId === 'custom') return customPhosphor;
+    return PHOSPHOR_PRESETS.find(p => p.id === phosphorId) ?? standardPhosphor(persistence);
+  }, [phosphorId, customPhosphor, persistence]);
   
   // Custom Content State
-  const [customPoints, setCustomPoints] = useState<VectorPoint[]>([]);
+  const [drawing, setDrawing] = useState<DrawingHistory>(() => createHistory());
   const [customText, setCustomText] = useState<string>("VECTOR");
+  const [textAlign, setTextAlign] = useState<TextAlign>('center');
+  const [textFont, setTextFont] = useState<VectorFont>(BUILTIN_FONT);
+  const [textStyle, setTextStyle] = useState<BeamStyle>({ z: 1 });
+  const [drawStyle, setDrawStyle] = useState<BeamStyle>({ z: 1 });
+  const [fontStatus, setFontStatus] = useState<string | null>(null);
+  const [svgTolerance, setSvgTolerance] = useState<number>(0.25);
+  const [drawStatus, setDrawStatus] = useState<string | null>(null);
+  const [artPrompt, setArtPrompt] = useState("");
+  const [artLoading, setArtLoading] = useState(false);
+  const [programShapes, setProgramShapes] = useState<VectorShape[]>([]);
+  const [wireframe, setWireframe] = useState<WireframeSettings>(DEFAULT_WIREFRAME_SETTINGS);
+  const [meshes, setMeshes] = useState<Mesh[]>(MESH_PRIMITIVES);
+  const [wireframeStatus, setWireframeStatus] = useState<string | null>(null);
+  const [xyTrace, setXyTrace] = useState<XyTrace | null>(null);
+  const [beamTrace, setBeamTrace] = useState<BeamFrame | null>(null);
 
   // Chat & AI State
-  const [explanation, setExplanation] = useState<string>("Initializing system... Select a mode to begin analysis.");
+  const [explanation, setExplanation] = useState<Explanation | null>(null);
+  const [lessonNarration, setLessonNarration] = useState<LessonNarration | null>(null);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [userInput, setUserInput] = useState("");
   const [loading, setLoading] = useState(false);
   const [chatLoading, setChatLoading] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [showLlmSettings, setShowLlmSettings] = useState(false);
+  const llmProvider = useMemo(() => createProvider(llmSettings), [llmSettings]);
+
+  useEffect(() => saveLlmSettings(llmSettings), [llmSettings]);
+  useEffect(() => savePhosphorSettings({ phosphorId, custom: customPhosphor }), [phosphorId, customPhosphor]);
   
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const dragPendingRef = useRef(false);
+  const svgInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const screenSvgRef = useRef<SVGSVGElement | null>(null);
+  const cycleListenersRef = useRef(new Set<() => void>());
+  const beamFrameListenersRef = useRef(new Set<(capture: BeamCapture) => void>());
+  const lastBeamFrameRef = useRef<BeamCapture | null>(null);
+  // Simulated time for the beam. Every screen follows it, so the split view's two refresh
+  // in lockstep, and pausing or stepping it holds both.
+  const [simulationClock] = useState(() => {
+    const clock = new SimulationClock();
+    clock.play();
+    return clock;
+  });
+  // One clock for the session; the timeline drives it and the screen samples it. It runs on
+  // simulated time, so the clip holds while the beam is paused.
+  const [animationClock] = useState(() => {
+    const clock = new AnimationClock(1000, true, () => simulationClock.time());
+    clock.play();
+    return clock;
+  });
+
+  // The game keeps its state between visits to the tab but only runs while it is shown
+  const [gameSession] = useState(() => new GameSession());
+  const gameShapes = useMemo(() => (time: number) => gameSession.shapes(time), [gameSession]);
+
+  useEffect(() => {
+    if (contentMode !== ContentMode.GAME) return;
+    gameSession.start();
+    return () => gameSession.stop();
+  }, [contentMode, gameSession]);
+
+  // Spin is measured from the start of simulated time, so moving a slider doesn't jump the model
+  const wireframeShapes = useMemo(() => {
+    const mesh = meshes.find(m => m.id === wireframe.meshId) ?? meshes[0];
+    return (time: number) => projectMesh(mesh, wireframe, time);
+  }, [meshes, wireframe]);
+
+  const liveShapes = contentMode === ContentMode.GAME ? gameShapes
+    : contentMode === ContentMode.WIREFRAME ? wireframeShapes
+    : undefined;
+
+  const audioShapes = useMemo(() => (beamTrace ? beamFrameToShapes(beamTrace) : []), [beamTrace]);
+
+  const handleXyImport = (trace: XyTrace) => {
+      setXyTrace(trace);
+      setBeamTrace(xySignalToBeamFrame(trace.signal));
+      setContentMode(ContentMode.AUDIO);
+  };
+
+  // A fresh frame object restarts the screen's replay so it lines up with the audio
+  const restartBeamTrace = () => {
+      setBeamTrace(prev => (prev ? { ...prev } : prev));
+      setContentMode(ContentMode.AUDIO);
+  };
+
+  const subscribeCycle = (listener: () => void) => {
+    cycleListenersRef.current.add(listener);
+    return () => { cycleListenersRef.current.delete(listener); };
+  };
+  const notifyCycleStart = () => cycleListenersRef.current.forEach(l => l());
+
+  // New subscribers get the frame already on screen straight away
+  const subscribeBeamFrame = (listener: (capture: BeamCapture) => void) => {
+    beamFrameListenersRef.current.add(listener);
+    if (lastBeamFrameRef.current) listener(lastBeamFrameRef.current);
+    return () => { beamFrameListenersRef.current.delete(listener); };
+  };
+  const notifyBeamFrame = (capture: BeamCapture) => {
+    lastBeamFrameRef.current = capture;
+    beamFrameListenersRef.current.forEach(l => l(capture));
+  };
 
   const scrollToBottom = () => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -35,25 +183,74 @@ const App: React.FC = () => {
     scrollToBottom();
   }, [chatHistory]);
 
-  // Initial explanation fetch when mode changes
+  // Explanation fetch when the mode or the provider changes (not on every settings keystroke).
+  // REFRESH bypasses the cache; the flag stays set until a fetch has landed.
+  const [explanationRefresh, setExplanationRefresh] = useState(0);
+  const forceExplanationRef = useRef(false);
   useEffect(() => {
     let isMounted = true;
     const fetchExplanation = async () => {
       setLoading(true);
-      const text = await generateVectorExplanation(mode);
+      const result = await getVectorExplanation(mode, llmProvider, forceExplanationRef.current);
       if (isMounted) {
-        setExplanation(text);
+        forceExplanationRef.current = false;
+        setExplanation(result);
         setLoading(false);
       }
     };
 
     fetchExplanation();
     return () => { isMounted = false; };
-  }, [mode]);
+  }, [mode, llmSettings.provider, explanationRefresh]);
+
+  const refreshExplanation = () => {
+    forceExplanationRef.current = true;
+    setExplanationRefresh(n => n + 1);
+  };
 
-  const handleSendMessage = async (e: React.FormEvent) => {
+  useEffect(() => () => chatAbortRef.current?.abort(), []);
+
+  // Streams a reply to the last message of `history` into a new model message at the end
+  const streamReply = async (history: ChatMessage[]) => {
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setChatHistory([...history, { role: MessageRole.MODEL, text: "", timestamp: Date.now(), status: 'streaming' }]);
+    setChatLoading(true);
+
+    // The reply is always the last message while it streams
+    const updateReply = (patch: Partial<ChatMessage>) =>
+      setChatHistory(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], ...patch }]);
+
+    const scene: SceneContext = {
+      displayMode: mode,
+      contentMode,
+      beamSpeed,
+      persistence,
+      phosphor: phosphor.name,
+      shapeCount: sceneShapes.length,
+      vertexCount: sceneShapes.reduce((sum, s) => sum + s.points.length, 0)
+    };
+
+    try {
+      const text = await streamChatWithExpert(llmProvider, history, scene, text => updateReply({ text }), controller.signal);
+      if (controller.signal.aborted) updateReply({ status: 'stopped' });
+      else updateReply({ text: text || "No data received.", status: undefined });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateReply({ status: 'stopped' });
+      } else {
+        console.error("Error in chat:", error);
+        updateReply({ text: "Connection interrupted. Try again.", status: 'error' });
+      }
+    } finally {
+      if (chatAbortRef.current === controller) chatAbortRef.current = null;
+      setChatLoading(false);
+    }
+  };
+
+  const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!userInput.trim()) return;
+    if (!userInput.trim() || chatLoading) return;
 
     const newMsg: ChatMessage = {
         role: MessageRole.USER,
@@ -61,27 +258,220 @@ const App: React.FC = () => {
         timestamp: Date.now()
     };
 
-    setChatHistory(prev => [...prev, newMsg]);
     setUserInput("");
-    setChatLoading(true);
+    streamReply([...chatHistory, newMsg]);
+  };
 
-    const responseText = await chatWithExpert(chatHistory, newMsg.text);
-    
-    setChatHistory(prev => [...prev, {
-        role: MessageRole.MODEL,
-        text: responseText,
-        timestamp: Date.now()
-    }]);
-    setChatLoading(false);
+  const stopReply = () => chatAbortRef.current?.abort();
+
+  // Asks again from the last user message, dropping the reply that followed it
+  const regenerateReply = () => {
+    const lastUser = chatHistory.map(m => m.role).lastIndexOf(MessageRole.USER);
+    if (lastUser < 0 || chatLoading) return;
+    streamReply(chatHistory.slice(0, lastUser + 1));
   };
 
   const handleCanvasClick = (x: number, y: number) => {
       if (contentMode === ContentMode.DRAW) {
-          setCustomPoints(prev => [...prev, { x, y }]);
+          const point = drawStyle.z === 1 ? { x, y } : { x, y, z: drawStyle.z };
+          setDrawing(prev => commit(prev, addPoint(prev.present, point, drawStyle.color)));
       }
   };
 
-  const clearDrawing = () => setCustomPoints([]);
+  // A drag is recorded as a single undo step: snapshot on the first move, then update in place
+  const handleVertexDragStart = (_ref: VertexRef) => {
+      dragPendingRef.current = true;
+  };
+
+  const handleVertexDrag = (ref: VertexRef, x: number, y: number) => {
+      const first = dragPendingRef.current;
+      dragPendingRef.current = false;
+      setDrawing(prev => {
+          const next = moveVertex(prev.present, ref, { x, y });
+          return first ? commit(prev, next) : replacePresent(prev, next);
+      });
+  };
+
+  const handleVertexDelete = (ref: VertexRef) => {
+      setDrawing(prev => commit(prev, deleteVertex(prev.present, ref)));
+  };
+
+  const startNewStroke = () => setDrawing(prev => commit(prev, penUp(prev.present)));
+  const closeShape = () => setDrawing(prev => commit(prev, closeActiveShape(prev.present)));
+  const undoDrawing = () => setDrawing(prev => undo(prev));
+  const redoDrawing = () => setDrawing(prev => redo(prev));
+  const clearDrawing = () => setDrawing(prev => commit(prev, { shapes: [], activeId: null }));
+
+  const handleObjImport = async (file: File) => {
+      const base = file.name.replace(/\.obj$/i, '');
+      try {
+          const mesh = parseObj(await file.text(), `obj-${base.toLowerCase()}`, base.toUpperCase());
+          setMeshes(prev => [...prev.filter(m => m.id !== mesh.id), mesh]);
+          setWireframe(prev => ({ ...prev, meshId: mesh.id }));
+          setWireframeStatus(`IMPORTED ${mesh.vertices.length} VERTICES`);
+      } catch (error) {
+          console.error("Error importing OBJ:", error);
+          setWireframeStatus("NOT A VALID .OBJ MESH");
+      }
+  };
+
+  const handleGenerateArt = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!artPrompt.trim() || artLoading) return;
+      setArtLoading(true);
+      setDrawStatus("GENERATING...");
+      try {
+          const { shapes, repairs } = await generateVectorArt(llmProvider, artPrompt.trim());
+          setDrawing(prev => commit(prev, addShapes(prev.present, shapes)));
+          const vertexCount = shapes.reduce((n, s) => n + s.points.length, 0);
+          const repaired = repairs.length > 0 ? ` (REPAIRED: ${repairs.join(', ').toUpperCase()})` : '';
+          setDrawStatus(`GENERATED ${shapes.length} STROKES / ${vertexCount} VERTICES${repaired}`);
+      } catch (error) {
+          console.error("Error generating vector art:", error);
+          setDrawStatus(error instanceof VectorArtError ? error.message.toUpperCase() : "GENERATION FAILED");
+      } finally {
+          setArtLoading(false);
+      }
+  };
+
+  const handleSvgImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const shapes = svgToVectorShapes(await file.text(), { tolerance: svgTolerance });
+          if (shapes.length === 0) {
+              setDrawStatus("NO DRAWABLE ELEMENTS FOUND");
+              return;
+          }
+          setDrawing(prev => commit(prev, addShapes(prev.present, shapes)));
+          const vertexCount = shapes.reduce((n, s) => n + s.points.length, 0);
+          setDrawStatus(`IMPORTED ${shapes.length} STROKES / ${vertexCount} VERTICES`);
+      } catch (error) {
+          console.error("Error importing SVG:", error);
+          setDrawStatus("SVG IMPORT FAILED");
+      }
+  };
+
+  const selectFont = async (id: string) => {
+      setFontStatus("LOADING...");
+      try {
+          setTextFont(await loadFont(id));
+          setFontStatus(null);
+      } catch (error) {
+          console.error("Error loading font:", error);
+          setFontStatus("FONT LOAD FAILED");
+      }
+  };
+
+  const handleFontImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const font = await importFontFile(file);
+          setTextFont(font);
+          setFontStatus(`LOADED ${Object.keys(font.glyphs).length} GLYPHS`);
+      } catch (error) {
+          console.error("Error importing font:", error);
+          setFontStatus("NOT A VALID .JHF FONT");
+      }
+  };
+
+  const sceneContent = { customShapes: drawing.present.shapes, customText, textAlign, textFont, textStyle, programShapes, liveShapes, audioShapes };
+  const sceneShapes = useMemo(
+      () => getSceneShapes(contentMode, sceneContent, simulationClock.time()),
+      [contentMode, drawing.present.shapes, customText, textAlign, textFont, textStyle, programShapes, liveShapes, audioShapes]
+  );
+  const animation = getSceneAnimation(contentMode);
+
+  useEffect(() => {
+    if (!animation) return;
+    animationClock.duration = animation.duration;
+    animationClock.loop = animation.loop;
+    animationClock.seek(0);
+  }, [animation, animationClock]);
+
+  const dvgSources = [
+      { id: 'demo', label: 'DEMO SHIP', shapes: getSceneShapes(ContentMode.PRESET, sceneContent) },
+      { id: 'draw', label: 'DRAW SCENE', shapes: getSceneShapes(ContentMode.DRAW, sceneContent) },
+      { id: 'text', label: 'TEXT', shapes: getSceneShapes(ContentMode.TEXT, sceneContent) }
+  ];
+
+  // Scene documents
+  const buildScene = (name: string): SceneDocument => createScene(name, {
+      mode,
+      contentMode,
+      beamSpeed,
+      persistence,
+      physics,
+      phosphorId,
+      customPhosphor,
+      shapes: drawing.present.shapes,
+      text: customText
+  });
+
+  const applyScene = (doc: SceneDocument) => {
+      setMode(doc.display.mode);
+      setContentMode(doc.display.contentMode);
+      setBeamSpeed(doc.simulation.beamSpeed);
+      setPersistence(doc.simulation.persistence);
+      setPhysics(doc.simulation.physics);
+      setPhosphorId(doc.simulation.phosphorId);
+      if (doc.simulation.customPhosphor) setCustomPhosphor(doc.simulation.customPhosphor);
+      setCustomText(doc.content.text);
+      // Loading is undoable like any other edit
+      setDrawing(prev => commit(prev, { shapes: doc.content.shapes, activeId: null }));
+  };
+
+  // Lessons see the screen settings and script them step by step
+  const lessonState = useMemo<LessonState>(() => ({
+      mode,
+      contentMode,
+      beamSpeed,
+      persistence,
+      vertices: drawing.present.shapes.reduce((n, s) => n + s.points.length, 0)
+  }), [mode, contentMode, beamSpeed, persistence, drawing.present.shapes]);
+
+  const applyLessonSetup = (setup: LessonSetup) => {
+      if (setup.mode) setMode(setup.mode);
+      if (setup.contentMode) setContentMode(setup.contentMode);
+      if (setup.beamSpeed !== undefined) setBeamSpeed(setup.beamSpeed);
+      if (setup.persistence !== undefined) {
+          // Persistence only applies to the STANDARD phosphor
+          setPhosphorId('standard');
+          setPersistence(setup.persistence);
+      }
+      if (setup.scene?.text !== undefined) setCustomText(setup.scene.text);
+      const shapes = setup.scene?.shapes;
+      if (shapes) setDrawing(prev => commit(prev, { shapes, activeId: null }));
+  };
+
+  // Keyboard shortcuts for DRAW mode
+  useEffect(() => {
+    if (contentMode !== ContentMode.DRAW) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        setDrawing(prev => e.shiftKey ? redo(prev) : undo(prev));
+      } else if (mod && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        setDrawing(prev => redo(prev));
+      } else if (e.key === 'Enter' || e.key === 'Escape') {
+        setDrawing(prev => commit(prev, penUp(prev.present)));
+      } else if (e.key.toLowerCase() === 'c' && !mod) {
+        setDrawing(prev => commit(prev, closeActiveShape(prev.present)));
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [contentMode]);
 
   return (
     <div className="min-h-screen bg-neutral-950 text-green-500 font-sans selection:bg-green-900 selection:text-green-100 overflow-x-hidden">
@@ -107,6 +497,9 @@ const App: React.FC = () => {
         {/* Left Column: Visualization & Controls */}
         <div className="lg:col-span-7 flex flex-col gap-6">
             
+            {/* Guided Lessons */}
+            <LessonPanel state={lessonState} onSetup={applyLessonSetup} onNarration={setLessonNarration} />
+
             {/* Main Display Controls */}
             <div className="bg-neutral-900/50 p-1 rounded-lg border border-green-900/30 flex gap-1">
                 <button
@@ -131,6 +524,18 @@ const App: React.FC = () => {
                     <Activity className="w-4 h-4" />
                     RASTER
                 </button>
+                <button
+                    onClick={() => setCompare(prev => !prev)}
+                    title="Show VECTOR and RASTER side by side"
+                    className={`flex items-center justify-center gap-2 py-2 px-3 rounded font-mono font-bold text-sm transition-all duration-300 ${
+                        compare
+                        ? 'bg-green-900/40 text-vector-green border border-vector-green/50'
+                        : 'hover:bg-green-900/20'
+                    }`}
+                >
+                    <Columns2 className="w-4 h-4" />
+                    SPLIT
+                </button>
             </div>
 
             {/* Content Mode Tabs */}
@@ -153,31 +558,151 @@ const App: React.FC = () => {
                  >
                     <Type className="w-3 h-3" /> TEXT
                  </button>
+                 <button 
+                    onClick={() => setContentMode(ContentMode.DVG)}
+                    className={`flex items-center gap-2 px-4 py-2 text-sm font-mono transition-colors ${contentMode === ContentMode.DVG ? 'text-vector-green border-b-2 border-vector-green' : 'text-gray-500 hover:text-gray-300'}`}
+                 >
+                    <Cpu className="w-3 h-3" /> DVG
+                 </button>
+                 <button 
+                    onClick={() => setContentMode(ContentMode.GAME)}
+                    className={`flex items-center gap-2 px-4 py-2 text-sm font-mono transition-colors ${contentMode === ContentMode.GAME ? 'text-vector-green border-b-2 border-vector-green' : 'text-gray-500 hover:text-gray-300'}`}
+                 >
+                    <Gamepad2 className="w-3 h-3" /> GAME
+                 </button>
+                 <button 
+                    onClick={() => setContentMode(ContentMode.WIREFRAME)}
+                    className={`flex items-center gap-2 px-4 py-2 text-sm font-mono transition-colors ${contentMode === ContentMode.WIREFRAME ? 'text-vector-green border-b-2 border-vector-green' : 'text-gray-500 hover:text-gray-300'}`}
+                 >
+                    <Box className="w-3 h-3" /> 3D
+                 </button>
+                 <button 
+                    onClick={() => setContentMode(ContentMode.AUDIO)}
+                    className={`flex items-center gap-2 px-4 py-2 text-sm font-mono transition-colors ${contentMode === ContentMode.AUDIO ? 'text-vector-green border-b-2 border-vector-green' : 'text-gray-500 hover:text-gray-300'}`}
+                 >
+                    <AudioWaveform className="w-3 h-3" /> XY
+                 </button>
             </div>
 
             {/* Contextual Inputs */}
             {contentMode === ContentMode.DRAW && (
-                <div className="flex items-center justify-between bg-black/40 p-2 rounded border border-dashed border-green-900/50 text-xs font-mono">
-                    <span className="text-gray-400">Click on screen to plot vectors.</span>
-                    <button onClick={clearDrawing} className="flex items-center gap-1 px-2 py-1 hover:bg-red-900/30 text-red-400 rounded transition-colors">
-                        <RotateCcw className="w-3 h-3" /> CLEAR
-                    </button>
+                <div className="flex flex-wrap items-center justify-between gap-2 bg-black/40 p-2 rounded border border-dashed border-green-900/50 text-xs font-mono">
+                    <span className="text-gray-400">Click to plot. Drag a vertex to move it, right-click to delete.</span>
+                    <div className="flex items-center gap-1">
+                        <button onClick={startNewStroke} disabled={drawing.present.activeId === null} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30">
+                            <PenOff className="w-3 h-3" /> PEN UP
+                        </button>
+                        <button onClick={closeShape} disabled={drawing.present.activeId === null} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30">
+                            <Hexagon className="w-3 h-3" /> CLOSE
+                        </button>
+                        <button onClick={undoDrawing} disabled={drawing.past.length === 0} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30">
+                            <Undo2 className="w-3 h-3" /> UNDO
+                        </button>
+                        <button onClick={redoDrawing} disabled={drawing.future.length === 0} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30">
+                            <Redo2 className="w-3 h-3" /> REDO
+                        </button>
+                        <button onClick={clearDrawing} className="flex items-center gap-1 px-2 py-1 hover:bg-red-900/30 text-red-400 rounded transition-colors">
+                            <RotateCcw className="w-3 h-3" /> CLEAR
+                        </button>
+                    </div>
+                    <div className="flex items-center gap-2 w-full">
+                        <button onClick={() => svgInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+                            <FileUp className="w-3 h-3" /> IMPORT SVG
+                        </button>
+                        <input ref={svgInputRef} type="file" accept=".svg,image/svg+xml" onChange={handleSvgImport} className="hidden" />
+                        <BeamStylePicker style={drawStyle} onChange={setDrawStyle} allowBlank />
+                        <label className="flex items-center gap-1 text-green-700">
+                            CURVE TOL
+                            <select
+                                value={svgTolerance}
+                                onChange={(e) => setSvgTolerance(Number(e.target.value))}
+                                className="bg-black border border-green-900/50 rounded text-green-400"
+                            >
+                                <option value={0.05}>0.05</option>
+                                <option value={0.1}>0.10</option>
+                                <option value={0.25}>0.25</option>
+                                <option value={0.5}>0.50</option>
+                                <option value={1}>1.00</option>
+                            </select>
+                        </label>
+                        {drawStatus && <span className="text-green-700 ml-auto">{drawStatus}</span>}
+                    </div>
+                    <form onSubmit={handleGenerateArt} className="flex items-center gap-2 w-full">
+                        <input
+                            type="text"
+                            value={artPrompt}
+                            onChange={(e) => setArtPrompt(e.target.value)}
+                            placeholder='DESCRIBE A DRAWING, E.G. "A LUNAR LANDER"'
+                            className="flex-1 bg-transparent border-b border-green-900/50 outline-none text-vector-green placeholder-green-900"
+                        />
+                        <button type="submit" disabled={artLoading || !artPrompt.trim()} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30">
+                            <Sparkles className={`w-3 h-3 ${artLoading ? 'animate-pulse' : ''}`} /> GENERATE
+                        </button>
+                    </form>
                 </div>
             )}
 
             {contentMode === ContentMode.TEXT && (
-                <div className="flex gap-2 bg-black/40 p-2 rounded border border-green-900/50">
-                    <input 
-                        type="text" 
-                        maxLength={15}
+                <div className="flex flex-wrap gap-2 bg-black/40 p-2 rounded border border-green-900/50">
+                    <textarea
+                        rows={2}
                         placeholder="ENTER TEXT..." 
                         value={customText}
                         onChange={(e) => setCustomText(e.target.value)}
-                        className="bg-transparent border-none outline-none text-vector-green font-mono uppercase w-full placeholder-green-900"
+                        className="bg-transparent border-none outline-none resize-none text-vector-green font-mono w-full placeholder-green-900"
                     />
+                    <div className="flex flex-col gap-1">
+                        {([['left', AlignLeft], ['center', AlignCenter], ['right', AlignRight]] as const).map(([align, Icon]) => (
+                            <button
+                                key={align}
+                                onClick={() => setTextAlign(align)}
+                                title={`Align ${align}`}
+                                className={`p-1 rounded transition-colors ${textAlign === align ? 'text-vector-green bg-green-900/30' : 'text-gray-500 hover:text-gray-300'}`}
+                            >
+                                <Icon className="w-3 h-3" />
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2 w-full text-xs font-mono">
+                        <label className="flex items-center gap-1 text-green-700">
+                            FONT
+                            <select
+                                value={textFont.id}
+                                onChange={(e) => selectFont(e.target.value)}
+                                className="bg-black border border-green-900/50 rounded text-green-400"
+                            >
+                                {listFonts().map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                            </select>
+                        </label>
+                        <button onClick={() => fontInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+                            <FileUp className="w-3 h-3" /> LOAD .JHF
+                        </button>
+                        <input ref={fontInputRef} type="file" accept=".jhf" onChange={handleFontImport} className="hidden" />
+                        <BeamStylePicker style={textStyle} onChange={setTextStyle} />
+                        {fontStatus && <span className="text-green-700 ml-auto">{fontStatus}</span>}
+                    </div>
+                </div>
+            )}
+
+            {contentMode === ContentMode.GAME && (
+                <div className="flex flex-wrap items-center justify-between gap-2 bg-black/40 p-2 rounded border border-dashed border-green-900/50 text-xs font-mono">
+                    <span className="text-gray-400">ARROWS / WASD to steer and thrust, SPACE to fire. The frame rate is whatever the beam can draw.</span>
+                    <button onClick={() => gameSession.restart()} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+                        <RotateCcw className="w-3 h-3" /> NEW GAME
+                    </button>
                 </div>
             )}
 
+            {contentMode === ContentMode.WIREFRAME && (
+                <WireframePanel
+                    settings={wireframe}
+                    meshes={meshes}
+                    status={wireframeStatus}
+                    onChange={setWireframe}
+                    onImport={handleObjImport}
+                />
+            )}
+
             {/* Control Panel */}
             <div className="grid grid-cols-2 gap-4 bg-neutral-900/30 p-3 rounded border border-green-900/20">
                 <div className="flex flex-col gap-2">
@@ -194,32 +719,214 @@ const App: React.FC = () => {
                 </div>
                 <div className="flex flex-col gap-2">
                     <label className="text-xs font-mono text-green-600 flex items-center gap-2">
-                        <Zap className="w-3 h-3" /> PHOSPHOR PERSISTENCE
+                        <Zap className="w-3 h-3" /> PHOSPHOR PERSISTENCE <span className="ml-auto text-green-800">{phosphorId === 'standard' ? `${persistence} MS` : phosphor.name}</span>
                     </label>
                     <input 
                         type="range" 
                         min="200" max="3000" step="100" 
                         value={persistence}
+                        disabled={phosphorId !== 'standard'}
                         onChange={(e) => setPersistence(Number(e.target.value))}
+                        className="disabled:opacity-30 w-full h-1 bg-green-900/30 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-vector-green [&::-webkit-slider-thumb]:rounded-full"
+                    />
+                </div>
+                <div className="flex flex-col gap-2">
+                    <label className="text-xs font-mono text-green-600 flex items-center gap-2">
+                        <RefreshCw className="w-3 h-3" /> REFRESH TARGET <span className="ml-auto text-green-800">{physics.refreshRate.toFixed(1)} HZ</span>
+                    </label>
+                    <input 
+                        type="range" 
+                        min="0.1" max="2" step="0.1" 
+                        value={physics.refreshRate}
+                        onChange={(e) => updatePhysics('refreshRate', Number(e.target.value))}
                         className="w-full h-1 bg-green-900/30 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-vector-green [&::-webkit-slider-thumb]:rounded-full"
                     />
                 </div>
+                <div className="flex flex-col gap-2">
+                    <label className="text-xs font-mono text-green-600 flex items-center gap-2">
+                        <Gauge className="w-3 h-3" /> DEFLECTION BANDWIDTH <span className="ml-auto text-green-800">{physics.bandwidth.toFixed(2)}</span>
+                    </label>
+                    <input 
+                        type="range" 
+                        min="0.02" max="0.5" step="0.01" 
+                        value={physics.bandwidth}
+                        onChange={(e) => updatePhysics('bandwidth', Number(e.target.value))}
+                        className="w-full h-1 bg-green-900/30 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-vector-green [&::-webkit-slider-thumb]:rounded-full"
+                    />
+                </div>
+                <div className="flex flex-col gap-2">
+                    <label className="text-xs font-mono text-green-600 flex items-center gap-2">
+                        <Waves className="w-3 h-3" /> AMPLIFIER DAMPING <span className="ml-auto text-green-800">{physics.damping.toFixed(2)}</span>
+                    </label>
+                    <input 
+                        type="range" 
+                        min="0.1" max="1.5" step="0.05" 
+                        value={physics.damping}
+                        onChange={(e) => updatePhysics('damping', Number(e.target.value))}
+                        className="w-full h-1 bg-green-900/30 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-vector-green [&::-webkit-slider-thumb]:rounded-full"
+                    />
+                </div>
+                <div className="flex flex-col gap-2">
+                    <label className="text-xs font-mono text-green-600 flex items-center gap-2">
+                        <Timer className="w-3 h-3" /> SETTLE TIME <span className="ml-auto text-green-800">{physics.settleTime} MS</span>
+                    </label>
+                    <input 
+                        type="range" 
+                        min="0" max="200" step="5" 
+                        value={physics.settleTime}
+                        onChange={(e) => updatePhysics('settleTime', Number(e.target.value))}
+                        className="w-full h-1 bg-green-900/30 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-vector-green [&::-webkit-slider-thumb]:rounded-full"
+                    />
+                </div>
+            </div>
+
+            <PhosphorPanel
+                phosphorId={phosphorId}
+                phosphor={phosphor}
+                custom={customPhosphor}
+                onSelect={setPhosphorId}
+                onCustomChange={setCustomPhosphor}
+            />
+
+            {/* Phosphor Renderer */}
+            {(mode === DisplayMode.VECTOR || compare) && (
+                <div className="flex items-center gap-2 text-xs font-mono">
+                    <span className="text-green-600 flex items-center gap-2"><Layers className="w-3 h-3" /> RENDERER</span>
+                    {[ScreenRenderer.SVG, ScreenRenderer.CANVAS].map(r => (
+                        <button
+                            key={r}
+                            onClick={() => setRenderer(r)}
+                            className={`px-2 py-1 rounded border transition-colors ${renderer === r ? 'border-vector-green text-vector-green' : 'border-green-900/50 text-gray-500 hover:text-gray-300'}`}
+                        >
+                            {r}
+                        </button>
+                    ))}
+                    <span className="text-green-800">
+                        {renderer === ScreenRenderer.CANVAS ? 'per-pixel decay + bloom, scales to large scenes' : 'one element per stroke'}
+                    </span>
+                </div>
+            )}
+
+            {/* Raster Framebuffer */}
+            {(mode === DisplayMode.RASTER || compare) && (
+                <div className="flex flex-wrap items-center gap-4 text-xs font-mono">
+                    <label className="text-green-600 flex items-center gap-2">
+                        <Grid3x3 className="w-3 h-3" /> RESOLUTION
+                        <select
+                            value={raster.resolution}
+                            onChange={(e) => setRaster(prev => ({ ...prev, resolution: e.target.value }))}
+                            className="bg-black border border-green-900/50 rounded text-green-400"
+                        >
+                            {RASTER_RESOLUTIONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-green-600 flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={raster.antialias} onChange={(e) => setRaster(prev => ({ ...prev, antialias: e.target.checked }))} />
+                        ANTI-ALIAS
+                    </label>
+                    <label className="text-green-600 flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={raster.interlaced} onChange={(e) => setRaster(prev => ({ ...prev, interlaced: e.target.checked }))} />
+                        INTERLACED
+                    </label>
+                </div>
+            )}
+
+            {/* Draw Order Optimizer */}
+            {(mode === DisplayMode.VECTOR || compare) && (
+                <DrawOrderPanel
+                    shapes={sceneShapes}
+                    physics={physics}
+                    beamSpeed={beamSpeed}
+                    enabled={optimizeOrder}
+                    onToggle={setOptimizeOrder}
+                />
+            )}
+
+            {/* Animation Timeline */}
+            {animation && <TimelinePanel clip={animation} clock={animationClock} />}
+
+            {/* Scene Library */}
+            <ScenePanel buildScene={buildScene} onLoad={applyScene} />
+
+            {/* CRT Display (with the DVG listing alongside in DVG mode). In the split view both
+                screens share one clock and refresh at the REFRESH TARGET, raster included, so the
+                two are compared frame for frame; exports record the selected mode. */}
+            <div className={contentMode === ContentMode.DVG ? (compare ? 'flex flex-col gap-4' : 'grid grid-cols-1 md:grid-cols-[3fr_2fr] gap-4') : ''}>
+                <div className={compare ? 'grid grid-cols-1 md:grid-cols-2 gap-4' : ''}>
+                    {(compare ? [DisplayMode.VECTOR, DisplayMode.RASTER] : [mode]).map(screenMode => (
+                        <RetroScreen 
+                            key={compare ? screenMode : 'main'}
+                            mode={screenMode} 
+                            contentMode={contentMode}
+                            customShapes={drawing.present.shapes}
+                            activeShapeId={drawing.present.activeId}
+                            customText={customText}
+                            textAlign={textAlign}
+                            textFont={textFont}
+                            textStyle={textStyle}
+                            programShapes={programShapes}
+                            liveShapes={liveShapes}
+                            onCanvasClick={handleCanvasClick}
+                            onVertexDragStart={handleVertexDragStart}
+                            onVertexDrag={handleVertexDrag}
+                            onVertexDelete={handleVertexDelete}
+                            onCycleStart={screenMode === mode ? notifyCycleStart : undefined}
+                            onBeamFrame={screenMode === mode ? notifyBeamFrame : undefined}
+                            svgElementRef={screenMode === mode ? screenSvgRef : undefined}
+                            beamSpeed={beamSpeed}
+                            phosphor={phosphor}
+                            optimizeOrder={optimizeOrder}
+                            physics={physics}
+                            renderer={renderer}
+                            raster={raster}
+                            animation={animation}
+                            animationClock={animationClock}
+                            timeScale={liveShapes ? REALTIME_TIME_SCALE : 1}
+                            beamTrace={contentMode === ContentMode.AUDIO ? beamTrace : null}
+                            clock={simulationClock}
+                            rasterPeriod={compare ? 1000 / physics.refreshRate : undefined}
+                            showMetrics={compare}
+                        />
+                    ))}
+                </div>
+                {contentMode === ContentMode.DVG && (
+                    <DvgPanel sources={dvgSources} onProgramShapes={setProgramShapes} />
+                )}
             </div>
 
-            {/* CRT Display */}
-            <RetroScreen 
-                mode={mode} 
-                contentMode={contentMode}
-                customPoints={customPoints}
-                customText={customText}
-                onCanvasClick={handleCanvasClick}
-                beamSpeed={beamSpeed}
-                persistence={persistence}
+            {/* Beam Transport & Deflection Signals */}
+            <SimulationPanel clock={simulationClock} subscribe={subscribeBeamFrame} />
+            <ScopePanel subscribe={subscribeBeamFrame} clock={simulationClock} />
+
+            {/* Export & Recording */}
+            <ExportPanel
+                shapes={sceneShapes}
+                mode={mode}
+                svgElementRef={screenSvgRef}
+                subscribeCycle={subscribeCycle}
+            />
+
+            {/* Oscilloscope XY Audio */}
+            <XyAudioPanel
+                shapes={sceneShapes}
+                trace={xyTrace}
+                onImport={handleXyImport}
+                onPlayTrace={restartBeamTrace}
             />
 
             {/* Dynamic Content Box */}
             <div className="bg-black border border-green-900/50 rounded-lg overflow-hidden h-[250px] relative">
-                <TerminalOutput content={explanation} isLoading={loading} />
+                {lessonNarration ? (
+                    <TerminalOutput content={lessonNarration.text} heading={lessonNarration.heading} />
+                ) : (
+                    <TerminalOutput
+                        content={explanation?.text ?? "Initializing system... Select a mode to begin analysis."}
+                        isLoading={loading}
+                        source={explanation?.source}
+                        updatedAt={explanation?.updatedAt}
+                        onRefresh={refreshExplanation}
+                    />
+                )}
             </div>
         </div>
 
@@ -228,7 +935,15 @@ const App: React.FC = () => {
             <div className="p-4 border-b border-green-900/30 bg-black/40 flex items-center gap-2">
                 <Terminal className="w-4 h-4" />
                 <span className="font-mono text-sm font-bold">ENGINEER.UPLINK</span>
+                <button
+                    onClick={() => setShowLlmSettings(prev => !prev)}
+                    title="Model provider"
+                    className={`ml-auto flex items-center gap-1 px-2 py-1 rounded font-mono text-xs transition-colors ${showLlmSettings ? 'text-vector-green bg-green-900/30' : 'text-green-700 hover:text-green-400'}`}
+                >
+                    <Sliders className="w-3 h-3" /> {llmSettings.provider}
+                </button>
             </div>
+            {showLlmSettings && <LlmSettingsPanel settings={llmSettings} onChange={setLlmSettings} />}
 
             <div className="flex-1 overflow-y-auto p-4 space-y-4 font-mono text-sm">
                 {chatHistory.length === 0 && (
@@ -238,23 +953,33 @@ const App: React.FC = () => {
                 )}
                 {chatHistory.map((msg, idx) => (
                     <div key={idx} className={`flex flex-col ${msg.role === MessageRole.USER ? 'items-end' : 'items-start'}`}>
-                        <div className={`max-w-[85%] p-3 rounded-lg ${
-                            msg.role === MessageRole.USER 
-                            ? 'bg-green-900/20 text-green-100 border border-green-700/30' 
-                            : 'bg-black text-green-400 border border-green-900/50'
-                        }`}>
-                            {msg.text}
-                        </div>
-                        <span className="text-[10px] text-green-900 mt-1 uppercase">{msg.role}</span>
+                        {msg.status === 'streaming' && !msg.text ? (
+                            <div className="bg-black text-green-400 border border-green-900/50 p-3 rounded-lg animate-pulse">
+                                Analyzing signal...
+                            </div>
+                        ) : (
+                            <div className={`max-w-[85%] p-3 rounded-lg whitespace-pre-wrap ${
+                                msg.role === MessageRole.USER 
+                                ? 'bg-green-900/20 text-green-100 border border-green-700/30' 
+                                : msg.status === 'error'
+                                ? 'bg-black text-red-400 border border-red-900/50'
+                                : 'bg-black text-green-400 border border-green-900/50'
+                            }`}>
+                                {msg.text}
+                                {msg.status === 'streaming' && <span className="animate-pulse">▋</span>}
+                            </div>
+                        )}
+                        <span className="text-[10px] text-green-900 mt-1 uppercase flex items-center gap-2">
+                            {msg.role}
+                            {msg.status === 'stopped' && <span className="text-yellow-700">STOPPED</span>}
+                            {msg.role === MessageRole.MODEL && idx === chatHistory.length - 1 && !chatLoading && (
+                                <button onClick={regenerateReply} className="flex items-center gap-1 text-green-700 hover:text-green-400 transition-colors">
+                                    <RefreshCw className="w-3 h-3" /> REGENERATE
+                                </button>
+                            )}
+                        </span>
                     </div>
                 ))}
-                {chatLoading && (
-                    <div className="flex items-start">
-                        <div className="bg-black text-green-400 border border-green-900/50 p-3 rounded-lg animate-pulse">
-                            Analyzing signal...
-                        </div>
-                    </div>
-                )}
                 <div ref={chatEndRef} />
             </div>
 
@@ -266,13 +991,24 @@ const App: React.FC = () => {
                     placeholder="Query the database..."
                     className="flex-1 bg-neutral-900 border border-green-900/50 rounded px-4 py-2 text-green-100 focus:outline-none focus:border-vector-green focus:ring-1 focus:ring-vector-green/50 font-mono placeholder-green-900"
                 />
-                <button 
-                    type="submit"
-                    disabled={chatLoading || !userInput.trim()}
-                    className="bg-vector-green text-black px-4 py-2 rounded font-bold hover:bg-green-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                    <Send className="w-4 h-4" />
-                </button>
+                {chatLoading ? (
+                    <button 
+                        type="button"
+                        onClick={stopReply}
+                        title="Stop"
+                        className="bg-red-500 text-black px-4 py-2 rounded font-bold hover:bg-red-400 transition-colors"
+                    >
+                        <Square className="w-4 h-4" />
+                    </button>
+                ) : (
+                    <button 
+                        type="submit"
+                        disabled={!userInput.trim()}
+                        className="bg-vector-green text-black px-4 py-2 rounded font-bold hover:bg-green-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <Send className="w-4 h-4" />
+                    </button>
+                )}
             </form>
         </div>
 
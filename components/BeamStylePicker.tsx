@@ -0,0 +1,50 @@
+import React from 'react';
+import { BeamStyle } from '../types';
+
+interface BeamStylePickerProps {
+  style: BeamStyle;
+  onChange: (style: BeamStyle) => void;
+  allowBlank?: boolean; // offer Z = 0 (blanked moves), which only makes sense per vertex
+}
+
+// The colours a Tempest-style colour vector generator could select per vector
+const PALETTE: { label: string; color?: string }[] = [
+  { label: 'PHOSPHOR' },
+  { label: 'WHITE', color: '#ffffff' },
+  { label: 'YELLOW', color: '#ffff00' },
+  { label: 'RED', color: '#ff2020' },
+  { label: 'MAGENTA', color: '#ff00ff' },
+  { label: 'BLUE', color: '#3050ff' },
+  { label: 'CYAN', color: '#00ffff' }
+];
+
+const Z_LEVELS = [1, 0.75, 0.5, 0.25];
+
+const BeamStylePicker: React.FC<BeamStylePickerProps> = ({ style, onChange, allowBlank = false }) => (
+  <div className="flex items-center gap-2 text-green-700">
+    <div className="flex items-center gap-1">
+      {PALETTE.map(p => (
+        <button
+          key={p.label}
+          onClick={() => onChange({ ...style, color: p.color })}
+          title={p.label}
+          className={`w-4 h-4 rounded-sm border ${style.color === p.color ? 'border-white' : 'border-transparent'}`}
+          style={{ backgroundColor: p.color ?? '#39ff14' }}
+        />
+      ))}
+    </div>
+    <label className="flex items-center gap-1">
+      Z
+      <select
+        value={style.z}
+        onChange={(e) => onChange({ ...style, z: Number(e.target.value) })}
+        className="bg-black border border-green-900/50 rounded text-green-400"
+      >
+        {Z_LEVELS.map(z => <option key={z} value={z}>{Math.round(z * 100)}%</option>)}
+        {allowBlank && <option value={0}>0 (MOVE)</option>}
+      </select>
+    </label>
+  </div>
+);
+
+export default BeamStylePicker;
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { Route } from 'lucide-react';
+import { BeamPhysics, VectorShape } from '../types';
+import { DrawListStats, measureDrawList, optimizeDrawOrder } from '../utils/drawOrder';
+
+interface DrawOrderPanelProps {
+  shapes: VectorShape[];
+  physics: BeamPhysics;
+  beamSpeed: number;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+}
+
+const formatDelta = (before: number, after: number) => {
+  if (before === 0) return '';
+  const pct = ((after - before) / before) * 100;
+  return `${pct <= 0 ? '' : '+'}${pct.toFixed(0)}%`;
+};
+
+const DrawOrderPanel: React.FC<DrawOrderPanelProps> = ({ shapes, physics, beamSpeed, enabled, onToggle }) => {
+  const { before, after } = useMemo(() => ({
+    before: measureDrawList(shapes, physics, beamSpeed),
+    after: measureDrawList(optimizeDrawOrder(shapes), physics, beamSpeed)
+  }), [shapes, physics, beamSpeed]);
+
+  const rows: { label: string; key: keyof DrawListStats; unit: string }[] = [
+    { label: 'STROKES', key: 'strokes', unit: '' },
+    { label: 'LIT LENGTH', key: 'litLength', unit: '' },
+    { label: 'BLANKED', key: 'blankLength', unit: '' },
+    { label: 'FRAME TIME', key: 'frameTimeMs', unit: 'ms' }
+  ];
+
+  return (
+    <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs">
+      <label className="flex items-center gap-2 text-green-600 mb-2 cursor-pointer">
+        <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+        <Route className="w-3 h-3" /> OPTIMIZE DRAW ORDER
+      </label>
+      <table className="w-full text-left">
+        <thead>
+          <tr className="text-green-800">
+            <th className="font-normal"></th>
+            <th className="font-normal">AS ENTERED</th>
+            <th className="font-normal">OPTIMIZED</th>
+            <th className="font-normal"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key}>
+              <td className="text-green-700">{row.label}</td>
+              <td className={enabled ? 'text-green-800' : 'text-green-400'}>{before[row.key].toFixed(row.key === 'strokes' ? 0 : 1)}{row.unit}</td>
+              <td className={enabled ? 'text-green-400' : 'text-green-800'}>{after[row.key].toFixed(row.key === 'strokes' ? 0 : 1)}{row.unit}</td>
+              <td className="text-vector-green">{formatDelta(before[row.key], after[row.key])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DrawOrderPanel;
@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Cpu } from 'lucide-react';
+import { VectorShape } from '../types';
+import {
+  compileShapes, disassemble, formatHexDump, formatInstruction, formatWords, movesToShapes, parseHexDump, runDvg
+} from '../utils/dvg';
+
+export interface DvgSource {
+  id: string;
+  label: string;
+  shapes: VectorShape[];
+}
+
+interface DvgPanelProps {
+  sources: DvgSource[];
+  onProgramShapes: (shapes: VectorShape[]) => void;
+}
+
+type ListingView = 'ASM' | 'HEX';
+
+const DvgPanel: React.FC<DvgPanelProps> = ({ sources, onProgramShapes }) => {
+  const [sourceId, setSourceId] = useState(sources[0]?.id ?? '');
+  const [useSubroutines, setUseSubroutines] = useState(true);
+  const [dump, setDump] = useState<string>(() =>
+    formatHexDump(compileShapes(sources[0]?.shapes ?? []))
+  );
+  const [view, setView] = useState<ListingView>('ASM');
+
+  const compile = () => {
+    const source = sources.find(s => s.id === sourceId);
+    if (!source) return;
+    setDump(formatHexDump(compileShapes(source.shapes, { useSubroutines })));
+  };
+
+  // Re-parse and re-run whenever the dump changes, including hand edits
+  const result = useMemo(() => {
+    try {
+      const words = parseHexDump(dump);
+      const run = runDvg(words);
+      return { words, run, parseError: null as string | null };
+    } catch (error) {
+      return { words: [] as number[], run: null, parseError: (error as Error).message };
+    }
+  }, [dump]);
+
+  useEffect(() => {
+    onProgramShapes(result.run ? movesToShapes(result.run.moves) : []);
+  }, [result]);
+
+  const listing = useMemo(() => disassemble(result.words), [result.words]);
+  const litMoves = result.run ? result.run.moves.filter(m => m.intensity > 0).length : 0;
+
+  return (
+    <div className="flex flex-col gap-2 bg-black/40 p-2 rounded border border-green-900/50 font-mono text-xs h-full">
+      <div className="flex flex-wrap items-center gap-2">
+        <Cpu className="w-3 h-3 text-green-600" />
+        <select
+          value={sourceId}
+          onChange={(e) => setSourceId(e.target.value)}
+          className="bg-black border border-green-900/50 rounded text-green-400"
+        >
+          {sources.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-green-700">
+          <input type="checkbox" checked={useSubroutines} onChange={(e) => setUseSubroutines(e.target.checked)} />
+          JSRL
+        </label>
+        <button onClick={compile} className="px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+          COMPILE
+        </button>
+        <span className="ml-auto flex">
+          {(['ASM', 'HEX'] as ListingView[]).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-2 py-1 rounded ${view === v ? 'bg-green-900/40 text-vector-green' : 'text-green-700'}`}
+            >
+              {v}
+            </button>
+          ))}
+        </span>
+      </div>
+
+      {view === 'HEX' ? (
+        <textarea
+          value={dump}
+          onChange={(e) => setDump(e.target.value)}
+          spellCheck={false}
+          className="flex-1 min-h-[12rem] bg-black border border-green-900/50 rounded p-2 text-green-400 outline-none resize-none"
+        />
+      ) : (
+        <div className="flex-1 min-h-[12rem] max-h-80 overflow-y-auto bg-black border border-green-900/50 rounded p-2">
+          {listing.map(inst => (
+            <div key={inst.address} className="flex gap-3 whitespace-pre">
+              <span className="text-green-900">{inst.address.toString(16).toUpperCase().padStart(3, '0')}</span>
+              <span className="text-green-700 w-20">{formatWords(inst.words)}</span>
+              <span className="text-green-400">{formatInstruction(inst)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className={result.parseError || result.run?.error ? 'text-red-400' : 'text-green-700'}>
+        {result.parseError
+          ? `PARSE ERROR: ${result.parseError}`
+          : result.run?.error
+            ? `FAULT: ${result.run.error}`
+            : `${result.words.length} WORDS / ${result.words.length * 2} BYTES / ${result.run?.executed ?? 0} EXECUTED / ${litMoves} LIT VECTORS`}
+      </div>
+    </div>
+  );
+};
+
+export default DvgPanel;
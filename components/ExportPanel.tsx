@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Image, FileImage, Film, Square } from 'lucide-react';
+import { DisplayMode, VectorShape } from '../types';
+import { exportSceneSvg, exportScenePng, snapshotLiveSvg, encodeRecording } from '../services/displayExport';
+import { downloadBlob } from '../utils/download';
+
+interface ExportPanelProps {
+  shapes: VectorShape[];
+  mode: DisplayMode;
+  svgElementRef: React.MutableRefObject<SVGSVGElement | null>;
+  // Registers a callback fired when RetroScreen starts a new beam/scan cycle; returns an unsubscribe
+  subscribeCycle: (listener: () => void) => () => void;
+}
+
+const PNG_SIZES = [
+  { label: '800x600', width: 800, height: 600 },
+  { label: '1600x1200', width: 1600, height: 1200 },
+  { label: '3200x2400', width: 3200, height: 2400 }
+];
+
+const GIF_WIDTH = 400;
+const GIF_FPS = 20;
+const MAX_RECORDING_MS = 20000;
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ shapes, mode, svgElementRef, subscribeCycle }) => {
+  const [pngSize, setPngSize] = useState(0);
+  const [cycles, setCycles] = useState(1);
+  const [status, setStatus] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  const filename = `vector-${mode.toLowerCase()}-${Date.now()}`;
+  const baseSize = { width: PNG_SIZES[0].width, height: PNG_SIZES[0].height };
+
+  const handlePng = async () => {
+    try {
+      setStatus("RENDERING PNG...");
+      const { width, height } = PNG_SIZES[pngSize];
+      await exportScenePng(shapes, mode, { width, height }, filename);
+      setStatus(null);
+    } catch (error) {
+      console.error("Error exporting PNG:", error);
+      setStatus("PNG EXPORT FAILED");
+    }
+  };
+
+  // Waits for the next cycle to start, captures frames until the requested number of
+  // cycles has completed, then encodes the GIF
+  const handleRecord = () => {
+    const svg = svgElementRef.current;
+    if (!svg || recording) return;
+
+    const snapshots: string[] = [];
+    let seen = 0;
+    let done = false;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let safety: ReturnType<typeof setTimeout> | null = null;
+
+    setRecording(true);
+    setStatus("WAITING FOR CYCLE START...");
+
+    const finish = async () => {
+      if (done) return;
+      done = true;
+      unsubscribe();
+      if (timer) clearInterval(timer);
+      if (safety) clearTimeout(safety);
+      stopRef.current = null;
+
+      if (snapshots.length === 0) {
+        setRecording(false);
+        setStatus("NOTHING RECORDED");
+        return;
+      }
+
+      try {
+        setStatus(`ENCODING ${snapshots.length} FRAMES...`);
+        const rect = svg.getBoundingClientRect();
+        const size = { width: GIF_WIDTH, height: Math.round(GIF_WIDTH * (rect.height / rect.width)) };
+        const blob = await encodeRecording(snapshots, size, 1000 / GIF_FPS);
+        downloadBlob(blob, `${filename}.gif`);
+        setStatus(null);
+      } catch (error) {
+        console.error("Error encoding GIF:", error);
+        setStatus("GIF ENCODING FAILED");
+      }
+      setRecording(false);
+    };
+
+    const unsubscribe = subscribeCycle(() => {
+      if (seen === 0) {
+        timer = setInterval(() => snapshots.push(snapshotLiveSvg(svg)), 1000 / GIF_FPS);
+        safety = setTimeout(finish, MAX_RECORDING_MS);
+      }
+      seen++;
+      if (seen > cycles) {
+        finish();
+      } else {
+        setStatus(`REC CYCLE ${seen}/${cycles}`);
+      }
+    });
+
+    stopRef.current = finish;
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-neutral-900/30 p-2 rounded border border-green-900/20 font-mono text-xs">
+      <span className="text-green-700">EXPORT</span>
+      <button onClick={() => exportSceneSvg(shapes, mode, baseSize, filename)} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+        <FileImage className="w-3 h-3" /> SVG
+      </button>
+      <select
+        value={pngSize}
+        onChange={(e) => setPngSize(Number(e.target.value))}
+        className="bg-black border border-green-900/50 rounded text-green-400"
+      >
+        {PNG_SIZES.map((s, i) => <option key={s.label} value={i}>{s.label}</option>)}
+      </select>
+      <button onClick={handlePng} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+        <Image className="w-3 h-3" /> PNG
+      </button>
+      <span className="text-green-900">|</span>
+      <select
+        value={cycles}
+        onChange={(e) => setCycles(Number(e.target.value))}
+        disabled={recording}
+        className="bg-black border border-green-900/50 rounded text-green-400"
+      >
+        {[1, 2, 3, 5].map(n => <option key={n} value={n}>{n} CYCLE{n > 1 ? 'S' : ''}</option>)}
+      </select>
+      {recording ? (
+        <button onClick={() => stopRef.current?.()} className="flex items-center gap-1 px-2 py-1 hover:bg-red-900/30 text-red-400 rounded transition-colors animate-pulse">
+          <Square className="w-3 h-3" /> STOP
+        </button>
+      ) : (
+        <button onClick={handleRecord} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+          <Film className="w-3 h-3" /> GIF
+        </button>
+      )}
+      {status && <span className="text-green-700 ml-auto">{status}</span>}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GraduationCap, ChevronLeft, ChevronRight, Check, Circle, Upload, X, RotateCcw } from 'lucide-react';
+import { LessonDocument, LessonSetup, LessonStep } from '../utils/lessonFormat';
+import {
+  LessonProgress, LessonState, answerQuiz, completeStep, goToStep, isLessonFinished, isStepComplete,
+  quizScore, setupAt, startProgress, stepRequirementsMet
+} from '../utils/lessonEngine';
+import {
+  LessonEntry, clearProgress, importLessonFile, listLessons, listProgress, loadLesson, loadProgress, saveProgress
+} from '../services/lessonLibrary';
+
+export interface LessonNarration {
+  heading: string;
+  text: string;
+}
+
+interface LessonPanelProps {
+  state: LessonState;
+  onSetup: (setup: LessonSetup) => void;
+  // Called with the current step's narration, or null when no lesson is running
+  onNarration: (narration: LessonNarration | null) => void;
+}
+
+const LessonPanel: React.FC<LessonPanelProps> = ({ state, onSetup, onNarration }) => {
+  const [entries, setEntries] = useState<LessonEntry[]>(listLessons);
+  const [selectedId, setSelectedId] = useState<string>(() => listLessons()[0]?.id ?? '');
+  const [lesson, setLesson] = useState<LessonDocument | null>(null);
+  const [progress, setProgress] = useState<LessonProgress | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<{ correct: boolean; text: string } | null>(null);
+  const [saved, setSaved] = useState<Record<string, LessonProgress>>(listProgress);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const step: LessonStep | null = lesson && progress ? lesson.steps[progress.stepIndex] : null;
+
+  // Steps complete themselves as soon as their goal and quiz are satisfied
+  useEffect(() => {
+    if (!step || !progress || isStepComplete(step, progress)) return;
+    if (stepRequirementsMet(step, progress, state)) setProgress(completeStep(progress, step));
+  }, [step, progress, state]);
+
+  useEffect(() => {
+    if (!progress) return;
+    saveProgress(progress);
+    setSaved(listProgress());
+  }, [progress]);
+
+  useEffect(() => {
+    if (!lesson || !progress || !step) {
+      onNarration(null);
+      return;
+    }
+    onNarration({
+      heading: `${lesson.title} · ${progress.stepIndex + 1}/${lesson.steps.length} · ${step.title}`,
+      text: step.narration
+    });
+  }, [lesson, progress?.stepIndex]);
+
+  useEffect(() => () => onNarration(null), []);
+
+  const open = (doc: LessonDocument, resume: LessonProgress | null) => {
+    const start = resume ? goToStep(resume, doc, resume.stepIndex) : startProgress(doc);
+    setLesson(doc);
+    setProgress(start);
+    setFeedback(null);
+    setStatus(null);
+    onSetup(setupAt(doc, start.stepIndex));
+  };
+
+  const handleStart = async (restart = false) => {
+    setStatus("LOADING...");
+    try {
+      const doc = await loadLesson(selectedId);
+      if (restart) clearProgress(doc.id);
+      open(doc, restart ? null : loadProgress(doc.id));
+    } catch (error) {
+      console.error("Error loading lesson:", error);
+      setStatus(`LOAD FAILED: ${(error as Error).message}`);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const doc = await importLessonFile(file);
+      setEntries(listLessons());
+      setSelectedId(doc.id);
+      open(doc, loadProgress(doc.id));
+    } catch (error) {
+      console.error("Error importing lesson:", error);
+      setStatus(`IMPORT FAILED: ${(error as Error).message}`);
+    }
+  };
+
+  const move = (delta: number) => {
+    if (!lesson || !progress) return;
+    const next = goToStep(progress, lesson, progress.stepIndex + delta);
+    if (next.stepIndex === progress.stepIndex) return;
+    setProgress(next);
+    setFeedback(null);
+    // Forward keeps what the learner just did; backward restores the earlier screen
+    const target = lesson.steps[next.stepIndex];
+    if (delta > 0) {
+      if (target.setup) onSetup(target.setup);
+    } else {
+      onSetup(setupAt(lesson, next.stepIndex));
+    }
+  };
+
+  const answer = (value: number | LessonState) => {
+    if (!step?.quiz || !progress) return;
+    const result = answerQuiz(progress, step, value);
+    setProgress(result.progress);
+    const explanation = step.quiz.explanation ? ` ${step.quiz.explanation}` : '';
+    setFeedback(result.correct
+      ? { correct: true, text: `CORRECT.${explanation}` }
+      : { correct: false, text: step.quiz.kind === 'choice' ? 'NOT QUITE. TRY AGAIN.' : 'NOT YET. ADJUST THE SCREEN AND CHECK AGAIN.' });
+  };
+
+  const exit = () => {
+    setLesson(null);
+    setProgress(null);
+    setFeedback(null);
+  };
+
+  if (!lesson || !progress || !step) {
+    const resumable = saved[selectedId];
+    return (
+      <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs flex flex-col gap-2">
+        <div className="flex gap-2 items-center">
+          <span className="text-green-600 flex items-center gap-2"><GraduationCap className="w-3 h-3" /> LESSON</span>
+          <select
+            value={selectedId}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="flex-1 bg-black border border-green-900/50 rounded text-green-400"
+          >
+            {entries.map(entry => (
+              <option key={entry.id} value={entry.id}>
+                {entry.title}{saved[entry.id] ? ` [${saved[entry.id].completed.length} STEPS DONE]` : ''}
+              </option>
+            ))}
+          </select>
+          <button onClick={() => handleStart()} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+            <ChevronRight className="w-3 h-3" /> {resumable ? 'RESUME' : 'START'}
+          </button>
+          {resumable && (
+            <button onClick={() => handleStart(true)} className="p-1 hover:bg-green-900/30 text-green-400 rounded transition-colors" title="Start over">
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          )}
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+            <Upload className="w-3 h-3" /> IMPORT
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+        {status && <div className="text-green-700">{status}</div>}
+      </div>
+    );
+  }
+
+  const complete = isStepComplete(step, progress);
+  const last = progress.stepIndex === lesson.steps.length - 1;
+  const score = quizScore(progress, lesson);
+  const record = progress.quiz[step.id];
+
+  return (
+    <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <GraduationCap className="w-3 h-3 text-green-600" />
+        <span className="text-green-400 truncate">{lesson.title.toUpperCase()}</span>
+        <span className="ml-auto text-green-700">
+          {progress.completed.length}/{lesson.steps.length} STEPS
+          {score.total > 0 && ` · QUIZ ${score.firstTry}/${score.total}`}
+        </span>
+        <button onClick={exit} className="p-1 hover:bg-green-900/30 text-green-400 rounded transition-colors" title="Leave lesson">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {/* One segment per step: done, current, to do */}
+      <div className="flex gap-0.5">
+        {lesson.steps.map((s, i) => (
+          <div
+            key={s.id}
+            title={s.title}
+            className={`h-1 flex-1 rounded ${isStepComplete(s, progress) ? 'bg-vector-green' : i === progress.stepIndex ? 'bg-green-700' : 'bg-green-900/30'}`}
+          />
+        ))}
+      </div>
+
+      {step.waitFor && (
+        <div className={`flex items-start gap-2 ${complete ? 'text-green-700' : 'text-yellow-500'}`}>
+          {complete ? <Check className="w-3 h-3 mt-0.5 shrink-0" /> : <Circle className="w-3 h-3 mt-0.5 shrink-0 animate-pulse" />}
+          <span>{step.waitFor.hint}</span>
+        </div>
+      )}
+
+      {step.quiz && (
+        <div className="flex flex-col gap-1 border-t border-green-900/30 pt-2">
+          <span className="text-green-300">{step.quiz.question}</span>
+          {step.quiz.kind === 'choice' ? (
+            step.quiz.options.map((option, i) => (
+              <button
+                key={i}
+                onClick={() => answer(i)}
+                disabled={record?.correct}
+                className={`text-left px-2 py-1 rounded border transition-colors ${
+                  record?.correct && step.quiz?.kind === 'choice' && i === step.quiz.answer
+                    ? 'border-vector-green text-vector-green'
+                    : 'border-green-900/50 text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                {String.fromCharCode(65 + i)}. {option}
+              </button>
+            ))
+          ) : (
+            <button
+              onClick={() => answer(state)}
+              disabled={record?.correct}
+              className="self-start flex items-center gap-1 px-2 py-1 border border-green-900/50 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30"
+            >
+              <Check className="w-3 h-3" /> CHECK
+            </button>
+          )}
+          {feedback && <span className={feedback.correct ? 'text-green-400' : 'text-red-400'}>{feedback.text}</span>}
+          {!feedback && record?.correct && <span className="text-green-700">ANSWERED{step.quiz.explanation ? `: ${step.quiz.explanation}` : ''}</span>}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => move(-1)}
+          disabled={progress.stepIndex === 0}
+          className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30"
+        >
+          <ChevronLeft className="w-3 h-3" /> BACK
+        </button>
+        <span className="flex-1 text-center text-green-700">
+          {last && isLessonFinished(progress, lesson) ? 'LESSON COMPLETE' : complete ? '' : step.quiz ? 'ANSWER TO CONTINUE' : step.waitFor ? 'WAITING FOR YOU' : ''}
+        </span>
+        {last ? (
+          <button onClick={exit} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+            <Check className="w-3 h-3" /> FINISH
+          </button>
+        ) : (
+          <button
+            onClick={() => move(1)}
+            disabled={!complete}
+            className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30"
+          >
+            NEXT <ChevronRight className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LessonPanel;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { LlmProviderId, LlmSettings } from '../types';
+
+interface LlmSettingsPanelProps {
+  settings: LlmSettings;
+  onChange: (settings: LlmSettings) => void;
+}
+
+const PROVIDERS: { id: LlmProviderId; label: string; hint: string }[] = [
+  { id: LlmProviderId.GEMINI, label: 'GEMINI', hint: 'Google Gemini API; needs GEMINI_API_KEY and a network connection.' },
+  { id: LlmProviderId.OPENAI, label: 'LOCAL / OPENAI', hint: 'Any OpenAI-compatible server: llama.cpp, Ollama, LM Studio.' },
+  { id: LlmProviderId.MOCK, label: 'OFFLINE', hint: 'Canned answers from the built-in archive. No network needed.' }
+];
+
+const inputClass = "bg-neutral-900 border border-green-900/50 rounded px-2 py-1 text-green-100 focus:outline-none focus:border-vector-green font-mono";
+
+const LlmSettingsPanel: React.FC<LlmSettingsPanelProps> = ({ settings, onChange }) => {
+  const update = <K extends keyof LlmSettings>(key: K, value: LlmSettings[K]) => onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="p-3 border-b border-green-900/30 bg-black/60 font-mono text-xs flex flex-col gap-2">
+      <div className="flex flex-wrap gap-1">
+        {PROVIDERS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => update('provider', p.id)}
+            className={`px-2 py-1 rounded border transition-colors ${settings.provider === p.id ? 'border-vector-green text-vector-green' : 'border-green-900/50 text-gray-500 hover:text-gray-300'}`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+      <span className="text-green-800">{PROVIDERS.find(p => p.id === settings.provider)?.hint}</span>
+
+      {settings.provider === LlmProviderId.GEMINI && (
+        <label className="flex items-center gap-2 text-green-600">
+          MODEL
+          <input value={settings.geminiModel} onChange={(e) => update('geminiModel', e.target.value)} className={`${inputClass} flex-1`} />
+        </label>
+      )}
+
+      {settings.provider === LlmProviderId.OPENAI && (
+        <div className="grid grid-cols-[auto_1fr] items-center gap-2 text-green-600">
+          BASE URL
+          <input value={settings.openAiBaseUrl} onChange={(e) => update('openAiBaseUrl', e.target.value)} placeholder="http://localhost:11434/v1" className={inputClass} />
+          MODEL
+          <input value={settings.openAiModel} onChange={(e) => update('openAiModel', e.target.value)} className={inputClass} />
+          API KEY
+          <input type="password" value={settings.openAiApiKey} onChange={(e) => update('openAiApiKey', e.target.value)} placeholder="optional" className={inputClass} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LlmSettingsPanel;
@@ -0,0 +1,183 @@
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { Plus, Sparkles, X } from 'lucide-react';
+import { DecayComponent, PhosphorModel } from '../types';
+import { PHOSPHOR_IDS, phosphorColorAt, phosphorLifetime, phosphorResponse } from '../utils/phosphor';
+
+interface PhosphorPanelProps {
+  phosphorId: string; // 'standard', a preset id or 'custom'
+  phosphor: PhosphorModel; // the model currently in use
+  custom: PhosphorModel;
+  onSelect: (id: string) => void;
+  onCustomChange: (model: PhosphorModel) => void;
+}
+
+const PLOT_WIDTH = 280;
+const PLOT_HEIGHT = 80;
+const PLOT_MARGIN = 14;
+// Log time axis: from a fast flash to a long afterglow
+const PLOT_T_MIN = 0.01;
+const PLOT_T_MAX = 10000;
+const FRAME_MS = 1000 / 60;
+const MAX_COMPONENTS = 3;
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : ms >= 1 ? `${ms.toFixed(0)}ms` : `${(ms * 1000).toFixed(0)}µs`);
+
+const sliderClass = "w-full h-1 bg-green-900/30 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-vector-green [&::-webkit-slider-thumb]:rounded-full";
+
+// Brightness after one excitation against log time, with the length of a 60Hz frame marked
+const DecayPlot: React.FC<{ model: PhosphorModel }> = ({ model }) => {
+  const { path, stops, frameX, ticks } = useMemo(() => {
+    const x = d3.scaleLog().domain([PLOT_T_MIN, PLOT_T_MAX]).range([PLOT_MARGIN, PLOT_WIDTH - PLOT_MARGIN]);
+    const y = d3.scaleLinear().domain([0, 1]).range([PLOT_HEIGHT - PLOT_MARGIN, 4]);
+    const times = d3.range(0, 121).map(i => PLOT_T_MIN * Math.pow(PLOT_T_MAX / PLOT_T_MIN, i / 120));
+    const line = d3.line<number>().x(t => x(t)).y(t => y(Math.min(1, phosphorResponse(model, t))));
+    return {
+      path: line(times) ?? '',
+      // The stroke is graded through the emitted colour over time
+      stops: [0, 0.25, 0.5, 0.75, 1].map(k => ({ offset: k, color: phosphorColorAt(model, PLOT_T_MIN * Math.pow(PLOT_T_MAX / PLOT_T_MIN, k)) })),
+      frameX: x(FRAME_MS),
+      ticks: [0.01, 1, 100, 10000].map(t => ({ x: x(t), label: formatMs(t) }))
+    };
+  }, [model]);
+
+  return (
+    <svg width={PLOT_WIDTH} height={PLOT_HEIGHT} className="bg-black/60 rounded border border-green-900/30">
+      <defs>
+        <linearGradient id="phosphor-decay-gradient" x1="0" x2="1" y1="0" y2="0">
+          {stops.map(s => <stop key={s.offset} offset={s.offset} stopColor={s.color} />)}
+        </linearGradient>
+      </defs>
+      <line x1={frameX} x2={frameX} y1={4} y2={PLOT_HEIGHT - PLOT_MARGIN} stroke="#14532d" strokeDasharray="2 2" />
+      <text x={frameX + 2} y={12} fill="#166534" fontSize={8}>1 FRAME</text>
+      {ticks.map(t => <text key={t.label} x={t.x} y={PLOT_HEIGHT - 3} fill="#166534" fontSize={8} textAnchor="middle">{t.label}</text>)}
+      <path d={path} fill="none" stroke="url(#phosphor-decay-gradient)" strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+const PhosphorPanel: React.FC<PhosphorPanelProps> = ({ phosphorId, phosphor, custom, onSelect, onCustomChange }) => {
+  const update = <K extends keyof PhosphorModel>(key: K, value: PhosphorModel[K]) => onCustomChange({ ...custom, [key]: value });
+  const power = custom.decay.kind === 'power' ? custom.decay : null;
+  const components = custom.decay.kind === 'exponential' ? custom.decay.components : [];
+  const setComponents = (next: DecayComponent[]) => update('decay', { kind: 'exponential', components: next });
+  const setComponent = (i: number, patch: Partial<DecayComponent>) =>
+    setComponents(components.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+
+  return (
+    <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-green-600 flex items-center gap-1"><Sparkles className="w-3 h-3" /> PHOSPHOR</span>
+        {PHOSPHOR_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => onSelect(id)}
+            className={`px-2 py-1 rounded border transition-colors ${phosphorId === id ? 'border-vector-green text-vector-green' : 'border-green-900/50 text-gray-500 hover:text-gray-300'}`}
+          >
+            {id.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-start gap-3">
+        <DecayPlot model={phosphor} />
+        <div className="flex flex-col gap-1 flex-1 min-w-[12rem]">
+          <span className="text-gray-400">{phosphor.description}</span>
+          <span className="text-green-800">
+            RISE {phosphor.rise > 0 ? formatMs(phosphor.rise) : 'INSTANT'} / TO 1% {formatMs(phosphorLifetime(phosphor))}
+            {phosphor.decay.kind === 'power' ? ` / POWER LAW α=${phosphor.decay.alpha}` : ` / ${phosphor.decay.components.length}-TERM EXPONENTIAL`}
+          </span>
+        </div>
+      </div>
+
+      {phosphorId === 'custom' && (
+        <div className="flex flex-col gap-2 border-t border-green-900/30 pt-2">
+          <div className="flex flex-wrap items-center gap-3 text-green-600">
+            <label className="flex items-center gap-1">
+              COLOUR
+              <input type="color" value={custom.color} onChange={(e) => update('color', e.target.value)} className="w-6 h-4 bg-transparent" />
+            </label>
+            <label className="flex items-center gap-1">
+              DECAY
+              <select
+                value={custom.decay.kind}
+                onChange={(e) => update('decay', e.target.value === 'power'
+                  ? { kind: 'power', alpha: 1, t0: 10 }
+                  : { kind: 'exponential', components: [{ weight: 1, tau: 100 }] })}
+                className="bg-black border border-green-900/50 rounded text-green-400"
+              >
+                <option value="exponential">MULTI-EXPONENTIAL</option>
+                <option value="power">POWER LAW</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 flex-1 min-w-[10rem]">
+              <span className="whitespace-nowrap">RISE <span className="text-green-400">{custom.rise > 0 ? formatMs(custom.rise) : 'INSTANT'}</span></span>
+              <input type="range" min={0} max={50} step={0.5} value={custom.rise} onChange={(e) => update('rise', Number(e.target.value))} className={sliderClass} />
+            </label>
+          </div>
+
+          {power ? (
+            <div className="grid grid-cols-2 gap-3 text-green-600">
+              <label className="flex flex-col gap-1">
+                <span>ALPHA <span className="text-green-400">{power.alpha.toFixed(2)}</span></span>
+                <input
+                  type="range" min={0.3} max={3} step={0.05}
+                  value={power.alpha}
+                  onChange={(e) => update('decay', { ...power, alpha: Number(e.target.value) })}
+                  className={sliderClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span>T0 <span className="text-green-400">{formatMs(power.t0)}</span></span>
+                <input
+                  type="range" min={-2} max={3} step={0.05}
+                  value={Math.log10(power.t0)}
+                  onChange={(e) => update('decay', { ...power, t0: Math.pow(10, Number(e.target.value)) })}
+                  className={sliderClass}
+                />
+              </label>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {components.map((c, i) => (
+                <div key={i} className="grid grid-cols-[1fr_1fr_auto] items-end gap-3 text-green-600">
+                  <label className="flex flex-col gap-1">
+                    <span>TERM {i + 1} WEIGHT <span className="text-green-400">{c.weight.toFixed(2)}</span></span>
+                    <input type="range" min={0} max={1} step={0.01} value={c.weight} onChange={(e) => setComponent(i, { weight: Number(e.target.value) })} className={sliderClass} />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span>TAU <span className="text-green-400">{formatMs(c.tau)}</span></span>
+                    <input
+                      type="range" min={-2} max={4} step={0.05}
+                      value={Math.log10(c.tau)}
+                      onChange={(e) => setComponent(i, { tau: Math.pow(10, Number(e.target.value)) })}
+                      className={sliderClass}
+                    />
+                  </label>
+                  <button
+                    onClick={() => setComponents(components.filter((_, j) => j !== i))}
+                    disabled={components.length === 1}
+                    title="Remove term"
+                    className="p-1 hover:bg-red-900/30 text-red-400 rounded transition-colors disabled:opacity-30"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {components.length < MAX_COMPONENTS && (
+                <button
+                  onClick={() => setComponents([...components, { weight: 0.2, tau: components[components.length - 1].tau * 10 }])}
+                  className="self-start flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors"
+                >
+                  <Plus className="w-3 h-3" /> ADD TERM
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhosphorPanel;
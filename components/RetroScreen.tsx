@@ -1,42 +1,120 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { ContentMode, DisplayMode, VectorPoint, VectorShape } from '../types';
-import { textToVectorShapes } from '../utils/vectorFont';
-
-interface RetroScreenProps {
+import { BeamPhysics, BeamStyle, ContentMode, DisplayMode, PhosphorModel, RasterSettings, ScreenRenderer, VectorPoint, VectorShape } from '../types';
+import { getSceneShapes } from '../utils/sceneShapes';
+import { findVertex, VertexRef } from '../utils/drawing';
+import { optimizeDrawOrder } from '../utils/drawOrder';
+import { BeamFrame, BeamSample, DEFAULT_BEAM_PHYSICS, simulateBeamFrame } from '../utils/beamPhysics';
+import { PhosphorBuffer, PhosphorLayers } from '../utils/phosphorBuffer';
+import { decayComponents, phosphorColorAt, phosphorLifetime, phosphorResponse } from '../utils/phosphor';
+import { TextAlign, VectorFont } from '../utils/vectorFont';
+import { AnimationClip, AnimationClock, evaluateClip } from '../utils/animation';
+import { DEFAULT_RASTER_SETTINGS, Framebuffer, describeRaster, getResolution, rasterizeShapes, scanOrder } from '../utils/rasterizer';
+import { BeamCapture, rasterBeamFrame } from '../utils/deflectionSignals';
+import { BeamSimulation, SimulationClock, SimulationEvent } from '../utils/simulation';
+import { RasterMetrics, VectorMetrics, formatBytes, framebufferBytes, rasterMetrics, vectorMetrics } from '../utils/displayMetrics';
+
+export interface RetroScreenProps {
   mode: DisplayMode;
   contentMode: ContentMode;
-  customPoints: VectorPoint[];
+  customShapes: VectorShape[];
+  activeShapeId?: string | null;
   customText: string;
+  textAlign?: TextAlign;
+  textFont?: VectorFont;
+  textStyle?: BeamStyle;
+  programShapes?: VectorShape[];
+  liveShapes?: (time: number) => VectorShape[]; // pulled again at the start of every beam cycle, for its start time
   onCanvasClick: (x: number, y: number) => void;
+  onVertexDragStart?: (ref: VertexRef) => void;
+  onVertexDrag?: (ref: VertexRef, x: number, y: number) => void;
+  onVertexDelete?: (ref: VertexRef) => void;
+  onCycleStart?: () => void;
+  onBeamFrame?: (capture: BeamCapture) => void; // the frame about to be drawn, at the start of every cycle
+  svgElementRef?: React.MutableRefObject<SVGSVGElement | null>;
   beamSpeed: number; // 1-10
-  persistence: number; // ms
+  phosphor: PhosphorModel;
+  optimizeOrder?: boolean; // reorder strokes to minimise blanked travel
+  physics?: BeamPhysics;
+  renderer?: ScreenRenderer;
+  raster?: RasterSettings;
+  animation?: AnimationClip | null;
+  animationClock?: AnimationClock; // sampled once per beam cycle, at its start time; should run on `clock`
+  timeScale?: number; // beam ms per simulated ms; the phosphor decays in simulated ms, unscaled
+  beamTrace?: BeamFrame | null; // recorded beam motion (XY audio) replayed in VECTOR mode instead of simulating
+  clock?: SimulationClock; // simulated time the beam follows; screens sharing one run in lockstep
+  rasterPeriod?: number; // beam ms per raster frame; by default the sweep follows beamSpeed
+  showMetrics?: boolean;
 }
 
-// Pre-defined Ship Shape
-const SHIP_SHAPE: VectorShape = {
-  id: 'ship',
-  points: [
-    { x: 50, y: 35 },
-    { x: 65, y: 65 },
-    { x: 50, y: 55 },
-    { x: 35, y: 65 }
-  ],
-  closed: true
-};
+type ScreenMetrics = { vector: VectorMetrics } | { raster: RasterMetrics };
+
+// Grab radius for vertex handles, in 0-100 logical units
+const VERTEX_HIT_RADIUS = 2.5;
+const PHOSPHOR = '#39ff14';
+// Finest phosphor decay step while replaying samples, simulated ms
+const DECAY_STEP = 16;
 
 const RetroScreen: React.FC<RetroScreenProps> = ({ 
   mode, 
   contentMode, 
-  customPoints, 
+  customShapes,
+  activeShapeId = null,
   customText,
+  textAlign,
+  textFont,
+  textStyle,
+  programShapes,
+  liveShapes,
   onCanvasClick,
+  onVertexDragStart,
+  onVertexDrag,
+  onVertexDelete,
+  onCycleStart,
+  onBeamFrame,
+  svgElementRef,
   beamSpeed,
-  persistence
+  phosphor,
+  optimizeOrder = false,
+  physics = DEFAULT_BEAM_PHYSICS,
+  renderer = ScreenRenderer.SVG,
+  raster = DEFAULT_RASTER_SETTINGS,
+  animation = null,
+  animationClock,
+  timeScale = 1,
+  beamTrace = null,
+  clock,
+  rasterPeriod,
+  showMetrics = false
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const handlesRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+  const [frameLoad, setFrameLoad] = useState<number | null>(null);
+  const [metrics, setMetrics] = useState<ScreenMetrics | null>(null);
+  const dragRef = useRef<VertexRef | null>(null);
+  // Kept in a ref so a new callback identity doesn't restart the animation loop
+  const onCycleStartRef = useRef(onCycleStart);
+  onCycleStartRef.current = onCycleStart;
+  const onBeamFrameRef = useRef(onBeamFrame);
+  onBeamFrameRef.current = onBeamFrame;
+  // The drawing is read through a ref, so an edit (every step of a vertex drag) is picked up
+  // at the start of the next beam cycle instead of restarting the screen
+  const customShapesRef = useRef(customShapes);
+  customShapesRef.current = customShapes;
+  // Without a shared clock the screen keeps its own, always running
+  const [ownClock] = useState(() => {
+    const own = new SimulationClock();
+    own.play();
+    return own;
+  });
+  const simClock = clock ?? ownClock;
+
+  useEffect(() => {
+    if (svgElementRef) svgElementRef.current = svgRef.current;
+  });
 
   // Handle resize
   useEffect(() => {
@@ -56,17 +134,14 @@ const RetroScreen: React.FC<RetroScreenProps> = ({
     return () => window.removeEventListener('resize', updateSize);
   }, []);
 
-  // Handle Click for Draw Mode
-  const handleSvgClick = (e: React.MouseEvent) => {
-    if (contentMode !== ContentMode.DRAW || !svgRef.current) return;
-    
-    const rect = svgRef.current.getBoundingClientRect();
+  // Convert screen pixels to 0-100 logical space
+  const toLogical = (e: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
     const margin = 20;
     const { width, height } = dimensions;
-    
-    // Convert screen pixels to 0-100 logical space
+
     const logicalX = d3.scaleLinear()
         .domain([margin, width - margin])
         .range([0, 100])
@@ -76,10 +151,70 @@ const RetroScreen: React.FC<RetroScreenProps> = ({
         .domain([margin, height - margin])
         .range([0, 100])
         .clamp(true)(y);
-    
-    onCanvasClick(logicalX, logicalY);
+
+    return { x: logicalX, y: logicalY };
+  };
+
+  // Draw Mode: press on a vertex to drag it, anywhere else to plot a point
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (contentMode !== ContentMode.DRAW || !svgRef.current || e.button !== 0) return;
+
+    const p = toLogical(e);
+    const hit = findVertex(customShapes, p, VERTEX_HIT_RADIUS);
+    if (hit) {
+      dragRef.current = hit;
+      onVertexDragStart?.(hit);
+      return;
+    }
+    onCanvasClick(p.x, p.y);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!dragRef.current || !svgRef.current) return;
+    const p = toLogical(e);
+    onVertexDrag?.(dragRef.current, p.x, p.y);
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
   };
 
+  // Right-click a vertex to delete it
+  const handleContextMenu = (e: React.MouseEvent) => {
+    if (contentMode !== ContentMode.DRAW || !svgRef.current) return;
+    e.preventDefault();
+    const hit = findVertex(customShapes, toLogical(e), VERTEX_HIT_RADIUS);
+    if (hit) onVertexDelete?.(hit);
+  };
+
+  // Vertex handles in DRAW mode (the stroke under the pen is brighter)
+  useEffect(() => {
+    if (!handlesRef.current) return;
+    const handles = d3.select(handlesRef.current);
+    handles.selectAll("*").remove();
+    if (mode !== DisplayMode.VECTOR || contentMode !== ContentMode.DRAW) return;
+
+    const margin = 20;
+    const xScale = d3.scaleLinear().domain([0, 100]).range([margin, dimensions.width - margin]);
+    const yScale = d3.scaleLinear().domain([0, 100]).range([margin, dimensions.height - margin]);
+    customShapes.forEach(shape => {
+        if (shape.points.length === 0) return;
+        const isActive = shape.id === activeShapeId;
+        const color = shape.color ?? PHOSPHOR;
+        handles.selectAll(`.vertex-${shape.id}`)
+            .data(shape.points)
+            .enter()
+            .append("circle")
+            .attr("class", `vertex-${shape.id}`)
+            .attr("cx", d => xScale(d.x))
+            .attr("cy", d => yScale(d.y))
+            .attr("r", (_, i) => isActive && i === 0 ? 4 : 2.5)
+            .attr("fill", (_, i) => isActive && i === 0 ? "none" : color)
+            .attr("stroke", color)
+            .attr("opacity", isActive ? 0.7 : 0.3);
+    });
+  }, [dimensions, mode, contentMode, customShapes, activeShapeId]);
+
   // Main Rendering Logic
   useEffect(() => {
     if (!svgRef.current || dimensions.width === 0 || dimensions.height === 0) return;
@@ -89,9 +224,13 @@ const RetroScreen: React.FC<RetroScreenProps> = ({
     // 1. CLEANUP
     svg.selectAll("*").interrupt();
     svg.selectAll("*").remove();
+    const canvasCtx = canvasRef.current?.getContext('2d') ?? null;
+    canvasCtx?.clearRect(0, 0, canvasCtx.canvas.width, canvasCtx.canvas.height);
     
     let isMounted = true;
+    let beamTimer: d3.Timer | null = null;
     const { width, height } = dimensions;
+    setMetrics(null);
     
     // Scales
     const margin = 20;
@@ -117,217 +256,281 @@ const RetroScreen: React.FC<RetroScreenProps> = ({
     }
 
     // 3. PREPARE CONTENT
-    let shapesToDraw: VectorShape[] = [];
-
-    try {
-        if (contentMode === ContentMode.PRESET) {
-            shapesToDraw = [SHIP_SHAPE];
-        } else if (contentMode === ContentMode.DRAW) {
-            if (customPoints.length > 0) {
-                shapesToDraw = [{
-                    id: 'custom-draw',
-                    points: customPoints,
-                    closed: false
-                }];
-            }
-        } else if (contentMode === ContentMode.TEXT) {
-            shapesToDraw = textToVectorShapes(customText || "READY", 5, 45, 5);
+    const content = { customText, textAlign, textFont, textStyle, programShapes, liveShapes };
+    const sceneShapes = (time: number) => {
+        try {
+            return getSceneShapes(contentMode, { ...content, customShapes: customShapesRef.current }, time);
+        } catch (err) {
+            console.error("Shape generation error:", err);
+            return [];
         }
-    } catch (err) {
-        console.error("Shape generation error:", err);
-    }
+    };
+    let drawn = customShapesRef.current;
+    let baseShapes = sceneShapes(simClock.time());
+    const sourceAt = (time: number) => {
+        if (liveShapes) return sceneShapes(time);
+        if (customShapesRef.current !== drawn) {
+            drawn = customShapesRef.current;
+            baseShapes = sceneShapes(time);
+        }
+        return baseShapes;
+    };
+
+    // Animated and live scenes are re-posed at the start of every beam cycle, for the simulated
+    // time it starts at, so replaying a cycle poses it the same way again
+    const clipActive = animation !== null && animationClock !== undefined;
+    const animated = clipActive || liveShapes !== undefined;
+    const shapesAt = (time: number) => {
+        const source = sourceAt(time);
+        const posed = clipActive ? evaluateClip(animation, source, animationClock.time(time)) : source;
+        return optimizeOrder ? optimizeDrawOrder(posed) : posed;
+    };
+    const shapesToDraw = shapesAt(simClock.time());
+
+    // Frames for the cycle starting at `start` (beam ms). A still scene is built once and
+    // reused until the drawing changes; an animated one is built for every cycle.
+    const frameSource = (build: (shapes: VectorShape[]) => BeamFrame) => {
+        let source = baseShapes;
+        let still = animated ? null : build(shapesToDraw);
+        return (start: number) => {
+            const time = start / timeScale;
+            if (animated) return build(shapesAt(time));
+            if (sourceAt(time) !== source) {
+                source = baseShapes;
+                still = build(shapesAt(time));
+            }
+            return still!;
+        };
+    };
 
     const lineGenerator = d3.line<VectorPoint>()
       .x(d => xScale(d.x))
       .y(d => yScale(d.y));
 
+    // Every screen moves its beam to the simulation clock's time on each tick, so screens
+    // sharing a clock stay in lockstep and nothing moves while it is paused
+    const drive = (simulation: BeamSimulation, render: (events: SimulationEvent[], now: number) => void) => {
+        let last = NaN;
+        beamTimer = d3.timer(() => {
+            if (!isMounted) return;
+            const now = simClock.time();
+            if (now === last) return;
+            last = now;
+            render(simulation.advanceTo(now * timeScale), now);
+        });
+    };
+    const sampleTime = (cycleStart: number, sample: BeamSample) => (cycleStart + sample.t) / timeScale;
+    const notifyCycle = (time: number, frame: BeamFrame) => {
+        onCycleStartRef.current?.();
+        onBeamFrameRef.current?.({ frame, cycleStart: time, timeScale });
+    };
+
+    // Keeps a phosphor buffer decayed up to the simulated time. A long run of samples (the
+    // replay after a seek) decays as it goes, a display frame at a time, so older strokes
+    // come out dimmer just as they would have.
+    const decayClock = (screen: { decay: (dt: number) => void }) => {
+        let time: number | null = null;
+        return {
+            reset: (t: number) => { time = t; },
+            to: (t: number, step = 0) => {
+                if (time === null) time = t;
+                else if (t > time && t - time >= step) {
+                    screen.decay(t - time);
+                    time = t;
+                }
+            }
+        };
+    };
+
     // 4. RENDER MODES
     if (mode === DisplayMode.VECTOR) {
         // --- VECTOR MODE ---
+        setFrameLoad(null);
         
-        // We draw shapes invisible initially, then beam reveals them, then they fade
-        shapesToDraw.forEach((shape, idx) => {
-            let points = shape.points;
-            if (points.length === 0) return;
-            if (shape.closed) points = [...points, points[0]];
-            
-            // Define the path but make it invisible initially or very dim
-            // We'll actually redraw this path in the animation loop to handle fade cleanly
-            // Just draw vertices for helper in DRAW mode
-            if (contentMode === ContentMode.DRAW) {
-                svg.selectAll(`.vertex-${shape.id}`)
-                    .data(points)
-                    .enter()
-                    .append("circle")
-                    .attr("cx", d => xScale(d.x))
-                    .attr("cy", d => yScale(d.y))
-                    .attr("r", 2)
-                    .attr("fill", "#39ff14")
-                    .attr("opacity", 0.3);
-            }
-        });
-
-        // Beam Animation Logic
-        if (shapesToDraw.length > 0) {
+        // Beam Animation Logic (always running while drawing, so the first point shows up)
+        if (shapesToDraw.length > 0 || beamTrace || contentMode === ContentMode.DRAW) {
             const beam = svg.append("circle")
                 .attr("r", 4)
                 .attr("fill", "#ffffff")
                 .attr("filter", "drop-shadow(0 0 8px #ffffff)")
                 .attr("opacity", 0);
 
+            const showBeam = (current: BeamSample | null) => {
+                if (current) beam.attr("cx", xScale(current.x)).attr("cy", yScale(current.y));
+                beam.attr("opacity", current?.lit ? Math.min(1, 0.5 + current.intensity * 0.25) : 0);
+            };
+
             // Group to hold temporary fading paths
             const pathGroup = svg.append("g").attr("class", "phosphor-trails");
 
-            const animateVectorCycle = async () => {
-                if (!isMounted) return;
-
-                for (const shape of shapesToDraw) {
-                    if (!isMounted) break;
-                    let points = shape.points;
-                    if (points.length < 1) continue;
-                    if (shape.closed) points = [...points, points[0]];
-
-                    // Move beam to start position (blanking)
-                    const startX = xScale(points[0].x);
-                    const startY = yScale(points[0].y);
-                    
-                    beam.attr("opacity", 0).attr("cx", startX).attr("cy", startY);
-                    
-                    // Short delay for blanking based on speed
-                    await new Promise(r => setTimeout(r, 200 / beamSpeed));
-                    if (!isMounted) return;
-
-                    // If it's a single point (Draw mode start)
-                    if (points.length === 1) {
-                        beam.attr("opacity", 1);
-                        // Flash a dot
-                        const dot = pathGroup.append("circle")
-                            .attr("cx", startX)
-                            .attr("cy", startY)
-                            .attr("r", 2)
-                            .attr("fill", "#39ff14")
-                            .attr("opacity", 1);
-                        
-                        dot.transition()
-                            .duration(persistence)
-                            .attr("opacity", 0)
-                            .remove();
-
-                        await new Promise(r => setTimeout(r, 100));
-                        continue;
+            // Whole frames are simulated up front: a static scene once, an animated one re-posed
+            // for every cycle. A recorded trace has no frame budget to measure against.
+            const simulateShapes = (shapes: VectorShape[]) => {
+                const frame = simulateBeamFrame(shapes, physics, beamSpeed);
+                setFrameLoad(frame.load);
+                if (showMetrics) setMetrics({ vector: vectorMetrics(shapes, frame) });
+                return frame;
+            };
+            const frameAt = beamTrace ? () => beamTrace : frameSource(simulateShapes);
+            const simulation = new BeamSimulation({ nextFrame: (_cycle, start) => frameAt(start) });
+
+            // SVG renderer: each stroke is a path that fades along the phosphor's response
+            // curve over its visible lifetime, shifting colour as well if its decay terms emit
+            // different colours. Strokes age on the simulation clock, so a pause freezes them.
+            const lifetime = phosphorLifetime(phosphor);
+            const fade = (k: number) => (k >= 1 ? 1 : 1 - Math.min(1, phosphorResponse(phosphor, k * lifetime)));
+            const multicolor = new Set(decayComponents(phosphor).map(c => c.color)).size > 1;
+            let trails: { path: d3.Selection<SVGPathElement, unknown, null, undefined>; drawnAt: number; opacity: number; beamColor?: string }[] = [];
+
+            // Lay down a run of lit samples as one phosphor stroke.
+            // Brighter (slower) runs are more opaque and slightly wider.
+            const drawRun = (run: BeamSample[], drawnAt: number) => {
+                const intensity = run.reduce((sum, p) => sum + p.intensity, 0) / run.length;
+                const pathData = lineGenerator(run);
+                if (!pathData) return;
+                // A run may start on the previous vector's last sample; the colour is the new vector's
+                const beamColor = run[run.length - 1].color;
+                const color = beamColor ?? phosphor.color;
+                const opacity = Math.min(1, 0.25 + intensity * 0.5);
+
+                const path = pathGroup.append("path")
+                    .attr("d", pathData)
+                    .attr("fill", "none")
+                    .attr("stroke", color)
+                    .attr("stroke-width", 1.5 + intensity * 0.6)
+                    .attr("stroke-linejoin", "round")
+                    .attr("stroke-linecap", "round")
+                    .attr("filter", `drop-shadow(0 0 4px ${color})`)
+                    .attr("opacity", opacity);
+                trails.push({ path, drawnAt, opacity, beamColor });
+            };
+
+            const ageTrails = (now: number) => {
+                trails = trails.filter(trail => {
+                    const k = (now - trail.drawnAt) / lifetime;
+                    if (k >= 1) {
+                        trail.path.remove();
+                        return false;
                     }
+                    trail.path.attr("opacity", trail.opacity * (1 - fade(k)));
+                    if (!trail.beamColor && multicolor) trail.path.attr("stroke", phosphorColorAt(phosphor, k * lifetime));
+                    return true;
+                });
+            };
 
-                    // Create the path we are about to draw
-                    // We use a temporary path to calculate length, then render the visual path
-                    const pathData = lineGenerator(points);
-                    if (!pathData) continue;
-
-                    // Render the "Phosphor" path
-                    // It starts hidden, then reveals as beam moves, then fades
-                    const phosphorPath = pathGroup.append("path")
-                        .attr("d", pathData)
-                        .attr("fill", "none")
-                        .attr("stroke", "#39ff14")
-                        .attr("stroke-width", 2)
-                        .attr("stroke-linejoin", "round")
-                        .attr("stroke-linecap", "round")
-                        .attr("filter", "drop-shadow(0 0 4px #39ff14)")
-                        .attr("opacity", 1); // Start visible for drawing
-
-                    const len = phosphorPath.node()?.getTotalLength() || 0;
-                    
-                    // Set dash array to hide it initially
-                    phosphorPath
-                        .attr("stroke-dasharray", `${len} ${len}`)
-                        .attr("stroke-dashoffset", len);
-
-                    beam.attr("opacity", 1);
-
-                    // SPEED CALCULATION:
-                    // Base duration adjusted by beamSpeed (1-10). 
-                    // Higher speed = lower duration.
-                    // 1 = slow, 10 = fast.
-                    const drawDuration = (len * 15) / (beamSpeed * 0.8); 
-
-                    // Animate Beam & Path Reveal
-                    if (len > 0) {
-                        // 1. Reveal the path (stroke-dashoffset)
-                        phosphorPath.transition()
-                            .duration(drawDuration)
-                            .ease(d3.easeLinear)
-                            .attr("stroke-dashoffset", 0)
-                            .on("end", () => {
-                                // 2. Once drawn (or as it draws?), Start Decay
-                                // To simulate persistence, the whole line fades out after drawn
-                                phosphorPath.transition()
-                                    .duration(persistence)
-                                    .ease(d3.easeExpOut) // Fade out curve
-                                    .attr("opacity", 0)
-                                    .remove();
-                            });
-
-                        // 2. Move the Beam
-                        await beam.transition()
-                            .duration(drawDuration)
-                            .ease(d3.easeLinear)
-                            .attrTween("cx", () => (t) => {
-                                const p = phosphorPath.node()?.getPointAtLength(t * len);
-                                return p ? p.x.toString() : startX.toString();
-                            })
-                            .attrTween("cy", () => (t) => {
-                                const p = phosphorPath.node()?.getPointAtLength(t * len);
-                                return p ? p.y.toString() : startY.toString();
-                            })
-                            .end()
-                            .catch(() => {}); 
+            const animateSvg = () => {
+                let prev: BeamSample | null = null; // last sample passed in this cycle
+                drive(simulation, (events, now) => {
+                    for (const event of events) {
+                        if (event.kind === 'reset') {
+                            pathGroup.selectAll("*").remove();
+                            trails = [];
+                        } else if (event.kind === 'cycle') {
+                            prev = null;
+                            notifyCycle(event.time, event.frame);
+                        } else {
+                            // Split the samples passed into runs of similar brightness, each
+                            // dated by the time the beam finished it
+                            let run: BeamSample[] = [];
+                            const flush = () => drawRun(run, sampleTime(event.cycleStart, run[run.length - 1]));
+                            for (const sample of event.samples) {
+                                if (sample.lit) {
+                                    // Start each run at the previous sample so consecutive runs join up
+                                    if (run.length === 0 && prev?.lit) run.push(prev);
+                                    // A colour change ends the run at the shared point
+                                    if (run.length > 1 && sample.color !== run[run.length - 1].color) {
+                                        flush();
+                                        run = [run[run.length - 1]];
+                                    }
+                                    run.push(sample);
+                                    if (Math.abs(sample.intensity - run[0].intensity) > 0.25) {
+                                        flush();
+                                        run = [sample];
+                                    }
+                                } else if (run.length > 0) {
+                                    flush();
+                                    run = [];
+                                }
+                                prev = sample;
+                            }
+                            if (run.length > 0) flush();
+                        }
                     }
-                }
+                    ageTrails(now);
+                    showBeam(simulation.beam);
+                });
+            };
 
-                if (isMounted) {
-                    // Recursion for the loop
-                    // Delay slightly before restarting frame to simulate refresh rate
-                    // High speed = low delay
-                    setTimeout(animateVectorCycle, 100 / beamSpeed);
-                }
+            // Canvas renderer: strokes go into a phosphor buffer that decays as simulated time
+            // passes, so no per-stroke DOM is created
+            const animateCanvas = (ctx: CanvasRenderingContext2D) => {
+                const screen = new PhosphorLayers(width, height, phosphor);
+                const phosphorTime = decayClock(screen);
+                let prev: BeamSample | null = null;
+
+                drive(simulation, (events, now) => {
+                    for (const event of events) {
+                        if (event.kind === 'reset') {
+                            screen.clear();
+                            phosphorTime.reset(event.time / timeScale);
+                        } else if (event.kind === 'cycle') {
+                            prev = null;
+                            notifyCycle(event.time, event.frame);
+                        } else {
+                            for (const sample of event.samples) {
+                                phosphorTime.to(sampleTime(event.cycleStart, sample), DECAY_STEP);
+                                if (sample.lit && prev?.lit) {
+                                    screen.layer(sample.color).stroke(
+                                        xScale(prev.x), yScale(prev.y),
+                                        xScale(sample.x), yScale(sample.y),
+                                        sample.intensity * 0.6
+                                    );
+                                }
+                                prev = sample;
+                            }
+                        }
+                    }
+                    phosphorTime.to(now);
+                    showBeam(simulation.beam);
+                    screen.present(ctx);
+                });
             };
             
-            animateVectorCycle();
+            if (renderer === ScreenRenderer.CANVAS && canvasCtx) {
+                animateCanvas(canvasCtx);
+            } else {
+                animateSvg();
+            }
         }
 
     } else {
         // --- RASTER MODE ---
-        
-        // Render static-ish shapes but make them fade unless refreshed
-        const rasterGroup = svg.append("g").attr("class", "raster-content");
-
-        shapesToDraw.forEach(shape => {
-            let points = shape.points;
-            if (points.length === 0) return;
-            if (shape.closed) points = [...points, points[0]];
-
-            // Raster lines
-            rasterGroup.append("path")
-                .datum(points)
-                .attr("d", lineGenerator)
-                .attr("fill", "none")
-                .attr("stroke", "rgba(57, 255, 20, 0.8)") // Start bright
-                .attr("stroke-width", 4)
-                .attr("stroke-dasharray", "4, 4") 
-                .attr("stroke-linecap", "butt") 
-                .attr("shape-rendering", "crispEdges")
-                .attr("filter", "drop-shadow(0 0 2px #39ff14)");
-        });
-
-        // Fade the entire raster content out constantly
-        // The scanline resets it.
-        // Since we can't easily detect "collision" of scanline with SVG elements efficiently in React/D3 loop,
-        // We will simulate it: 
-        // 1. Image fades to 0.
-        // 2. Scanline runs.
-        // 3. When scanline finishes, we flash the image back to 1? 
-        // Better: Image opacity is handled by a separate loop or just simple fade-in-out loop synced with scanline.
-        
-        const scanDuration = 5000 / beamSpeed;
+        // Shapes are scan-converted into a low-resolution framebuffer, and the sweep over it
+        // simulated as beam signals. As the beam starts each line, that row is re-excited from
+        // the framebuffer; every row decays between passes.
+        const resolution = getResolution(raster.resolution);
+        const rows = scanOrder(resolution.height, raster.interlaced);
+        const screen = new PhosphorBuffer(resolution.width, resolution.height, phosphor);
+        const screenRect = {
+            x: xScale(0),
+            y: yScale(0),
+            width: xScale(100) - xScale(0),
+            height: yScale(100) - yScale(0)
+        };
+        const scanPeriod = rasterPeriod ?? 5000 / beamSpeed;
+
+        // Still scenes are scanned once per drawing; animated ones are re-rasterized for every
+        // cycle. Each sweep remembers its framebuffer so a replayed cycle shows what it showed.
+        const framebuffers = new WeakMap<BeamFrame, Framebuffer>();
+        const scan = (shapes: VectorShape[]) => {
+            const framebuffer = rasterizeShapes(shapes, resolution.width, resolution.height, raster.antialias);
+            const frame = rasterBeamFrame(framebuffer, rows, scanPeriod);
+            framebuffers.set(frame, framebuffer);
+            if (showMetrics) setMetrics({ raster: rasterMetrics(framebuffer, scanPeriod, raster.antialias) });
+            return frame;
+        };
+        const frameAt = frameSource(scan);
+        const simulation = new BeamSimulation({ nextFrame: (_cycle, start) => frameAt(start) });
 
         // Scanline Beam
         const scanline = svg.append("line")
@@ -337,37 +540,48 @@ const RetroScreen: React.FC<RetroScreenProps> = ({
             .attr("stroke-width", 2)
             .attr("filter", "drop-shadow(0 0 4px white)");
 
-        const runScanline = () => {
-            if(!isMounted) return;
+        if (canvasCtx) {
+            const phosphorTime = decayClock(screen);
+            let pixels: Float32Array | null = null;
+            let line = -1;
+
+            drive(simulation, (events, now) => {
+                for (const event of events) {
+                    if (event.kind === 'reset') {
+                        screen.clear();
+                        phosphorTime.reset(event.time / timeScale);
+                    } else if (event.kind === 'cycle') {
+                        pixels = framebuffers.get(event.frame)?.pixels ?? null;
+                        line = -1;
+                        notifyCycle(event.time, event.frame);
+                    } else {
+                        for (const sample of event.samples) {
+                            phosphorTime.to(sampleTime(event.cycleStart, sample), DECAY_STEP);
+                            if (sample.vector !== undefined && sample.vector !== line && pixels) {
+                                line = sample.vector;
+                                screen.refreshRow(rows[line], pixels);
+                            }
+                        }
+                    }
+                }
+                phosphorTime.to(now);
 
-            // Reset image opacity to 1 (Simulating the scanline refreshing the phosphors)
-            // Actually, in raster, top refreshes before bottom.
-            // Let's simple simulate "Screen Refresh": Fade out slowly, Flash in when scanline passes?
-            // Let's just fade the group out over persistence, and reset it at start of scan?
-            // Close enough for demo.
-            
-            rasterGroup.attr("opacity", 1);
-            rasterGroup.transition()
-                .duration(persistence + scanDuration) // Stays visible while scanning + persistence
-                .ease(d3.easeLinear)
-                .attr("opacity", 0.2); // Don't go fully black in raster usually, ghosting remains
-
-            scanline.attr("y1", 0).attr("y2", 0)
-                .transition()
-                .duration(scanDuration)
-                .ease(d3.easeLinear)
-                .attr("y1", height).attr("y2", height)
-                .on("end", runScanline);
-        };
-        runScanline();
+                const current = simulation.beam;
+                if (current) scanline.attr("y1", yScale(current.y)).attr("y2", yScale(current.y));
+                screen.present(canvasCtx, screenRect, true);
+            });
+        }
     }
 
     return () => {
         isMounted = false;
+        beamTimer?.stop();
         svg.selectAll("*").interrupt();
     };
 
-  }, [dimensions, mode, contentMode, customPoints, customText, beamSpeed, persistence]);
+  }, [dimensions, mode, contentMode, customText, textAlign, textFont, textStyle, programShapes, liveShapes, beamSpeed, phosphor, optimizeOrder, physics, renderer, raster, animation, animationClock, timeScale, beamTrace, simClock, rasterPeriod, showMetrics]);
+
+  const rasterSize = getResolution(raster.resolution);
 
   return (
     <div ref={containerRef} className="w-full h-80 md:h-[500px] relative group select-none animate-flicker">
@@ -382,18 +596,69 @@ const RetroScreen: React.FC<RetroScreenProps> = ({
         {/* Interaction Layer */}
         <div 
             className={`absolute inset-0 z-40 ${contentMode === ContentMode.DRAW ? 'cursor-crosshair' : ''}`} 
-            onClick={handleSvgClick}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={endDrag}
+            onMouseLeave={endDrag}
+            onContextMenu={handleContextMenu}
         ></div>
 
+        {/* Canvas Layer (phosphor buffer for the canvas renderer) */}
+        <canvas
+            ref={canvasRef}
+            width={dimensions.width}
+            height={dimensions.height}
+            className="absolute inset-0 z-0 rounded-[2.5rem] pointer-events-none"
+        />
+
         {/* SVG Layer */}
         <svg ref={svgRef} width="100%" height="100%" className="relative z-0 rounded-[2.5rem]" />
+
+        {/* Vertex handles, redrawn on their own so editing doesn't restart the beam */}
+        <svg ref={handlesRef} width="100%" height="100%" className="absolute inset-0 z-0 pointer-events-none" />
       </div>
       
+      {/* Metrics Overlay */}
+      {showMetrics && metrics && (
+        <div className="absolute top-6 left-8 z-50 bg-black/80 px-2 py-1 rounded text-[10px] font-mono text-vector-green border border-vector-dim uppercase tracking-wider opacity-80 pointer-events-none flex flex-col">
+          {'vector' in metrics ? (
+            <>
+              <span>{metrics.vector.vectors} VECTORS · LIT {metrics.vector.litLength.toFixed(0)} UNITS</span>
+              <span className={metrics.vector.load > 1 ? 'text-red-400' : ''}>
+                REFRESH {Math.round(metrics.vector.refreshTime)} MS / {Math.round(metrics.vector.period)} MS
+              </span>
+              <span>DISPLAY LIST {formatBytes(metrics.vector.displayListBytes)}</span>
+              <span className="text-gray-500">
+                FRAMEBUFFER WOULD NEED {formatBytes(framebufferBytes(rasterSize.width, rasterSize.height, raster.antialias))}
+              </span>
+            </>
+          ) : (
+            <>
+              <span>LIT {metrics.raster.litPixels} / {metrics.raster.totalPixels} PX ({(100 * metrics.raster.litPixels / metrics.raster.totalPixels).toFixed(1)}%)</span>
+              <span>REFRESH {Math.round(metrics.raster.refreshTime)} MS (ANY SCENE)</span>
+              <span>FRAMEBUFFER {formatBytes(metrics.raster.framebufferBytes)}</span>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Badge */}
       <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-50 bg-black/80 px-3 py-1 rounded text-[10px] font-mono text-vector-green border border-vector-dim uppercase tracking-widest opacity-70 pointer-events-none flex gap-2">
         <span>{contentMode}</span>
         <span className="text-gray-500">|</span>
         <span>{mode}</span>
+        {mode === DisplayMode.VECTOR && frameLoad !== null && (
+            <>
+                <span className="text-gray-500">|</span>
+                <span className={frameLoad > 1 ? 'text-red-400 animate-pulse' : ''}>LOAD {Math.round(frameLoad * 100)}%</span>
+            </>
+        )}
+        {mode === DisplayMode.RASTER && (
+            <>
+                <span className="text-gray-500">|</span>
+                <span>{describeRaster(raster)}</span>
+            </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Save, FolderOpen, Trash2, Download, Upload } from 'lucide-react';
+import { SceneDocument } from '../utils/sceneFormat';
+import {
+  SceneLibraryEntry, listScenes, loadScene, saveScene, deleteScene, exportSceneFile, importSceneFile
+} from '../services/sceneLibrary';
+
+interface ScenePanelProps {
+  // Builds a document from the current app state under the given name
+  buildScene: (name: string) => SceneDocument;
+  onLoad: (doc: SceneDocument) => void;
+}
+
+const ScenePanel: React.FC<ScenePanelProps> = ({ buildScene, onLoad }) => {
+  const [entries, setEntries] = useState<SceneLibraryEntry[]>([]);
+  const [name, setName] = useState("UNTITLED");
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => setEntries(listScenes());
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    try {
+      saveScene(buildScene(name.trim()));
+      setStatus(`SAVED "${name.trim()}"`);
+      refresh();
+    } catch (error) {
+      console.error("Error saving scene:", error);
+      setStatus("SAVE FAILED: storage unavailable");
+    }
+  };
+
+  const handleLoad = (entryName: string) => {
+    try {
+      const doc = loadScene(entryName);
+      if (!doc) return;
+      onLoad(doc);
+      setName(doc.name);
+      setStatus(`LOADED "${doc.name}"`);
+    } catch (error) {
+      console.error("Error loading scene:", error);
+      setStatus(`LOAD FAILED: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDelete = (entryName: string) => {
+    deleteScene(entryName);
+    refresh();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const doc = await importSceneFile(file);
+      onLoad(doc);
+      setName(doc.name);
+      setStatus(`IMPORTED "${doc.name}"`);
+    } catch (error) {
+      console.error("Error importing scene:", error);
+      setStatus(`IMPORT FAILED: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs flex flex-col gap-2">
+      <div className="flex gap-2 items-center">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="SCENE NAME..."
+          className="flex-1 bg-black/40 border border-green-900/50 rounded px-2 py-1 text-vector-green uppercase outline-none placeholder-green-900"
+        />
+        <button onClick={handleSave} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+          <Save className="w-3 h-3" /> SAVE
+        </button>
+        <button onClick={() => exportSceneFile(buildScene(name.trim() || "UNTITLED"))} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+          <Download className="w-3 h-3" /> EXPORT
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+          <Upload className="w-3 h-3" /> IMPORT
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+
+      {status && <div className="text-green-700">{status}</div>}
+
+      {entries.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto divide-y divide-green-900/20">
+          {entries.map(entry => (
+            <li key={entry.name} className="flex items-center justify-between py-1">
+              <span className="text-green-400 truncate">
+                {entry.name} <span className="text-green-900">[{entry.shapeCount} SHAPES]</span>
+              </span>
+              <span className="flex gap-1">
+                <button onClick={() => handleLoad(entry.name)} className="p-1 hover:bg-green-900/30 text-green-400 rounded" title="Load">
+                  <FolderOpen className="w-3 h-3" />
+                </button>
+                <button onClick={() => handleDelete(entry.name)} className="p-1 hover:bg-red-900/30 text-red-400 rounded" title="Delete">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScenePanel;
@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Activity, ChevronLeft, ChevronRight, Pause, Play } from 'lucide-react';
+import { BeamSample } from '../utils/beamPhysics';
+import { BeamCapture, beamSegments, sampleAt } from '../utils/deflectionSignals';
+import { SimulationClock } from '../utils/simulation';
+
+interface ScopePanelProps {
+  // Delivers the frame the screen is drawing at the start of every beam cycle
+  subscribe: (listener: (capture: BeamCapture) => void) => () => void;
+  clock: SimulationClock; // the screen's clock, for the playhead
+}
+
+const VIEW_WIDTH = 600;
+const LABEL_WIDTH = 44;
+const CHANNEL_HEIGHT = 44;
+const CHANNEL_GAP = 6;
+const AXIS_HEIGHT = 14;
+// Live scenes start a new frame many times a second; the traces needn't follow every one
+const MIN_CAPTURE_INTERVAL = 250; // ms
+
+interface Channel {
+  label: string;
+  color: string;
+  domain: [number, number];
+  value: (s: BeamSample) => number;
+  step?: boolean;
+}
+
+const CHANNELS: Channel[] = [
+  { label: 'X', color: '#39ff14', domain: [0, 100], value: s => s.x },
+  { label: 'Y', color: '#22d3ee', domain: [100, 0], value: s => s.y }, // screen Y grows downwards
+  { label: 'UNBLANK', color: '#facc15', domain: [0, 1], value: s => (s.lit ? 1 : 0), step: true },
+  { label: 'Z', color: '#f472b6', domain: [0, 3], value: s => s.intensity }
+];
+
+const PLOT_HEIGHT = CHANNELS.length * (CHANNEL_HEIGHT + CHANNEL_GAP) + AXIS_HEIGHT;
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`);
+const formatPoint = (s: BeamSample) => `(${s.x.toFixed(1)}, ${s.y.toFixed(1)})`;
+
+// Oscilloscope view of the deflection inputs for the frame on screen, with a playhead that
+// follows the beam and a cursor for reading off individual segments
+const ScopePanel: React.FC<ScopePanelProps> = ({ subscribe, clock }) => {
+  const [capture, setCapture] = useState<BeamCapture | null>(null);
+  const [held, setHeld] = useState(false);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [now, setNow] = useState(() => clock.time());
+  const heldRef = useRef(held);
+  heldRef.current = held;
+  const lastCaptureRef = useRef(0);
+
+  useEffect(() => subscribe(next => {
+    if (heldRef.current) return;
+    const wall = performance.now();
+    // A new frame object means new traces. Too soon after the last ones, keep those and
+    // only move the playhead on to the new cycle.
+    setCapture(prev => {
+      if (prev && prev.frame !== next.frame && wall - lastCaptureRef.current < MIN_CAPTURE_INTERVAL) return { ...next, frame: prev.frame };
+      lastCaptureRef.current = wall;
+      return next;
+    });
+  }), [subscribe]);
+
+  // The playhead follows the beam while the scope is running
+  useEffect(() => {
+    if (held) return;
+    let frameId = requestAnimationFrame(function tick() {
+      setNow(clock.time());
+      frameId = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [held, clock]);
+
+  const frame = capture?.frame ?? null;
+  const x = useMemo(
+    () => d3.scaleLinear().domain([0, Math.max(1, frame?.period ?? 1)]).range([LABEL_WIDTH, VIEW_WIDTH - 4]),
+    [frame]
+  );
+  const segments = useMemo(() => (frame ? beamSegments(frame) : []), [frame]);
+
+  const traces = useMemo(() => {
+    if (!frame) return [];
+    return CHANNELS.map((channel, i) => {
+      const top = i * (CHANNEL_HEIGHT + CHANNEL_GAP);
+      const y = d3.scaleLinear().domain(channel.domain).range([top + CHANNEL_HEIGHT - 2, top + 2]).clamp(true);
+      const line = d3.line<BeamSample>()
+        .x(s => x(s.t))
+        .y(s => y(channel.value(s)))
+        .curve(channel.step ? d3.curveStepAfter : d3.curveLinear);
+      return { channel, top, path: line(frame.samples) ?? '' };
+    });
+  }, [frame, x]);
+
+  const ticks = useMemo(() => x.ticks(6).map(t => ({ x: x(t), label: formatMs(t) })), [x]);
+
+  if (!frame || !capture) {
+    return (
+      <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs text-green-800">
+        <span className="flex items-center gap-2"><Activity className="w-3 h-3" /> DEFLECTION SCOPE: WAITING FOR A FRAME...</span>
+      </div>
+    );
+  }
+
+  const beamTime = now * capture.timeScale - capture.cycleStart;
+  const playhead = !held && beamTime >= 0 && beamTime <= frame.period ? x(beamTime) : null;
+
+  const cursorSample = cursor !== null ? sampleAt(frame, cursor) : null;
+  const segmentIndex = cursor !== null ? segments.findIndex(s => cursor >= s.t0 && cursor <= s.t1) : -1;
+  const segment = segmentIndex >= 0 ? segments[segmentIndex] : null;
+
+  const placeCursor = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const viewX = ((e.clientX - rect.left) / rect.width) * VIEW_WIDTH;
+    setCursor(Math.max(0, Math.min(frame.period, x.invert(viewX))));
+  };
+
+  const stepSegment = (delta: number) => {
+    if (segments.length === 0) return;
+    const next = segmentIndex < 0 ? (delta > 0 ? 0 : segments.length - 1) : Math.max(0, Math.min(segments.length - 1, segmentIndex + delta));
+    setCursor((segments[next].t0 + segments[next].t1) / 2);
+  };
+
+  return (
+    <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-green-600 flex items-center gap-2"><Activity className="w-3 h-3" /> DEFLECTION SCOPE</span>
+        <button
+          onClick={() => setHeld(prev => !prev)}
+          title={held ? 'Follow the screen again' : 'Freeze the current frame'}
+          className={`flex items-center gap-1 px-2 py-1 rounded transition-colors ${held ? 'text-yellow-400 bg-yellow-900/20' : 'text-green-400 hover:bg-green-900/30'}`}
+        >
+          {held ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />} {held ? 'RUN' : 'HOLD'}
+        </button>
+        <button onClick={() => stepSegment(-1)} className="p-1 hover:bg-green-900/30 text-green-400 rounded transition-colors" title="Previous segment">
+          <ChevronLeft className="w-3 h-3" />
+        </button>
+        <button onClick={() => stepSegment(1)} className="p-1 hover:bg-green-900/30 text-green-400 rounded transition-colors" title="Next segment">
+          <ChevronRight className="w-3 h-3" />
+        </button>
+        <span className="ml-auto text-green-800">
+          {segments.filter(s => s.lit).length} LIT SEGMENTS · BUSY {formatMs(frame.duration)} OF {formatMs(frame.period)}
+        </span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${PLOT_HEIGHT}`}
+        width="100%"
+        className="bg-black/60 rounded border border-green-900/30 cursor-crosshair"
+        onMouseDown={placeCursor}
+      >
+        {segment && (
+          <rect
+            x={x(segment.t0)}
+            width={Math.max(1, x(segment.t1) - x(segment.t0))}
+            y={0}
+            height={PLOT_HEIGHT - AXIS_HEIGHT}
+            fill={segment.lit ? '#39ff14' : '#6b7280'}
+            opacity={0.12}
+          />
+        )}
+        {/* Past the end of the display list the beam idles, blanked, until the next refresh */}
+        {frame.duration < frame.period && (
+          <rect x={x(frame.duration)} width={x(frame.period) - x(frame.duration)} y={0} height={PLOT_HEIGHT - AXIS_HEIGHT} fill="#111" opacity={0.8} />
+        )}
+        {traces.map(({ channel, top, path }) => (
+          <g key={channel.label}>
+            <line x1={LABEL_WIDTH} x2={VIEW_WIDTH - 4} y1={top + CHANNEL_HEIGHT} y2={top + CHANNEL_HEIGHT} stroke="#14532d" strokeWidth={0.5} />
+            <text x={2} y={top + CHANNEL_HEIGHT / 2 + 3} fill={channel.color} fontSize={9}>{channel.label}</text>
+            <path d={path} fill="none" stroke={channel.color} strokeWidth={1} strokeLinejoin="round" />
+          </g>
+        ))}
+        {ticks.map(t => (
+          <text key={t.label} x={t.x} y={PLOT_HEIGHT - 3} fill="#166534" fontSize={8} textAnchor="middle">{t.label}</text>
+        ))}
+        {playhead !== null && <line x1={playhead} x2={playhead} y1={0} y2={PLOT_HEIGHT - AXIS_HEIGHT} stroke="#ffffff" strokeWidth={1} opacity={0.6} />}
+        {cursor !== null && <line x1={x(cursor)} x2={x(cursor)} y1={0} y2={PLOT_HEIGHT - AXIS_HEIGHT} stroke="#facc15" strokeDasharray="3 2" />}
+      </svg>
+
+      {cursorSample ? (
+        <div className="flex flex-col text-green-400">
+          <span>
+            T {formatMs(cursor ?? 0)} · X {cursorSample.x.toFixed(1)} · Y {cursorSample.y.toFixed(1)} · BEAM {cursorSample.lit ? 'ON' : 'OFF'} · Z {cursorSample.intensity.toFixed(2)}
+          </span>
+          {segment && (
+            <span className="text-green-700">
+              SEGMENT {segmentIndex + 1}/{segments.length}: {segment.lit ? 'STROKE' : 'BLANKED MOVE'} {formatMs(segment.t1 - segment.t0)},{' '}
+              {formatPoint(frame.samples[Math.max(0, segment.start - 1)])} → {formatPoint(frame.samples[segment.end])}
+            </span>
+          )}
+        </div>
+      ) : (
+        <span className="text-green-800">Click the trace to place a cursor, or step through the segments.</span>
+      )}
+    </div>
+  );
+};
+
+export default ScopePanel;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Pause, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Gauge } from 'lucide-react';
+import { BeamCapture } from '../utils/deflectionSignals';
+import { SimulationClock, StepUnit, stepTarget } from '../utils/simulation';
+
+interface SimulationPanelProps {
+  clock: SimulationClock;
+  // Delivers the frame the screen is drawing at the start of every beam cycle
+  subscribe: (listener: (capture: BeamCapture) => void) => () => void;
+}
+
+const SPEEDS = [1, 0.5, 0.25, 0.1, 0.01];
+// Slider resolution across one frame
+const SCRUB_STEPS = 1000;
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`);
+
+// Transport for the beam: pause it, step it a segment or a frame at a time, slow it down,
+// or drag it back and forth through the frame on screen
+const SimulationPanel: React.FC<SimulationPanelProps> = ({ clock, subscribe }) => {
+  const [capture, setCapture] = useState<BeamCapture | null>(null);
+  const [time, setTime] = useState(() => clock.time());
+  const [playing, setPlaying] = useState(clock.playing);
+  const [speed, setSpeed] = useState(clock.speed);
+
+  useEffect(() => subscribe(setCapture), [subscribe]);
+
+  // The clock runs on its own; poll it for display while playing
+  useEffect(() => {
+    if (!playing) return;
+    let frameId = requestAnimationFrame(function tick() {
+      setTime(clock.time());
+      frameId = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [clock, playing]);
+
+  const sync = () => {
+    setPlaying(clock.playing);
+    setTime(clock.time());
+  };
+
+  const togglePlay = () => {
+    if (clock.playing) clock.pause();
+    else clock.play();
+    sync();
+  };
+
+  const changeSpeed = (rate: number) => {
+    clock.setSpeed(rate);
+    setSpeed(rate);
+  };
+
+  // Stepping and scrubbing work in beam ms and pause the beam where they leave it
+  const seekBeam = (beamTime: number) => {
+    if (!capture) return;
+    clock.pause();
+    clock.seek(beamTime / capture.timeScale);
+    sync();
+  };
+
+  const step = (unit: StepUnit, direction: 1 | -1) => {
+    if (!capture) return;
+    seekBeam(stepTarget(capture.frame, capture.cycleStart, clock.time() * capture.timeScale, unit, direction));
+  };
+
+  const period = capture ? Math.max(1, capture.frame.period) : 1;
+  const inFrame = capture ? Math.max(0, Math.min(period, time * capture.timeScale - capture.cycleStart)) : 0;
+  const scrubStep = period / SCRUB_STEPS;
+
+  return (
+    <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={togglePlay} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+          {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />} {playing ? 'PAUSE' : 'RUN'}
+        </button>
+        <button onClick={() => step('frame', -1)} disabled={!capture} className="p-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30" title="Back a frame">
+          <ChevronsLeft className="w-3 h-3" />
+        </button>
+        <button onClick={() => step('segment', -1)} disabled={!capture} className="p-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30" title="Back a segment">
+          <ChevronLeft className="w-3 h-3" />
+        </button>
+        <button onClick={() => step('segment', 1)} disabled={!capture} className="p-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30" title="Forward a segment">
+          <ChevronRight className="w-3 h-3" />
+        </button>
+        <button onClick={() => step('frame', 1)} disabled={!capture} className="p-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30" title="Forward a frame">
+          <ChevronsRight className="w-3 h-3" />
+        </button>
+        <span className="flex items-center gap-1 text-green-600" title="Slow motion">
+          <Gauge className="w-3 h-3" />
+          <select
+            value={speed}
+            onChange={(e) => changeSpeed(Number(e.target.value))}
+            className="bg-black border border-green-900/50 rounded text-green-400"
+          >
+            {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+          </select>
+        </span>
+        <span className="ml-auto text-green-400">
+          {capture ? `${formatMs(inFrame)} / ${formatMs(period)}` : 'WAITING FOR A FRAME...'}
+          {!playing && <span className="text-yellow-400"> PAUSED</span>}
+        </span>
+      </div>
+
+      {/* Scrubs the beam through the frame on screen; the phosphor is replayed to match */}
+      <input
+        type="range"
+        min={0}
+        max={period}
+        step={scrubStep}
+        value={inFrame}
+        disabled={!capture}
+        onChange={(e) => capture && seekBeam(capture.cycleStart + Math.min(Number(e.target.value), period - scrubStep))}
+        className="w-full h-1 bg-green-900/30 rounded-lg appearance-none cursor-pointer disabled:opacity-30 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-vector-green [&::-webkit-slider-thumb]:rounded-full"
+      />
+    </div>
+  );
+};
+
+export default SimulationPanel;
@@ -1,11 +1,31 @@
 import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { ExplanationSource } from '../types';
 
 interface TerminalOutputProps {
   content: string;
   isLoading?: boolean;
+  heading?: string;
+  source?: ExplanationSource;
+  updatedAt?: number;
+  onRefresh?: () => void;
 }
 
-const TerminalOutput: React.FC<TerminalOutputProps> = ({ content, isLoading }) => {
+const SOURCE_LABELS: Record<ExplanationSource, { label: string; className: string; title: string }> = {
+  live: { label: 'LIVE', className: 'border-vector-green text-vector-green', title: 'Generated just now' },
+  cached: { label: 'CACHED', className: 'border-yellow-600 text-yellow-500', title: 'Generated earlier and stored on this device' },
+  offline: { label: 'OFFLINE', className: 'border-gray-600 text-gray-400', title: 'From the bundled archive' }
+};
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+};
+
+const TerminalOutput: React.FC<TerminalOutputProps> = ({ content, isLoading, heading = 'Incoming Transmission', source, updatedAt, onRefresh }) => {
   // Simple formatter: splits by newline, bold text between ** **, handles bullet points
   const formatLine = (line: string, index: number) => {
     if (line.trim().startsWith('- ')) {
@@ -29,7 +49,26 @@ const TerminalOutput: React.FC<TerminalOutputProps> = ({ content, isLoading }) =
     <div className="font-mono text-sm md:text-base leading-relaxed p-4 md:p-6 bg-vector-bg text-vector-green border-l-2 border-vector-dim h-full overflow-y-auto">
       <div className="mb-4 border-b border-vector-dim pb-2 flex items-center gap-2">
         <div className="w-3 h-3 bg-vector-green rounded-full animate-pulse"></div>
-        <span className="uppercase tracking-widest text-xs">Incoming Transmission</span>
+        <span className="uppercase tracking-widest text-xs">{heading}</span>
+        {source && !isLoading && (
+          <span
+            className={`ml-auto text-[10px] tracking-widest border rounded px-1.5 py-0.5 ${SOURCE_LABELS[source].className}`}
+            title={SOURCE_LABELS[source].title}
+          >
+            {SOURCE_LABELS[source].label}
+            {source === 'cached' && updatedAt && ` · ${formatAge(updatedAt)}`}
+          </span>
+        )}
+        {onRefresh && (
+          <button
+            onClick={onRefresh}
+            disabled={isLoading}
+            className={`${source && !isLoading ? '' : 'ml-auto '}text-vector-dim hover:text-vector-green disabled:opacity-30 transition-colors`}
+            title="Fetch a fresh explanation"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        )}
       </div>
       
       {isLoading ? (
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Pause, SkipBack } from 'lucide-react';
+import { AnimationClip, AnimationClock, keyframeTimes } from '../utils/animation';
+
+interface TimelinePanelProps {
+  clip: AnimationClip;
+  clock: AnimationClock;
+}
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ clip, clock }) => {
+  const [time, setTime] = useState(() => clock.time());
+  const [playing, setPlaying] = useState(clock.playing);
+  const ticks = keyframeTimes(clip);
+
+  // The clock runs on its own; poll it for display while playing
+  useEffect(() => {
+    if (!playing) return;
+    let frameId = requestAnimationFrame(function tick() {
+      setTime(clock.time());
+      if (!clock.playing) setPlaying(false);
+      frameId = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [clock, playing]);
+
+  const togglePlay = () => {
+    if (clock.playing) clock.pause();
+    else clock.play();
+    setPlaying(clock.playing);
+    setTime(clock.time());
+  };
+
+  const scrub = (value: number) => {
+    clock.seek(value);
+    setTime(clock.time());
+  };
+
+  return (
+    <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <button onClick={togglePlay} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+          {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />} {playing ? 'PAUSE' : 'PLAY'}
+        </button>
+        <button onClick={() => scrub(0)} className="p-1 hover:bg-green-900/30 text-green-400 rounded transition-colors" title="Rewind">
+          <SkipBack className="w-3 h-3" />
+        </button>
+        <span className="text-green-600">{clip.name}</span>
+        <span className="ml-auto text-green-400">{formatTime(time)} / {formatTime(clip.duration)}{clip.loop ? ' LOOP' : ''}</span>
+      </div>
+
+      <div className="relative">
+        <input
+          type="range"
+          min={0}
+          max={clip.duration}
+          step={10}
+          value={time}
+          onChange={(e) => scrub(Number(e.target.value))}
+          className="w-full h-1 bg-green-900/30 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-vector-green [&::-webkit-slider-thumb]:rounded-full"
+        />
+        {/* Keyframe markers */}
+        <div className="relative h-2 mt-1 pointer-events-none">
+          {ticks.map(t => (
+            <span
+              key={t}
+              className="absolute top-0 w-px h-2 bg-green-700"
+              style={{ left: `${(t / clip.duration) * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePanel;
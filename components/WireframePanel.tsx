@@ -0,0 +1,84 @@
+import React, { useRef } from 'react';
+import { Box, FileUp } from 'lucide-react';
+import { Mesh, WireframeSettings } from '../types';
+import { extractEdges } from '../utils/wireframe';
+
+interface WireframePanelProps {
+  settings: WireframeSettings;
+  meshes: Mesh[];
+  status: string | null;
+  onChange: (settings: WireframeSettings) => void;
+  onImport: (file: File) => void;
+}
+
+const SLIDERS: { key: 'yaw' | 'pitch' | 'spin' | 'distance' | 'fov'; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'yaw', label: 'YAW', min: -180, max: 180, step: 5, unit: '°' },
+  { key: 'pitch', label: 'PITCH', min: -90, max: 90, step: 5, unit: '°' },
+  { key: 'spin', label: 'SPIN', min: -180, max: 180, step: 10, unit: '°/s' },
+  { key: 'distance', label: 'DISTANCE', min: 0.5, max: 8, step: 0.1, unit: '' },
+  { key: 'fov', label: 'FOV', min: 20, max: 120, step: 5, unit: '°' }
+];
+
+const WireframePanel: React.FC<WireframePanelProps> = ({ settings, meshes, status, onChange, onImport }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const mesh = meshes.find(m => m.id === settings.meshId);
+  const update = <K extends keyof WireframeSettings>(key: K, value: WireframeSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="bg-black/40 p-2 rounded border border-green-900/50 font-mono text-xs flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1 text-green-700">
+          <Box className="w-3 h-3" /> MODEL
+          <select
+            value={settings.meshId}
+            onChange={(e) => update('meshId', e.target.value)}
+            className="bg-black border border-green-900/50 rounded text-green-400"
+          >
+            {meshes.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </label>
+        <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+          <FileUp className="w-3 h-3" /> IMPORT .OBJ
+        </button>
+        <input ref={fileRef} type="file" accept=".obj" onChange={handleFile} className="hidden" />
+        {mesh && <span className="text-green-800">{mesh.vertices.length} VERTS / {extractEdges(mesh).length} EDGES</span>}
+        {status && <span className="text-green-700 ml-auto">{status}</span>}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {SLIDERS.map(s => (
+          <label key={s.key} className="flex flex-col gap-1 text-green-600">
+            <span>{s.label} <span className="text-green-400">{settings[s.key]}{s.unit}</span></span>
+            <input
+              type="range"
+              min={s.min} max={s.max} step={s.step}
+              value={settings[s.key]}
+              onChange={(e) => update(s.key, Number(e.target.value))}
+              className="w-full h-1 bg-green-900/30 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-vector-green [&::-webkit-slider-thumb]:rounded-full"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <label className="text-green-600 flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={settings.nearClip} onChange={(e) => update('nearClip', e.target.checked)} />
+          NEAR CLIP
+        </label>
+        <label className="text-green-600 flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={settings.depthCue} onChange={(e) => update('depthCue', e.target.checked)} />
+          DEPTH CUE
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default WireframePanel;
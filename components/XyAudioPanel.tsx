@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioWaveform, Download, FileUp, Play, Square } from 'lucide-react';
+import { VectorShape } from '../types';
+import { decodeWav, encodeWav, repeatSignal, shapesToXySignal, XY_FRAME_RATES, XY_SAMPLE_RATES, XySignal } from '../utils/xyAudio';
+import { playXySignal, stopXySignal } from '../services/xyAudioPlayer';
+import { downloadBlob } from '../utils/download';
+
+export interface XyTrace {
+  name: string;
+  signal: XySignal;
+}
+
+interface XyAudioPanelProps {
+  shapes: VectorShape[];
+  trace: XyTrace | null;
+  onImport: (trace: XyTrace) => void;
+  // Called when the imported audio starts playing, so the screen can restart its replay in step
+  onPlayTrace: () => void;
+}
+
+const EXPORT_SECONDS = 5;
+
+const XyAudioPanel: React.FC<XyAudioPanelProps> = ({ shapes, trace, onImport, onPlayTrace }) => {
+  const [sampleRate, setSampleRate] = useState(XY_SAMPLE_RATES[0]);
+  const [frameRate, setFrameRate] = useState(XY_FRAME_RATES[1]);
+  const [playing, setPlaying] = useState<'scene' | 'trace' | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => stopXySignal(), []);
+
+  // Keep live scene audio in step with edits
+  useEffect(() => {
+    if (playing !== 'scene') return;
+    playXySignal(shapesToXySignal(shapes, sampleRate, frameRate), true).catch(error => {
+      console.error("Error playing XY audio:", error);
+      setStatus("AUDIO UNAVAILABLE");
+      setPlaying(null);
+    });
+  }, [playing, shapes, sampleRate, frameRate]);
+
+  const stop = () => {
+    stopXySignal();
+    setPlaying(null);
+  };
+
+  const playTrace = async () => {
+    if (!trace) return;
+    try {
+      await playXySignal(trace.signal, false, () => setPlaying(prev => (prev === 'trace' ? null : prev)));
+      setPlaying('trace');
+      onPlayTrace();
+    } catch (error) {
+      console.error("Error playing XY audio:", error);
+      setStatus("AUDIO UNAVAILABLE");
+    }
+  };
+
+  const handleExport = () => {
+    const signal = repeatSignal(shapesToXySignal(shapes, sampleRate, frameRate), EXPORT_SECONDS);
+    downloadBlob(new Blob([encodeWav(signal)], { type: 'audio/wav' }), `vector-xy-${Date.now()}.wav`);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const signal = decodeWav(await file.arrayBuffer());
+      stop();
+      onImport({ name: file.name.replace(/\.wav$/i, '').toUpperCase(), signal });
+      setStatus(`LOADED ${(signal.left.length / signal.sampleRate).toFixed(1)}s @ ${signal.sampleRate}Hz`);
+    } catch (error) {
+      console.error("Error importing WAV:", error);
+      setStatus(error instanceof Error ? error.message.toUpperCase() : "WAV IMPORT FAILED");
+    }
+  };
+
+  return (
+    <div className="bg-neutral-900/30 p-3 rounded border border-green-900/20 font-mono text-xs flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-green-600 flex items-center gap-1"><AudioWaveform className="w-3 h-3" /> XY AUDIO</span>
+        <select value={sampleRate} onChange={(e) => setSampleRate(Number(e.target.value))} className="bg-black border border-green-900/50 rounded text-green-400">
+          {XY_SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000}kHz</option>)}
+        </select>
+        <select value={frameRate} onChange={(e) => setFrameRate(Number(e.target.value))} className="bg-black border border-green-900/50 rounded text-green-400">
+          {XY_FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate}Hz REFRESH</option>)}
+        </select>
+        {playing === 'scene' ? (
+          <button onClick={stop} className="flex items-center gap-1 px-2 py-1 hover:bg-red-900/30 text-red-400 rounded transition-colors">
+            <Square className="w-3 h-3" /> STOP
+          </button>
+        ) : (
+          <button onClick={() => setPlaying('scene')} disabled={shapes.length === 0} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30">
+            <Play className="w-3 h-3" /> PLAY SCENE
+          </button>
+        )}
+        <button onClick={handleExport} disabled={shapes.length === 0} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors disabled:opacity-30">
+          <Download className="w-3 h-3" /> WAV ({EXPORT_SECONDS}s)
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+          <FileUp className="w-3 h-3" /> IMPORT WAV
+        </button>
+        <input ref={fileRef} type="file" accept=".wav,audio/wav" onChange={handleFile} className="hidden" />
+        {trace && (
+          playing === 'trace' ? (
+            <button onClick={stop} className="flex items-center gap-1 px-2 py-1 hover:bg-red-900/30 text-red-400 rounded transition-colors">
+              <Square className="w-3 h-3" /> STOP
+            </button>
+          ) : (
+            <button onClick={playTrace} className="flex items-center gap-1 px-2 py-1 hover:bg-green-900/30 text-green-400 rounded transition-colors">
+              <Play className="w-3 h-3" /> PLAY {trace.name}
+            </button>
+          )
+        )}
+        {status && <span className="text-green-700 ml-auto">{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default XyAudioPanel;
@@ -0,0 +1,169 @@
+import { DisplayMode, VectorPoint, VectorShape } from '../types';
+import { encodeGif, GifFrame } from '../utils/gifEncoder';
+import { downloadBlob } from '../utils/download';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PHOSPHOR = '#39ff14';
+
+export interface ExportSize {
+  width: number;
+  height: number;
+}
+
+const colorAttr = (shape: VectorShape, attr: 'stroke' | 'fill') => (shape.color ? ` ${attr}="${shape.color}"` : '');
+
+// Z dims a vector the way it dims the beam; 1 needs no attribute
+const opacityAttr = (z: number, attr: 'stroke-opacity' | 'fill-opacity') => (z < 1 ? ` ${attr}="${z.toFixed(2)}"` : '');
+
+// One path per run of vectors at the same Z. Zero-Z vectors are blanked moves and draw
+// nothing. A closed shape's last vector is written out to its first point: "Z" would go back
+// to the start of the last subpath, which after a blanked move is somewhere else.
+const toPaths = (shape: VectorShape, sx: (v: number) => number, sy: (v: number) => number): string[] => {
+  const { points } = shape;
+  const vectors = points.slice(1).map((to, i) => ({ from: points[i], to }));
+  if (shape.closed && points.length > 2) vectors.push({ from: points[points.length - 1], to: points[0] });
+
+  const at = (p: VectorPoint) => `${sx(p.x).toFixed(2)},${sy(p.y).toFixed(2)}`;
+  const paths: string[] = [];
+  let d = '';
+  let runZ = 1;
+  let pen: VectorPoint | null = null;
+  const flush = () => {
+    if (d) paths.push(`<path d="${d}"${opacityAttr(runZ, 'stroke-opacity')}${colorAttr(shape, 'stroke')}/>`);
+    d = '';
+  };
+
+  vectors.forEach(({ from, to }) => {
+    const z = Math.min(1, to.z ?? 1);
+    if (z <= 0) return;
+    if (z !== runZ) {
+      flush();
+      runZ = z;
+    }
+    if (!d || pen !== from) d += `${d ? ' ' : ''}M${at(from)}`;
+    d += ` L${at(to)}`;
+    pen = to;
+  });
+  flush();
+  return paths;
+};
+
+// Clean, static rendering of a scene: every stroke fully lit, no beam or fading trails.
+// Glow uses real SVG filters (not CSS drop-shadow) so the file renders the same in any viewer.
+export const buildSceneSvg = (shapes: VectorShape[], mode: DisplayMode, size: ExportSize): string => {
+  const { width, height } = size;
+  const margin = Math.round(Math.min(width, height) * 0.04);
+  const sx = (v: number) => margin + (v / 100) * (width - margin * 2);
+  const sy = (v: number) => margin + (v / 100) * (height - margin * 2);
+  const unit = Math.min(width, height) / 400;
+
+  const grid: string[] = [];
+  for (let i = 0; i <= 100; i += 10) {
+    grid.push(`<line x1="${sx(0)}" y1="${sy(i)}" x2="${sx(100)}" y2="${sy(i)}"/>`);
+    grid.push(`<line x1="${sx(i)}" y1="${sy(0)}" x2="${sx(i)}" y2="${sy(100)}"/>`);
+  }
+
+  const strokeAttrs = mode === DisplayMode.VECTOR
+    ? `stroke-width="${2 * unit}" stroke-linejoin="round" stroke-linecap="round" filter="url(#glow)"`
+    : `stroke-width="${4 * unit}" stroke-dasharray="${4 * unit},${4 * unit}" stroke-linecap="butt" shape-rendering="crispEdges" filter="url(#glow-raster)"`;
+
+  const paths = shapes
+    .filter(s => s.points.length > 1)
+    .flatMap(s => toPaths(s, sx, sy));
+  const dots = shapes
+    .filter(s => s.points.length === 1 && s.points[0].z !== 0)
+    .map(s => `<circle cx="${sx(s.points[0].x)}" cy="${sy(s.points[0].y)}" r="${2 * unit}"${opacityAttr(Math.min(1, s.points[0].z ?? 1), 'fill-opacity')}${colorAttr(s, 'fill')}/>`);
+
+  return [
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs>`,
+    `<filter id="glow" x="-20%" y="-20%" width="140%" height="140%">`,
+    `<feGaussianBlur in="SourceGraphic" stdDeviation="${4 * unit}" result="blur"/>`,
+    `<feMerge><feMergeNode in="blur"/><feMergeNode in="blur"/><feMergeNode in="SourceGraphic"/></feMerge>`,
+    `</filter>`,
+    `<filter id="glow-raster" x="-20%" y="-20%" width="140%" height="140%">`,
+    `<feGaussianBlur in="SourceGraphic" stdDeviation="${2 * unit}" result="blur"/>`,
+    `<feMerge><feMergeNode in="blur"/><feMergeNode in="SourceGraphic"/></feMerge>`,
+    `</filter>`,
+    `</defs>`,
+    `<rect width="100%" height="100%" fill="#050505"/>`,
+    `<g stroke="${PHOSPHOR}" stroke-width="1" opacity="0.1">${grid.join('')}</g>`,
+    `<g fill="none" stroke="${PHOSPHOR}" ${strokeAttrs}>${paths.join('')}</g>`,
+    `<g fill="${PHOSPHOR}" filter="url(#glow)">${dots.join('')}</g>`,
+    `</svg>`
+  ].join('\n');
+};
+
+const loadSvgImage = (svg: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not rasterize SVG'));
+  img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+});
+
+const createCanvas = (size: ExportSize) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  return { canvas, ctx };
+};
+
+// Draws an SVG string onto a black canvas of the given size
+export const rasterizeSvg = async (svg: string, size: ExportSize): Promise<HTMLCanvasElement> => {
+  const img = await loadSvgImage(svg);
+  const { canvas, ctx } = createCanvas(size);
+  ctx.fillStyle = '#050505';
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.drawImage(img, 0, 0, size.width, size.height);
+  return canvas;
+};
+
+export const exportSceneSvg = (shapes: VectorShape[], mode: DisplayMode, size: ExportSize, filename: string) => {
+  const svg = buildSceneSvg(shapes, mode, size);
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+};
+
+export const exportScenePng = async (shapes: VectorShape[], mode: DisplayMode, size: ExportSize, filename: string) => {
+  const canvas = await rasterizeSvg(buildSceneSvg(shapes, mode, size), size);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('PNG encoding failed');
+  downloadBlob(blob, `${filename}.png`);
+};
+
+// --- Live recording ---
+
+// Freeze the live display into a standalone SVG string. The screen writes each trail's current
+// fade straight into its attributes as it ages, so a clone captures the exact phosphor state.
+// The canvas renderer keeps its trails in a <canvas> beside the SVG; that is folded in as
+// an image underneath.
+export const snapshotLiveSvg = (svg: SVGSVGElement): string => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  clone.removeAttribute('class');
+
+  const canvas = svg.parentElement?.querySelector('canvas');
+  if (canvas && canvas.width > 0 && canvas.height > 0) {
+    const image = document.createElementNS(SVG_NS, 'image');
+    image.setAttribute('href', canvas.toDataURL('image/png'));
+    image.setAttribute('width', String(canvas.width));
+    image.setAttribute('height', String(canvas.height));
+    clone.insertBefore(image, clone.firstChild);
+  }
+  return new XMLSerializer().serializeToString(clone);
+};
+
+export const encodeRecording = async (snapshots: string[], size: ExportSize, frameDelay: number): Promise<Blob> => {
+  const frames: GifFrame[] = [];
+  for (const snapshot of snapshots) {
+    const canvas = await rasterizeSvg(snapshot, size);
+    const rgba = canvas.getContext('2d')!.getImageData(0, 0, size.width, size.height).data;
+    frames.push({ rgba, delay: frameDelay });
+  }
+  const bytes = encodeGif(size.width, size.height, frames, { loop: true });
+  return new Blob([bytes], { type: 'image/gif' });
+};
@@ -0,0 +1,123 @@
+import { ChatMessage, DisplayMode, Explanation, LlmProviderId, LlmSettings, MessageRole, SceneContext } from "../types";
+import { LlmMessage, LlmProvider } from "./llmProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createMockProvider } from "./mockProvider";
+import { explanationCacheKey, readCachedExplanation, writeCachedExplanation } from "./explanationCache";
+import { offlineExplanation } from "../utils/offlineArticles";
+import { MAX_ART_POINTS, MAX_ART_SHAPES, parseVectorArt, VECTOR_ART_SCHEMA, VectorArtResult } from "../utils/vectorArt";
+
+export const createProvider = (settings: LlmSettings): LlmProvider => {
+  if (settings.provider === LlmProviderId.OPENAI) {
+    return createOpenAiProvider(settings.openAiBaseUrl, settings.openAiModel, settings.openAiApiKey);
+  } else if (settings.provider === LlmProviderId.MOCK) {
+    return createMockProvider();
+  }
+  return createGeminiProvider(settings.geminiModel);
+};
+
+// Bump whenever the explanation prompt changes, so cached answers to the old one are not reused
+export const EXPLANATION_PROMPT_VERSION = 1;
+
+const explanationPrompt = (mode: string) => `
+      Explain how a ${mode} graphics display system works in the context of vintage video game consoles (like the Vectrex or Atari Asteroids arcade).
+      
+      Focus on:
+      1. How the electron beam moves.
+      2. The visual characteristics (sharpness, brightness, lack of aliasing vs pixels).
+      3. Why this technology was used and why it faded.
+      
+      Keep the response concise (under 200 words), technical but accessible, and formatted with clear bullet points or short paragraphs.
+      Do not use markdown code blocks.
+    `;
+
+// Explanation for the panel: a cached answer while it is fresh, otherwise a live one (which is
+// then cached). When the model can't be reached it falls back to an expired cached answer and
+// finally to the bundled articles. `refresh` skips the cache.
+export const getVectorExplanation = async (mode: DisplayMode, provider: LlmProvider, refresh = false): Promise<Explanation> => {
+  const offline = (): Explanation => ({ text: offlineExplanation(mode), source: 'offline', updatedAt: Date.now() });
+  // The offline provider has nothing to add to the curated articles
+  if (provider.id === LlmProviderId.MOCK) return offline();
+
+  const key = explanationCacheKey(mode, EXPLANATION_PROMPT_VERSION, `${provider.id}:${provider.model}`);
+  const cached = refresh ? null : readCachedExplanation(key);
+  if (cached) return { text: cached.text, source: 'cached', updatedAt: cached.createdAt };
+
+  try {
+    const text = await provider.stream({ messages: [{ role: MessageRole.USER, text: explanationPrompt(mode) }] });
+    if (!text.trim()) throw new Error("Empty explanation");
+    writeCachedExplanation(key, text);
+    return { text, source: 'live', updatedAt: Date.now() };
+  } catch (error) {
+    console.error("Error generating explanation:", error);
+    const stale = readCachedExplanation(key, true);
+    return stale ? { text: stale.text, source: 'cached', updatedAt: stale.createdAt } : offline();
+  }
+};
+
+const CHAT_SYSTEM_INSTRUCTION = "You are a retro-tech engineer specializing in 1980s vector display technology. You speak with a slight technical, cyberpunk flair. You explain concepts like 'XY monitors', 'phosphor persistence', 'DACs', and 'electron guns' clearly.";
+
+const describeScene = (scene: SceneContext) => `
+  The user is looking at a simulated display with these settings. When they say "this", "that" or "the screen", they mean it.
+  - Display mode: ${scene.displayMode}
+  - Content: ${scene.contentMode} (${scene.shapeCount} shapes, ${scene.vertexCount} vertices)
+  - Beam speed: ${scene.beamSpeed} of 10
+  - Phosphor: ${scene.phosphor}${scene.phosphor === 'STANDARD' ? `, persistence ${scene.persistence}ms` : ''}
+`;
+
+// Models expect alternating turns that start with the user. Failed replies are left out,
+// and turns from the same side in a row are merged.
+const toTurns = (history: ChatMessage[]): LlmMessage[] => {
+  const turns: LlmMessage[] = [];
+  history
+    .filter(m => m.status !== 'error' && m.text.trim())
+    .forEach(m => {
+      const last = turns[turns.length - 1];
+      if (last?.role === m.role) last.text += `\n\n${m.text}`;
+      else turns.push({ role: m.role, text: m.text });
+    });
+  while (turns.length > 0 && turns[0].role !== MessageRole.USER) turns.shift();
+  return turns;
+};
+
+// Answers the last user message in `history`, with the earlier turns as the conversation so
+// far. `onText` gets the reply so far as each chunk arrives; the full reply is returned.
+// Aborting `signal` ends the stream early and returns what had arrived.
+export const streamChatWithExpert = async (
+  provider: LlmProvider,
+  history: ChatMessage[],
+  scene: SceneContext,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const messages = toTurns(history);
+  if (messages[messages.length - 1]?.role !== MessageRole.USER) throw new Error("No question to answer");
+
+  return provider.stream({
+    system: `${CHAT_SYSTEM_INSTRUCTION}\n${describeScene(scene)}`,
+    messages,
+    signal
+  }, onText);
+};
+
+const VECTOR_ART_INSTRUCTION = `
+  You draw line art for a vector display. Describe the requested drawing as polylines in JSON:
+  {"shapes": [{"points": [{"x": 10, "y": 20}, ...], "closed": true}]}.
+  - Coordinates run from 0 to 100, with (0, 0) at the top left and y increasing downwards.
+  - Use at most ${MAX_ART_SHAPES} shapes and ${MAX_ART_POINTS} points in total; prefer a few clean strokes to many short ones.
+  - Set "closed" to true when the last point should join back to the first; do not repeat the first point.
+  - Letters and words are drawn as strokes too.
+  Reply with the JSON only.
+`;
+
+// Asks the model for a drawing of `description`, then validates and repairs it.
+// Throws VectorArtError when nothing drawable came back.
+export const generateVectorArt = async (provider: LlmProvider, description: string, signal?: AbortSignal): Promise<VectorArtResult> => {
+  const text = await provider.stream({
+    system: VECTOR_ART_INSTRUCTION,
+    messages: [{ role: MessageRole.USER, text: description }],
+    json: VECTOR_ART_SCHEMA,
+    signal
+  });
+  return parseVectorArt(text);
+};
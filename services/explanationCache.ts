@@ -0,0 +1,59 @@
+import { isRecord } from '../utils/sceneFormat';
+
+const STORAGE_KEY = 'vector-console.explanations';
+
+// Generated explanations are reused for a week, then fetched again
+export const EXPLANATION_TTL = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 50;
+
+export interface CachedExplanation {
+  text: string;
+  createdAt: number;
+}
+
+// A new prompt version or a different model must not be served an older answer
+export const explanationCacheKey = (mode: string, promptVersion: number, model: string) =>
+  `${mode}|v${promptVersion}|${model}`;
+
+const isCachedExplanation = (v: unknown): v is CachedExplanation =>
+  isRecord(v) && typeof v.text === 'string' && typeof v.createdAt === 'number';
+
+// Only well-formed entries are read back; anything else in storage counts as a miss
+const readStore = (): Record<string, CachedExplanation> => {
+  const store: Record<string, CachedExplanation> = {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (isRecord(parsed)) {
+      Object.entries(parsed).forEach(([key, entry]) => {
+        if (isCachedExplanation(entry)) store[key] = entry;
+      });
+    }
+  } catch (error) {
+    console.error("Explanation cache is unreadable:", error);
+  }
+  return store;
+};
+
+// Expired entries are only returned with `allowExpired`, as a last resort when offline
+export const readCachedExplanation = (key: string, allowExpired = false): CachedExplanation | null => {
+  const store = readStore();
+  if (!Object.hasOwn(store, key)) return null;
+  const entry = store[key];
+  if (!allowExpired && Date.now() - entry.createdAt > EXPLANATION_TTL) return null;
+  return entry;
+};
+
+export const writeCachedExplanation = (key: string, text: string) => {
+  const store = readStore();
+  store[key] = { text, createdAt: Date.now() };
+  // Keep the newest entries only
+  const kept = Object.entries(store)
+    .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+    .slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch (error) {
+    console.error("Could not cache explanation:", error);
+  }
+};
@@ -0,0 +1,61 @@
+import { BUILTIN_FONT, VectorFont } from '../utils/vectorFont';
+import { parseJhf } from '../utils/hersheyFont';
+
+// Fonts available to TEXT mode. Hershey fonts ship as .jhf files under public/fonts and are
+// fetched and parsed the first time they are selected; user files can be added at runtime.
+
+export interface FontEntry {
+  id: string;
+  name: string;
+  file?: string; // .jhf under /fonts; absent for fonts already in memory
+}
+
+const BUNDLED_FONTS: FontEntry[] = [
+  { id: BUILTIN_FONT.id, name: BUILTIN_FONT.name },
+  { id: 'rowmans', name: 'ROMAN SIMPLEX', file: 'rowmans.jhf' },
+  { id: 'timesr', name: 'ROMAN COMPLEX', file: 'timesr.jhf' },
+  { id: 'scripts', name: 'SCRIPT SIMPLEX', file: 'scripts.jhf' },
+  { id: 'gothiceng', name: 'GOTHIC ENGLISH', file: 'gothiceng.jhf' }
+];
+
+const userFonts: FontEntry[] = [];
+const loaded = new Map<string, VectorFont>([[BUILTIN_FONT.id, BUILTIN_FONT]]);
+const pending = new Map<string, Promise<VectorFont>>();
+
+export const listFonts = (): FontEntry[] => [...BUNDLED_FONTS, ...userFonts];
+
+export const loadFont = (id: string): Promise<VectorFont> => {
+  const cached = loaded.get(id);
+  if (cached) return Promise.resolve(cached);
+  const inFlight = pending.get(id);
+  if (inFlight) return inFlight;
+
+  const entry = listFonts().find(f => f.id === id);
+  if (!entry?.file) return Promise.reject(new Error(`Unknown font "${id}"`));
+
+  const request = fetch(`fonts/${entry.file}`)
+    .then(res => {
+      if (!res.ok) throw new Error(`Font ${entry.file} failed to load (${res.status})`);
+      return res.text();
+    })
+    .then(text => {
+      const font = parseJhf(text, { id: entry.id, name: entry.name });
+      loaded.set(id, font);
+      return font;
+    })
+    .finally(() => pending.delete(id));
+
+  pending.set(id, request);
+  return request;
+};
+
+// Adds a .jhf picked by the user. Loading another file with the same name replaces it.
+export const importFontFile = async (file: File): Promise<VectorFont> => {
+  const base = file.name.replace(/\.jhf$/i, '');
+  const id = `user-${base.toLowerCase()}`;
+  const font = parseJhf(await file.text(), { id, name: base.toUpperCase() });
+
+  loaded.set(id, font);
+  if (!userFonts.some(f => f.id === id)) userFonts.push({ id, name: font.name });
+  return font;
+};
@@ -0,0 +1,122 @@
+import { VectorShape } from '../types';
+import { createGame, GameInput, gameToShapes, GameState, stepGame } from '../utils/asteroids';
+
+// Runs the GAME content mode on simulated time: keyboard in, fixed-step simulation, display
+// list out. The screen pulls `shapes(time)` at the start of each beam cycle, so what the player
+// sees is whatever the beam managed to draw, at whatever refresh rate the display list allows,
+// and pausing or slowing the beam holds or slows the game with it. Recent states are kept, so
+// asking again for an earlier time (stepping or scrubbing the beam back) shows that moment
+// again instead of moving the game on.
+
+const STEP = 1 / 60; // s
+const STEP_MS = STEP * 1000;
+const MAX_CATCH_UP_STEPS = 15; // longer gaps (hidden tab) are dropped rather than replayed
+const HISTORY_STEPS = 240;
+
+const KEY_BINDINGS: Record<string, keyof GameInput> = {
+  ArrowLeft: 'left',
+  KeyA: 'left',
+  ArrowRight: 'right',
+  KeyD: 'right',
+  ArrowUp: 'thrust',
+  KeyW: 'thrust',
+  Space: 'fire'
+};
+
+// Keys typed into text fields belong to the field, not the ship. Sliders and checkboxes
+// don't count, so the ship still flies after adjusting the display mid-game.
+const NON_TEXT_INPUTS = ['range', 'checkbox', 'radio', 'button'];
+const isEditable = (target: EventTarget | null) => {
+  if (target instanceof HTMLInputElement) return !NON_TEXT_INPUTS.includes(target.type);
+  return target instanceof HTMLElement && (target.isContentEditable || ['TEXTAREA', 'SELECT'].includes(target.tagName));
+};
+
+export class GameSession {
+  private game: GameState;
+  private input: GameInput = { left: false, right: false, thrust: false, fire: false };
+  private listening = false;
+  // Step the game is at, or null until the first time is asked for after starting
+  private step: number | null = null;
+  private history: { step: number; state: GameState }[] = []; // oldest first
+
+  constructor(seed?: number) {
+    this.game = createGame(seed);
+  }
+
+  get state(): GameState {
+    return this.game;
+  }
+
+  get running() {
+    return this.listening;
+  }
+
+  // The game at `time` (simulated ms). Later times than any seen so far move it on; earlier
+  // ones are looked up in the history.
+  shapes(time: number): VectorShape[] {
+    const target = Math.floor(time / STEP_MS);
+    if (!this.running) return gameToShapes(this.game);
+    if (this.step === null) this.record(target);
+    if (target > this.step!) this.advance(target);
+    return gameToShapes(this.stateAt(target));
+  }
+
+  restart(seed?: number) {
+    this.game = createGame(seed);
+    this.step = null;
+    this.history = [];
+  }
+
+  start() {
+    if (this.running) return;
+    window.addEventListener('keydown', this.handleKey);
+    window.addEventListener('keyup', this.handleKey);
+    this.listening = true;
+    // Picks up from wherever simulated time is when next asked
+    this.step = null;
+    this.history = [];
+  }
+
+  stop() {
+    this.listening = false;
+    window.removeEventListener('keydown', this.handleKey);
+    window.removeEventListener('keyup', this.handleKey);
+    this.input = { left: false, right: false, thrust: false, fire: false };
+  }
+
+  private record(step: number) {
+    this.step = step;
+    this.history.push({ step, state: this.game });
+    if (this.history.length > HISTORY_STEPS) this.history.shift();
+  }
+
+  private advance(target: number) {
+    // Steps beyond the catch-up limit are skipped over, not simulated
+    let step = Math.max(this.step!, target - MAX_CATCH_UP_STEPS);
+    while (step < target) {
+      this.game = stepGame(this.game, this.input, STEP);
+      this.record(++step);
+    }
+  }
+
+  private stateAt(target: number): GameState {
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      if (this.history[i].step <= target) return this.history[i].state;
+    }
+    return this.history[0]?.state ?? this.game;
+  }
+
+  private handleKey = (e: KeyboardEvent) => {
+    if (isEditable(e.target)) return;
+    if (e.code === 'Enter' && e.type === 'keydown' && this.game.over) {
+      this.restart();
+      e.preventDefault();
+      return;
+    }
+    const action = KEY_BINDINGS[e.code];
+    if (!action) return;
+    this.input = { ...this.input, [action]: e.type === 'keydown' };
+    // Arrows and space would otherwise scroll the page
+    e.preventDefault();
+  };
+}
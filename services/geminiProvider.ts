@@ -0,0 +1,32 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmProviderId } from '../types';
+import { LlmProvider, LlmProviderError, LlmRequest } from './llmProvider';
+
+export const createGeminiProvider = (model: string): LlmProvider => ({
+  id: LlmProviderId.GEMINI,
+  model,
+
+  async stream(request: LlmRequest, onText?: (text: string) => void) {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) throw new LlmProviderError(LlmProviderId.GEMINI, "API key not found (set GEMINI_API_KEY)");
+    const ai = new GoogleGenAI({ apiKey });
+
+    const stream = await ai.models.generateContentStream({
+      model,
+      contents: request.messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+      config: {
+        systemInstruction: request.system,
+        ...(request.json ? { responseMimeType: 'application/json', responseJsonSchema: request.json } : {}),
+        abortSignal: request.signal
+      },
+    });
+
+    let text = '';
+    for await (const chunk of stream) {
+      if (request.signal?.aborted) break;
+      text += chunk.text ?? '';
+      onText?.(text);
+    }
+    return text;
+  }
+});
@@ -0,0 +1,100 @@
+import { LessonDocument, parseLesson } from '../utils/lessonFormat';
+import { LessonProgress } from '../utils/lessonEngine';
+import { isRecord } from '../utils/sceneFormat';
+
+// Lessons bundled under public/lessons are fetched and validated the first time they are
+// opened; instructors can add their own lesson files at runtime. Progress is kept per
+// lesson id so a learner can leave and pick up where they stopped.
+
+const PROGRESS_KEY = 'vector-console.lessons';
+
+export interface LessonEntry {
+  id: string;
+  title: string;
+  file?: string; // .json under /lessons; absent for lessons already in memory
+}
+
+const BUNDLED_LESSONS: LessonEntry[] = [
+  { id: 'beam-basics', title: 'BEAM BASICS', file: 'beam-basics.json' },
+  { id: 'vector-vs-raster', title: 'VECTOR VS RASTER', file: 'vector-vs-raster.json' }
+];
+
+const userLessons: LessonEntry[] = [];
+const loaded = new Map<string, LessonDocument>();
+
+export const listLessons = (): LessonEntry[] => [...BUNDLED_LESSONS, ...userLessons];
+
+export const loadLesson = async (id: string): Promise<LessonDocument> => {
+  const cached = loaded.get(id);
+  if (cached) return cached;
+
+  const entry = listLessons().find(l => l.id === id);
+  if (!entry?.file) throw new Error(`Unknown lesson "${id}"`);
+
+  const res = await fetch(`lessons/${entry.file}`);
+  if (!res.ok) throw new Error(`Lesson ${entry.file} failed to load (${res.status})`);
+  const lesson = parseLesson(await res.text());
+  loaded.set(id, lesson);
+  return lesson;
+};
+
+// Adds a lesson file picked by the user. A file with the id of a loaded lesson replaces it.
+export const importLessonFile = async (file: File): Promise<LessonDocument> => {
+  const lesson = parseLesson(await file.text());
+  loaded.set(lesson.id, lesson);
+  if (!listLessons().some(l => l.id === lesson.id)) userLessons.push({ id: lesson.id, title: lesson.title.toUpperCase() });
+  return lesson;
+};
+
+// --- Progress ---
+
+const isLessonProgress = (v: unknown): v is LessonProgress =>
+  isRecord(v) &&
+  typeof v.lessonId === 'string' &&
+  typeof v.stepIndex === 'number' &&
+  Array.isArray(v.completed) &&
+  isRecord(v.quiz);
+
+// Only well-formed records are read back; anything else in storage counts as no progress
+const readProgress = (): Record<string, LessonProgress> => {
+  const store: Record<string, LessonProgress> = {};
+  try {
+    const raw = localStorage.getItem(PROGRESS_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (isRecord(parsed)) {
+      Object.entries(parsed).forEach(([lessonId, progress]) => {
+        if (isLessonProgress(progress)) store[lessonId] = progress;
+      });
+    }
+  } catch (error) {
+    console.error("Lesson progress is unreadable:", error);
+  }
+  return store;
+};
+
+const writeProgress = (store: Record<string, LessonProgress>) => {
+  try {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error("Could not save lesson progress:", error);
+  }
+};
+
+export const loadProgress = (lessonId: string): LessonProgress | null => {
+  const store = readProgress();
+  return Object.hasOwn(store, lessonId) ? store[lessonId] : null;
+};
+
+export const listProgress = (): Record<string, LessonProgress> => readProgress();
+
+export const saveProgress = (progress: LessonProgress) => {
+  const store = readProgress();
+  store[progress.lessonId] = progress;
+  writeProgress(store);
+};
+
+export const clearProgress = (lessonId: string) => {
+  const store = readProgress();
+  delete store[lessonId];
+  writeProgress(store);
+};
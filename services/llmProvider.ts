@@ -0,0 +1,77 @@
+import { LlmProviderId, LlmSettings, MessageRole } from '../types';
+import { isRecord } from '../utils/sceneFormat';
+
+// Common interface for the language model backends behind the explanation panel and the chat.
+// Each provider turns a system prompt plus a conversation into a streamed reply.
+
+export interface LlmMessage {
+  role: MessageRole;
+  text: string;
+}
+
+export interface LlmRequest {
+  system?: string;
+  // Alternating turns, starting and ending with the user
+  messages: LlmMessage[];
+  // JSON Schema the reply must follow, for structured output; plain text when absent
+  json?: object;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  // Identifies the model behind the provider, e.g. for cache keys
+  readonly model: string;
+  // Resolves with the full reply; `onText` gets the reply so far as it arrives.
+  // Aborting the request's signal ends it early with whatever had arrived.
+  stream(request: LlmRequest, onText?: (text: string) => void): Promise<string>;
+}
+
+export class LlmProviderError extends Error {
+  provider: LlmProviderId;
+
+  constructor(provider: LlmProviderId, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = 'LlmProviderError';
+    this.provider = provider;
+  }
+}
+
+const STORAGE_KEY = 'vector-console.llm';
+
+// Gemini when a key was built in, otherwise the offline answers
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: process.env.API_KEY ? LlmProviderId.GEMINI : LlmProviderId.MOCK,
+  geminiModel: 'gemini-2.5-flash',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: 'llama3.2',
+  openAiApiKey: ''
+};
+
+const stringOr = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+
+// Each stored field is kept only if it is still a string (and the provider one we know);
+// anything else falls back to its default
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : null;
+    if (!isRecord(stored)) return DEFAULT_LLM_SETTINGS;
+    return {
+      provider: Object.values<unknown>(LlmProviderId).includes(stored.provider)
+        ? (stored.provider as LlmProviderId)
+        : DEFAULT_LLM_SETTINGS.provider,
+      geminiModel: stringOr(stored.geminiModel, DEFAULT_LLM_SETTINGS.geminiModel),
+      openAiBaseUrl: stringOr(stored.openAiBaseUrl, DEFAULT_LLM_SETTINGS.openAiBaseUrl),
+      openAiModel: stringOr(stored.openAiModel, DEFAULT_LLM_SETTINGS.openAiModel),
+      openAiApiKey: stringOr(stored.openAiApiKey, DEFAULT_LLM_SETTINGS.openAiApiKey)
+    };
+  } catch (error) {
+    console.error("LLM settings are unreadable:", error);
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
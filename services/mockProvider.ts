@@ -0,0 +1,158 @@
+import { LlmProviderId, VectorPoint, VectorShape } from '../types';
+import { layoutText } from '../utils/vectorFont';
+import { LlmProvider, LlmRequest } from './llmProvider';
+
+// Offline provider: canned answers picked by keywords in the last message, streamed word by
+// word so the UI behaves as it does with a real model. The same question always gets the
+// same answer, which also makes it the provider to use in tests. Requests for structured
+// output get a canned drawing instead.
+
+interface CannedAnswer {
+  keywords: string[];
+  text: string;
+}
+
+const WORD_DELAY = 15; // ms
+
+// Checked in order, so the more specific topics come first
+const ANSWERS: CannedAnswer[] = [
+  {
+    keywords: ['flicker', 'flickers', 'flickering', 'refresh'],
+    text: `That flicker is the **refresh budget** running out.
+
+A vector display redraws its whole list every frame. When the list takes longer to trace than the refresh period, the phosphor has time to fade before the beam comes back, and you see it pulse. Fewer or shorter vectors, a faster beam or a longer-persistence phosphor all hide it. Watch the frame load readout: over 100% means missed refreshes.`
+  },
+  {
+    keywords: ['phosphor', 'persistence', 'afterglow', 'p7', 'p31', 'p1', 'p39', 'decay'],
+    text: `**Phosphor persistence** is how long the screen keeps glowing after the beam leaves.
+
+- Short phosphors like P31 fade within a millisecond or so: crisp motion, but the display must be refreshed often.
+- Long phosphors like P7 and P39 hold the image for a second or more, which hides flicker on slow displays but smears anything that moves.
+- P7 even changes colour: a blue-white flash, then a yellow-green afterglow.`
+  },
+  {
+    keywords: ['dac', 'deflection', 'amplifier', 'overshoot', 'bandwidth'],
+    text: `The **deflection amplifiers** turn DAC output into coil current or plate voltage that bends the beam.
+
+They can't move it instantly. A big jump overshoots and rings unless the amplifier is well damped, which is why vector hardware blanks the beam and waits a settle time before drawing the next line.`
+  },
+  {
+    keywords: ['vectrex', 'asteroids', 'tempest', 'battlezone', 'arcade'],
+    text: `The classic vector machines:
+
+- **Asteroids** (1979) and **Battlezone** (1980) used Atari's Digital Vector Generator driving a black-and-white XY monitor.
+- **Tempest** (1981) used the colour vector generator and a colour XY monitor.
+- The **Vectrex** (1982) put a vector screen in a home console, with plastic overlays for colour.`
+  },
+  {
+    keywords: ['beam', 'electron', 'gun', 'blank', 'intensity'],
+    text: `The **electron gun** fires a focused beam at the phosphor; wherever it lands, the screen glows.
+
+Intensity is set by the grid voltage, and blanking it to zero lets the beam move without drawing. Slower beam travel deposits more energy per spot, so slow lines look brighter than fast ones.`
+  }
+];
+
+const FALLBACK = `No live uplink: this is the offline archive.
+
+I can cover vector versus raster displays, flicker and refresh, phosphor persistence, deflection and DACs, and the classic vector machines. Try asking about one of those, or pick an online provider to ask anything else.`;
+
+export const findCannedAnswer = (question: string): string => {
+  const words = new Set(question.toLowerCase().split(/[^a-z0-9]+/));
+  const hit = ANSWERS.find(a => a.keywords.some(k => words.has(k)));
+  return hit?.text ?? FALLBACK;
+};
+
+// --- Drawings ---
+
+const star = (cx: number, cy: number, outer: number, inner: number): VectorPoint[] =>
+  Array.from({ length: 10 }, (_, i) => {
+    const r = i % 2 === 0 ? outer : inner;
+    const a = (i * Math.PI) / 5 - Math.PI / 2;
+    return { x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) };
+  });
+
+const DRAWINGS: { keywords: string[]; shapes: Omit<VectorShape, 'id'>[] }[] = [
+  {
+    keywords: ['lander', 'lunar', 'lem', 'moon'],
+    shapes: [
+      // Ascent stage, descent stage, legs and footpads, nozzle
+      { closed: true, points: [{ x: 40, y: 22 }, { x: 60, y: 22 }, { x: 66, y: 32 }, { x: 66, y: 42 }, { x: 34, y: 42 }, { x: 34, y: 32 }] },
+      { closed: true, points: [{ x: 30, y: 42 }, { x: 70, y: 42 }, { x: 70, y: 56 }, { x: 30, y: 56 }] },
+      { closed: false, points: [{ x: 32, y: 56 }, { x: 20, y: 74 }] },
+      { closed: false, points: [{ x: 68, y: 56 }, { x: 80, y: 74 }] },
+      { closed: false, points: [{ x: 15, y: 74 }, { x: 25, y: 74 }] },
+      { closed: false, points: [{ x: 75, y: 74 }, { x: 85, y: 74 }] },
+      { closed: true, points: [{ x: 45, y: 56 }, { x: 55, y: 56 }, { x: 58, y: 64 }, { x: 42, y: 64 }] },
+      { closed: true, points: [{ x: 46, y: 27 }, { x: 54, y: 27 }, { x: 54, y: 34 }, { x: 46, y: 34 }] }
+    ]
+  },
+  {
+    keywords: ['star'],
+    shapes: [{ closed: true, points: star(50, 52, 44, 18) }]
+  },
+  {
+    keywords: ['house', 'home', 'hut'],
+    shapes: [
+      { closed: true, points: [{ x: 25, y: 45 }, { x: 75, y: 45 }, { x: 75, y: 85 }, { x: 25, y: 85 }] },
+      { closed: false, points: [{ x: 18, y: 50 }, { x: 50, y: 18 }, { x: 82, y: 50 }] },
+      { closed: false, points: [{ x: 44, y: 85 }, { x: 44, y: 65 }, { x: 56, y: 65 }, { x: 56, y: 85 }] },
+      { closed: true, points: [{ x: 32, y: 54 }, { x: 40, y: 54 }, { x: 40, y: 62 }, { x: 32, y: 62 }] }
+    ]
+  },
+  {
+    keywords: ['rocket', 'missile'],
+    shapes: [
+      { closed: true, points: [{ x: 50, y: 10 }, { x: 58, y: 25 }, { x: 58, y: 70 }, { x: 42, y: 70 }, { x: 42, y: 25 }] },
+      { closed: false, points: [{ x: 42, y: 55 }, { x: 32, y: 75 }, { x: 42, y: 70 }] },
+      { closed: false, points: [{ x: 58, y: 55 }, { x: 68, y: 75 }, { x: 58, y: 70 }] },
+      { closed: false, points: [{ x: 45, y: 70 }, { x: 50, y: 88 }, { x: 55, y: 70 }] }
+    ]
+  }
+];
+
+// A drawing for the description. Words in capitals or quotes are lettered in the middle
+// ("the word ATARI inside a star"); with nothing recognised the description itself is lettered.
+export const findCannedDrawing = (description: string): VectorShape[] => {
+  const words = new Set(description.toLowerCase().split(/[^a-z0-9]+/));
+  const picture = DRAWINGS.find(d => d.keywords.some(k => words.has(k)));
+  const lettering = /"([^"]+)"/.exec(description)?.[1] ?? /\b[A-Z0-9]{2,}\b/.exec(description)?.[0];
+
+  const shapes: VectorShape[] = (picture?.shapes ?? []).map((s, i) => ({ ...s, id: `mock-${i}` }));
+  const text = lettering ?? (picture ? null : description.trim().toUpperCase() || '?');
+  if (text) {
+    const box = picture ? { x: 34, y: 42, width: 32, height: 20 } : { x: 10, y: 10, width: 80, height: 80 };
+    layoutText(text, { box, size: 12, align: 'center', verticalAlign: 'middle', wrap: true, autoFit: true })
+      .shapes.forEach((s, i) => shapes.push({ ...s, id: `mock-text-${i}` }));
+  }
+  return shapes;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+export const createMockProvider = (): LlmProvider => ({
+  id: LlmProviderId.MOCK,
+  model: 'canned',
+
+  async stream(request: LlmRequest, onText?: (text: string) => void) {
+    const question = request.messages[request.messages.length - 1]?.text ?? '';
+    const answer = request.json
+      ? JSON.stringify({ shapes: findCannedDrawing(question).map(({ points, closed }) => ({ points, closed })) })
+      : findCannedAnswer(question);
+    const tokens = answer.split(/(?<=[\s,])/);
+    let text = '';
+    for (const token of tokens) {
+      if (request.signal?.aborted) break;
+      text += token;
+      onText?.(text);
+      if (onText) await wait(WORD_DELAY, request.signal);
+    }
+    return text;
+  }
+});
@@ -0,0 +1,68 @@
+import { LlmProviderId, MessageRole } from '../types';
+import { LlmProvider, LlmProviderError, LlmRequest } from './llmProvider';
+
+// OpenAI-compatible /chat/completions with server-sent events, as served by llama.cpp's
+// server, Ollama, LM Studio and vLLM as well as OpenAI itself
+export const createOpenAiProvider = (baseUrl: string, model: string, apiKey = ''): LlmProvider => ({
+  id: LlmProviderId.OPENAI,
+  model: `${model}@${baseUrl}`,
+
+  async stream(request: LlmRequest, onText?: (text: string) => void) {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages.map(m => ({ role: m.role === MessageRole.MODEL ? 'assistant' : 'user', content: m.text }))
+    ];
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: true,
+          ...(request.json ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.json } } } : {})
+        }),
+        signal: request.signal
+      });
+    } catch (error) {
+      if (request.signal?.aborted) return '';
+      throw new LlmProviderError(LlmProviderId.OPENAI, `cannot reach ${baseUrl}`);
+    }
+    if (!response.ok || !response.body) {
+      throw new LlmProviderError(LlmProviderId.OPENAI, `HTTP ${response.status} ${response.statusText}`.trim());
+    }
+
+    // Each event is a "data: {json}" line; the stream ends with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let text = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta) {
+            text += delta;
+            onText?.(text);
+          }
+        }
+      }
+    } catch (error) {
+      if (request.signal?.aborted) return text;
+      throw error;
+    }
+    return text;
+  }
+});
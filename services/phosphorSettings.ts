@@ -0,0 +1,43 @@
+import { PhosphorModel } from '../types';
+import { DEFAULT_CUSTOM_PHOSPHOR, PHOSPHOR_IDS } from '../utils/phosphor';
+import { isRecord, validatePhosphor } from '../utils/sceneFormat';
+
+// The selected phosphor and the user's own decay curve, kept between visits. Anything
+// stored that no longer validates falls back to the defaults.
+
+const STORAGE_KEY = 'vector-console.phosphor';
+
+export interface PhosphorSettings {
+  phosphorId: string; // 'standard', a preset id or 'custom'
+  custom: PhosphorModel;
+}
+
+export const DEFAULT_PHOSPHOR_SETTINGS: PhosphorSettings = {
+  phosphorId: 'standard',
+  custom: DEFAULT_CUSTOM_PHOSPHOR
+};
+
+export const loadPhosphorSettings = (): PhosphorSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : null;
+    if (!isRecord(stored)) return DEFAULT_PHOSPHOR_SETTINGS;
+
+    const issues: string[] = [];
+    validatePhosphor(stored.custom, 'custom', issues);
+    const phosphorId = typeof stored.phosphorId === 'string' && PHOSPHOR_IDS.includes(stored.phosphorId)
+      ? stored.phosphorId
+      : DEFAULT_PHOSPHOR_SETTINGS.phosphorId;
+    return {
+      phosphorId,
+      custom: issues.length === 0 ? (stored.custom as PhosphorModel) : DEFAULT_PHOSPHOR_SETTINGS.custom
+    };
+  } catch (error) {
+    console.error("Phosphor settings are unreadable:", error);
+    return DEFAULT_PHOSPHOR_SETTINGS;
+  }
+};
+
+export const savePhosphorSettings = (settings: PhosphorSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
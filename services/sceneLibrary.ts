@@ -0,0 +1,80 @@
+import { SceneDocument, SCENE_FILE_EXTENSION, isRecord, parseScene, serializeScene } from '../utils/sceneFormat';
+import { downloadBlob, safeFileName } from '../utils/download';
+
+const STORAGE_KEY = 'vector-console.scenes';
+
+export interface SceneLibraryEntry {
+  name: string;
+  updatedAt: number;
+  shapeCount: number;
+}
+
+// Stored documents are kept raw so they are migrated on read when the schema moves on.
+// Scene names are typed by the user, so the store has no prototype: "__proto__" or
+// "toString" is just another name.
+const readStore = (): Record<string, unknown> => {
+  const store: Record<string, unknown> = Object.create(null);
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (isRecord(parsed)) Object.assign(store, parsed);
+  } catch (error) {
+    console.error("Scene library is unreadable:", error);
+  }
+  return store;
+};
+
+const writeStore = (store: Record<string, unknown>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+export const listScenes = (): SceneLibraryEntry[] => {
+  const store = readStore();
+  const entries: SceneLibraryEntry[] = [];
+  Object.values(store).forEach(raw => {
+    try {
+      const doc = parseScene(raw as object);
+      entries.push({ name: doc.name, updatedAt: doc.updatedAt, shapeCount: doc.content.shapes.length });
+    } catch (error) {
+      console.error("Skipping invalid stored scene:", error);
+    }
+  });
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadScene = (name: string): SceneDocument | null => {
+  const store = readStore();
+  return Object.hasOwn(store, name) ? parseScene(store[name] as object) : null;
+};
+
+// Saving under an existing name overwrites it but keeps the original creation time
+export const saveScene = (doc: SceneDocument): SceneDocument => {
+  const store = readStore();
+  const existing = Object.hasOwn(store, doc.name) ? store[doc.name] : undefined;
+  const saved: SceneDocument = {
+    ...doc,
+    createdAt: isRecord(existing) && typeof existing.createdAt === 'number' ? existing.createdAt : doc.createdAt,
+    updatedAt: Date.now()
+  };
+  store[doc.name] = saved;
+  writeStore(store);
+  return saved;
+};
+
+export const deleteScene = (name: string) => {
+  const store = readStore();
+  delete store[name];
+  writeStore(store);
+};
+
+// --- File import / export ---
+
+export const exportSceneFile = (doc: SceneDocument) => {
+  const blob = new Blob([serializeScene(doc)], { type: 'application/json' });
+  downloadBlob(blob, `${safeFileName(doc.name, 'scene')}${SCENE_FILE_EXTENSION}`);
+};
+
+export const importSceneFile = async (file: File): Promise<SceneDocument> => {
+  const text = await file.text();
+  return parseScene(text);
+};
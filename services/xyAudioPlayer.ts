@@ -0,0 +1,37 @@
+import { XySignal } from '../utils/xyAudio';
+
+// Live playback of XY signals through Web Audio, left channel to X and right to Y, so a
+// real oscilloscope on the headphone output draws what the screen shows.
+
+let context: AudioContext | null = null;
+let current: AudioBufferSourceNode | null = null;
+
+export const stopXySignal = () => {
+  current?.stop();
+  current?.disconnect();
+  current = null;
+};
+
+// Starts the signal (looping if asked), replacing anything already playing. The promise
+// resolves once audio is actually running; `onEnded` fires when a one-shot finishes.
+export const playXySignal = async (signal: XySignal, loop: boolean, onEnded?: () => void): Promise<void> => {
+  stopXySignal();
+  context ??= new AudioContext();
+  // Browsers start contexts suspended until a user gesture
+  if (context.state === 'suspended') await context.resume();
+
+  const buffer = context.createBuffer(2, signal.left.length, signal.sampleRate);
+  buffer.copyToChannel(signal.left, 0);
+  buffer.copyToChannel(signal.right, 1);
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = loop;
+  source.connect(context.destination);
+  source.onended = () => {
+    if (current === source) current = null;
+    onEnded?.();
+  };
+  source.start();
+  current = source;
+};
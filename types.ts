@@ -7,6 +7,8 @@ export interface ChatMessage {
   role: MessageRole;
   text: string;
   timestamp: number;
+  // Set on model replies that are still arriving, were stopped early or failed
+  status?: 'streaming' | 'stopped' | 'error';
 }
 
 export enum DisplayMode {
@@ -14,21 +16,140 @@ export enum DisplayMode {
   RASTER = 'RASTER'
 }
 
+// How the vector beam's phosphor trails are drawn
+export enum ScreenRenderer {
+  SVG = 'SVG', // one faded <path> per stroke
+  CANVAS = 'CANVAS' // per-pixel accumulation buffer with bloom
+}
+
 export enum ContentMode {
   PRESET = 'PRESET',
   DRAW = 'DRAW',
-  TEXT = 'TEXT'
+  TEXT = 'TEXT',
+  DVG = 'DVG',
+  GAME = 'GAME',
+  WIREFRAME = 'WIREFRAME',
+  AUDIO = 'AUDIO' // imported XY audio replayed as beam motion
 }
 
 export interface VectorPoint {
   x: number;
   y: number;
+  // Z input: beam intensity 0-1 for the vector arriving at this point (the closing vector
+  // for a closed shape's first point). 0 moves the beam blanked. Defaults to 1.
+  z?: number;
 }
 
 export interface VectorShape {
   id: string;
   points: VectorPoint[];
   closed: boolean;
+  intensity?: number; // beam brightness multiplier, 1 = nominal (used for depth cueing)
+  color?: string; // '#rrggbb'; defaults to the phosphor green
+}
+
+// Pen settings the DRAW and TEXT tools apply to what they create
+export interface BeamStyle {
+  color?: string; // undefined = phosphor green
+  z: number; // 0-1
+}
+
+export interface Vector3 {
+  x: number;
+  y: number; // up
+  z: number; // away from the viewer
+}
+
+// Polygon mesh for WIREFRAME mode. Faces and lines index into vertices.
+export interface Mesh {
+  id: string;
+  name: string;
+  vertices: Vector3[];
+  faces: number[][];
+  lines: number[][]; // free-standing polylines (OBJ "l" records)
+}
+
+// Deflection and refresh model for the vector beam (times in simulated ms)
+export interface BeamPhysics {
+  refreshRate: number; // target refreshes per simulated second; the frame budget is 1000 / refreshRate
+  bandwidth: number; // deflection amplifier natural frequency, rad/ms
+  damping: number; // amplifier damping ratio: < 1 overshoots, 1 is critically damped
+  settleTime: number; // ms the beam stays blanked after a jump before drawing
+}
+
+// Framebuffer used by RASTER mode
+export interface RasterSettings {
+  resolution: string; // id from RASTER_RESOLUTIONS
+  antialias: boolean; // Wu lines instead of Bresenham
+  interlaced: boolean; // even field then odd field
+}
+
+// One exponential term of a phosphor's decay: weight is its share of the initial brightness
+export interface DecayComponent {
+  weight: number;
+  tau: number; // time constant, real-time ms
+  color?: string; // '#rrggbb' if this term emits a different colour from the model
+}
+
+export type PhosphorDecay =
+  | { kind: 'exponential'; components: DecayComponent[] }
+  | { kind: 'power'; alpha: number; t0: number }; // brightness (1 + t / t0) ^ -alpha
+
+// Screen phosphor: emission colour, rise and decay after the beam leaves a spot
+export interface PhosphorModel {
+  id: string;
+  name: string;
+  description: string;
+  color: string; // '#rrggbb'
+  rise: number; // 1/e rise time, ms
+  decay: PhosphorDecay;
+}
+
+// Camera and projection for WIREFRAME mode (angles in degrees)
+export interface WireframeSettings {
+  meshId: string;
+  yaw: number;
+  pitch: number;
+  spin: number; // degrees of yaw per second
+  distance: number; // camera distance in model radii
+  fov: number; // vertical field of view
+  nearClip: boolean; // clip edges at the near plane instead of dropping them
+  depthCue: boolean; // dim edges with distance
+}
+
+// Where the explanation panel's text came from
+export type ExplanationSource = 'live' | 'cached' | 'offline';
+
+export interface Explanation {
+  text: string;
+  source: ExplanationSource;
+  updatedAt: number; // when the text was generated
+}
+
+// What is on screen, sent with every chat turn so follow-up questions can refer to it
+export interface SceneContext {
+  displayMode: DisplayMode;
+  contentMode: ContentMode;
+  beamSpeed: number; // 1-10
+  persistence: number; // ms, used by the STANDARD phosphor
+  phosphor: string; // phosphor type name
+  shapeCount: number;
+  vertexCount: number;
+}
+
+// Backend for explanations and chat
+export enum LlmProviderId {
+  GEMINI = 'GEMINI',
+  OPENAI = 'OPENAI', // any OpenAI-compatible chat completions endpoint (llama.cpp, Ollama, ...)
+  MOCK = 'MOCK' // canned offline answers
+}
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  geminiModel: string;
+  openAiBaseUrl: string; // up to and including /v1
+  openAiModel: string;
+  openAiApiKey: string; // empty for local servers that don't check
 }
 
 export interface GeminiConfig {
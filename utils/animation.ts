@@ -0,0 +1,206 @@
+import { VectorPoint, VectorShape } from '../types';
+
+// Keyframe animation of shapes on the vector screen.
+// A clip holds tracks; each track targets one shape or a group of shapes by id and can key
+// translate, rotate, scale, per-vertex morph and visibility. The screen evaluates the clip
+// once per beam cycle at the time that cycle starts, so motion is quantised to refreshes
+// just like on real hardware.
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+export interface Keyframe<T> {
+  time: number; // ms from clip start
+  value: T;
+  easing?: Easing; // curve used to arrive at this keyframe from the previous one
+}
+
+export interface AnimationTrack {
+  targets: string[]; // shape ids transformed together as a group
+  pivot?: VectorPoint; // centre for rotate/scale; defaults to the group's centroid
+  translate?: Keyframe<VectorPoint>[];
+  rotate?: Keyframe<number>[]; // degrees, clockwise on screen
+  scale?: Keyframe<number>[];
+  // Replacement vertex lists for a single target, blended point by point
+  morph?: Keyframe<VectorPoint[]>[];
+  visible?: Keyframe<boolean>[]; // always stepped
+}
+
+export interface AnimationClip {
+  id: string;
+  name: string;
+  duration: number; // ms
+  loop: boolean;
+  tracks: AnimationTrack[];
+}
+
+const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  step: t => (t < 1 ? 0 : 1)
+};
+
+// Finds the keyframes around `time` and the eased blend factor between them
+const locate = <T>(keys: Keyframe<T>[], time: number): { a: Keyframe<T>; b: Keyframe<T>; k: number } => {
+  if (time <= keys[0].time) return { a: keys[0], b: keys[0], k: 0 };
+  for (let i = 1; i < keys.length; i++) {
+    const b = keys[i];
+    if (time < b.time) {
+      const a = keys[i - 1];
+      const span = b.time - a.time;
+      const k = span > 0 ? EASINGS[b.easing ?? 'linear']((time - a.time) / span) : 1;
+      return { a, b, k };
+    }
+  }
+  const last = keys[keys.length - 1];
+  return { a: last, b: last, k: 0 };
+};
+
+const lerp = (a: number, b: number, k: number) => a + (b - a) * k;
+
+const sampleNumber = (keys: Keyframe<number>[] | undefined, time: number, fallback: number) => {
+  if (!keys || keys.length === 0) return fallback;
+  const { a, b, k } = locate(keys, time);
+  return lerp(a.value, b.value, k);
+};
+
+const samplePoint = (keys: Keyframe<VectorPoint>[] | undefined, time: number): VectorPoint => {
+  if (!keys || keys.length === 0) return { x: 0, y: 0 };
+  const { a, b, k } = locate(keys, time);
+  return { x: lerp(a.value.x, b.value.x, k), y: lerp(a.value.y, b.value.y, k) };
+};
+
+// Morph targets may differ in vertex count; the shorter list repeats its last vertex.
+// Z fades between targets too, so a vertex can be blanked or dimmed over time.
+const sampleMorph = (keys: Keyframe<VectorPoint[]>[], time: number): VectorPoint[] => {
+  const { a, b, k } = locate(keys, time);
+  const count = Math.max(a.value.length, b.value.length);
+  const at = (list: VectorPoint[], i: number) => list[Math.min(i, list.length - 1)];
+  return Array.from({ length: count }, (_, i) => {
+    const from = at(a.value, i);
+    const to = at(b.value, i);
+    const point: VectorPoint = { x: lerp(from.x, to.x, k), y: lerp(from.y, to.y, k) };
+    if (from.z !== undefined || to.z !== undefined) point.z = lerp(from.z ?? 1, to.z ?? 1, k);
+    return point;
+  });
+};
+
+const sampleVisible = (keys: Keyframe<boolean>[] | undefined, time: number) => {
+  if (!keys || keys.length === 0) return true;
+  const { a, b, k } = locate(keys, time);
+  return k >= 1 ? b.value : a.value;
+};
+
+const centroid = (shapes: VectorShape[]): VectorPoint => {
+  const points = shapes.flatMap(s => s.points);
+  if (points.length === 0) return { x: 50, y: 50 };
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+  };
+};
+
+// Wraps a raw time into the clip's range
+export const clipTime = (clip: AnimationClip, time: number) =>
+  clip.loop ? ((time % clip.duration) + clip.duration) % clip.duration : Math.max(0, Math.min(clip.duration, time));
+
+// Every keyed time in the clip, for timeline tick marks
+export const keyframeTimes = (clip: AnimationClip): number[] => {
+  const times = new Set<number>();
+  clip.tracks.forEach(track => {
+    [track.translate, track.rotate, track.scale, track.morph, track.visible].forEach(keys =>
+      keys?.forEach(key => times.add(key.time)));
+  });
+  return [...times].sort((a, b) => a - b);
+};
+
+export const evaluateClip = (clip: AnimationClip, shapes: VectorShape[], time: number): VectorShape[] => {
+  const t = clipTime(clip, time);
+  const byId = new Map(shapes.map(s => [s.id, s]));
+  const hidden = new Set<string>();
+
+  clip.tracks.forEach(track => {
+    const group = track.targets.map(id => byId.get(id)).filter((s): s is VectorShape => !!s);
+    if (group.length === 0) return;
+
+    if (!sampleVisible(track.visible, t)) {
+      group.forEach(s => hidden.add(s.id));
+      return;
+    }
+
+    const morphed = track.morph && track.morph.length > 0
+      ? group.map((s, i) => (i === 0 ? { ...s, points: sampleMorph(track.morph!, t) } : s))
+      : group;
+
+    const pivot = track.pivot ?? centroid(morphed);
+    const offset = samplePoint(track.translate, t);
+    const angle = (sampleNumber(track.rotate, t, 0) * Math.PI) / 180;
+    const scale = sampleNumber(track.scale, t, 1);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    morphed.forEach(shape => {
+      byId.set(shape.id, {
+        ...shape,
+        points: shape.points.map(p => {
+          const dx = (p.x - pivot.x) * scale;
+          const dy = (p.y - pivot.y) * scale;
+          return {
+            ...p,
+            x: pivot.x + dx * cos - dy * sin + offset.x,
+            y: pivot.y + dx * sin + dy * cos + offset.y
+          };
+        })
+      });
+    });
+  });
+
+  // Keep the original draw order
+  return shapes.filter(s => !hidden.has(s.id)).map(s => byId.get(s.id)!);
+};
+
+// Playback position shared by the screen and the timeline. Time only advances while playing;
+// the screen samples it at the start of each beam cycle. It reads the wall clock unless given
+// another `source`, such as the simulation clock, so pausing or slowing that holds the clip too.
+export class AnimationClock {
+  private origin = 0; // clip time when playback last started or was sought
+  private startedAt: number | null = null;
+  private source: () => number;
+  duration: number;
+  loop: boolean;
+
+  constructor(duration: number, loop = true, source: () => number = () => performance.now()) {
+    this.duration = duration;
+    this.loop = loop;
+    this.source = source;
+  }
+
+  get playing() {
+    return this.startedAt !== null;
+  }
+
+  time(now = this.source()): number {
+    const raw = this.startedAt === null ? this.origin : this.origin + (now - this.startedAt);
+    if (this.loop) return ((raw % this.duration) + this.duration) % this.duration;
+    return Math.max(0, Math.min(this.duration, raw));
+  }
+
+  play(now = this.source()) {
+    if (this.playing) return;
+    // A finished one-shot clip starts over
+    if (!this.loop && this.origin >= this.duration) this.origin = 0;
+    this.startedAt = now;
+  }
+
+  pause(now = this.source()) {
+    if (!this.playing) return;
+    this.origin = this.time(now);
+    this.startedAt = null;
+  }
+
+  seek(time: number, now = this.source()) {
+    this.origin = Math.max(0, Math.min(this.duration, time));
+    if (this.playing) this.startedAt = now;
+  }
+}
@@ -0,0 +1,294 @@
+import { VectorPoint, VectorShape } from '../types';
+import { FLAME_SHAPE, SHIP_SHAPE } from './sceneShapes';
+import { textToVectorShapes } from './vectorFont';
+
+// Rules for the GAME content mode: a small Asteroids clone in 0-100 logical space.
+// Everything here is pure; the session in services/gameSession.ts owns the clock and the keyboard.
+// Distances are logical units, times are seconds.
+
+export interface GameInput {
+  left: boolean;
+  right: boolean;
+  thrust: boolean;
+  fire: boolean;
+}
+
+interface Body {
+  id: number;
+  pos: VectorPoint;
+  vel: VectorPoint;
+}
+
+interface Ship extends Body {
+  angle: number; // radians, 0 = pointing up
+  thrusting: boolean;
+  invulnerable: number; // seconds left
+}
+
+interface Bullet extends Body {
+  life: number;
+}
+
+interface Rock extends Body {
+  size: number; // 3 = large, 1 = small
+  angle: number;
+  spin: number;
+  outline: VectorPoint[]; // unit-radius jagged polygon
+}
+
+export interface GameState {
+  ship: Ship | null; // null while waiting to respawn
+  bullets: Bullet[];
+  rocks: Rock[];
+  score: number;
+  lives: number;
+  wave: number;
+  respawnIn: number;
+  fireCooldown: number;
+  time: number;
+  over: boolean;
+  nextId: number;
+  seed: number;
+}
+
+const SHIP_SCALE = 0.3;
+const SHIP_RADIUS = 3;
+const TURN_RATE = 4.5; // rad/s
+const THRUST = 45;
+const DRAG = 0.6; // per second
+const MAX_SPEED = 60;
+const BULLET_SPEED = 70;
+const BULLET_LIFE = 0.9;
+const MAX_BULLETS = 4;
+const FIRE_INTERVAL = 0.2;
+const RESPAWN_DELAY = 2;
+const SPAWN_SHIELD = 2;
+const START_LIVES = 3;
+const ROCK_RADIUS: Record<number, number> = { 3: 9, 2: 5, 1: 2.5 };
+const ROCK_SCORE: Record<number, number> = { 3: 20, 2: 50, 1: 100 };
+
+// The ship and its exhaust are the preset shapes recentred on their pivot and shrunk
+const SHIP_PIVOT = { x: 50, y: 52 };
+const toLocal = (shape: VectorShape) => shape.points.map(p => ({
+  x: (p.x - SHIP_PIVOT.x) * SHIP_SCALE,
+  y: (p.y - SHIP_PIVOT.y) * SHIP_SCALE
+}));
+const SHIP_OUTLINE = toLocal(SHIP_SHAPE);
+const FLAME_OUTLINE = toLocal(FLAME_SHAPE);
+
+// mulberry32: deterministic so a seed replays the same rock field
+const random = (state: GameState) => {
+  state.seed = (state.seed + 0x6d2b79f5) | 0;
+  let t = state.seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const wrap = (v: number) => ((v % 100) + 100) % 100;
+
+// Shortest distance on the wrapped playfield
+const wrappedDistance = (a: VectorPoint, b: VectorPoint) => {
+  let dx = Math.abs(a.x - b.x);
+  let dy = Math.abs(a.y - b.y);
+  if (dx > 50) dx = 100 - dx;
+  if (dy > 50) dy = 100 - dy;
+  return Math.hypot(dx, dy);
+};
+
+const makeRock = (state: GameState, size: number, pos: VectorPoint): Rock => {
+  const heading = random(state) * Math.PI * 2;
+  const speed = (8 + random(state) * 10) * (1 + (3 - size) * 0.4);
+  const vertices = 9 + Math.floor(random(state) * 3);
+  const outline = Array.from({ length: vertices }, (_, i) => {
+    const a = (i / vertices) * Math.PI * 2;
+    const r = 0.75 + random(state) * 0.35;
+    return { x: Math.cos(a) * r, y: Math.sin(a) * r };
+  });
+  return {
+    id: state.nextId++,
+    pos: { ...pos },
+    vel: { x: Math.cos(heading) * speed, y: Math.sin(heading) * speed },
+    size,
+    angle: 0,
+    spin: (random(state) - 0.5) * 2,
+    outline
+  };
+};
+
+const spawnShip = (state: GameState): Ship => ({
+  id: state.nextId++,
+  pos: { x: 50, y: 50 },
+  vel: { x: 0, y: 0 },
+  angle: 0,
+  thrusting: false,
+  invulnerable: SPAWN_SHIELD
+});
+
+// Large rocks around the edges, clear of the centre where the ship spawns
+const spawnWave = (state: GameState) => {
+  const count = 3 + state.wave;
+  for (let i = 0; i < count; i++) {
+    const edge = random(state) * 100;
+    const pos = random(state) < 0.5 ? { x: edge, y: random(state) < 0.5 ? 2 : 98 } : { x: random(state) < 0.5 ? 2 : 98, y: edge };
+    state.rocks.push(makeRock(state, 3, pos));
+  }
+};
+
+export const createGame = (seed = Date.now()): GameState => {
+  const state: GameState = {
+    ship: null,
+    bullets: [],
+    rocks: [],
+    score: 0,
+    lives: START_LIVES,
+    wave: 1,
+    respawnIn: 0,
+    fireCooldown: 0,
+    time: 0,
+    over: false,
+    nextId: 1,
+    seed
+  };
+  state.ship = spawnShip(state);
+  spawnWave(state);
+  return state;
+};
+
+const move = <T extends Body>(body: T, dt: number): T => ({
+  ...body,
+  pos: { x: wrap(body.pos.x + body.vel.x * dt), y: wrap(body.pos.y + body.vel.y * dt) }
+});
+
+// Advances the game by dt seconds. The input is the set of keys held during the step.
+export const stepGame = (prev: GameState, input: GameInput, dt: number): GameState => {
+  const state: GameState = { ...prev, bullets: [...prev.bullets], rocks: [...prev.rocks] };
+  state.time += dt;
+  state.fireCooldown = Math.max(0, state.fireCooldown - dt);
+
+  // Ship
+  if (state.ship) {
+    const ship = { ...state.ship };
+    if (input.left) ship.angle -= TURN_RATE * dt;
+    if (input.right) ship.angle += TURN_RATE * dt;
+    ship.thrusting = input.thrust;
+    if (input.thrust) {
+      ship.vel = {
+        x: ship.vel.x + Math.sin(ship.angle) * THRUST * dt,
+        y: ship.vel.y - Math.cos(ship.angle) * THRUST * dt
+      };
+    }
+    const drag = Math.exp(-DRAG * dt);
+    ship.vel = { x: ship.vel.x * drag, y: ship.vel.y * drag };
+    const speed = Math.hypot(ship.vel.x, ship.vel.y);
+    if (speed > MAX_SPEED) ship.vel = { x: (ship.vel.x / speed) * MAX_SPEED, y: (ship.vel.y / speed) * MAX_SPEED };
+    ship.invulnerable = Math.max(0, ship.invulnerable - dt);
+    state.ship = move(ship, dt);
+
+    if (input.fire && state.fireCooldown === 0 && state.bullets.length < MAX_BULLETS) {
+      const nose = { x: Math.sin(ship.angle), y: -Math.cos(ship.angle) };
+      state.bullets.push({
+        id: state.nextId++,
+        pos: { x: wrap(state.ship.pos.x + nose.x * 3), y: wrap(state.ship.pos.y + nose.y * 3) },
+        vel: { x: ship.vel.x + nose.x * BULLET_SPEED, y: ship.vel.y + nose.y * BULLET_SPEED },
+        life: BULLET_LIFE
+      });
+      state.fireCooldown = FIRE_INTERVAL;
+    }
+  } else if (!state.over) {
+    state.respawnIn -= dt;
+    if (state.respawnIn <= 0) state.ship = spawnShip(state);
+  }
+
+  state.bullets = state.bullets
+    .map(b => ({ ...move(b, dt), life: b.life - dt }))
+    .filter(b => b.life > 0);
+  state.rocks = state.rocks.map(r => ({ ...move(r, dt), angle: r.angle + r.spin * dt }));
+
+  // Bullet hits split rocks
+  const spent = new Set<number>();
+  const survivors: Rock[] = [];
+  state.rocks.forEach(rock => {
+    const hit = state.bullets.find(b => !spent.has(b.id) && wrappedDistance(b.pos, rock.pos) < ROCK_RADIUS[rock.size]);
+    if (!hit) {
+      survivors.push(rock);
+      return;
+    }
+    spent.add(hit.id);
+    state.score += ROCK_SCORE[rock.size];
+    if (rock.size > 1) {
+      survivors.push(makeRock(state, rock.size - 1, rock.pos), makeRock(state, rock.size - 1, rock.pos));
+    }
+  });
+  state.rocks = survivors;
+  state.bullets = state.bullets.filter(b => !spent.has(b.id));
+
+  // Rock hits ship
+  const ship = state.ship;
+  if (ship && ship.invulnerable === 0 && state.rocks.some(r => wrappedDistance(r.pos, ship.pos) < ROCK_RADIUS[r.size] + SHIP_RADIUS)) {
+    state.ship = null;
+    state.lives -= 1;
+    state.respawnIn = RESPAWN_DELAY;
+    state.over = state.lives <= 0;
+  }
+
+  if (state.rocks.length === 0) {
+    state.wave += 1;
+    spawnWave(state);
+  }
+  return state;
+};
+
+// --- Display list ---
+
+const placeOutline = (outline: VectorPoint[], pos: VectorPoint, angle: number, scale = 1) => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return outline.map(p => ({
+    x: pos.x + (p.x * cos - p.y * sin) * scale,
+    y: pos.y + (p.x * sin + p.y * cos) * scale
+  }));
+};
+
+export const gameToShapes = (state: GameState): VectorShape[] => {
+  const shapes: VectorShape[] = [];
+
+  state.rocks.forEach(rock => {
+    shapes.push({
+      id: `rock-${rock.id}`,
+      points: placeOutline(rock.outline, rock.pos, rock.angle, ROCK_RADIUS[rock.size]),
+      closed: true
+    });
+  });
+
+  const ship = state.ship;
+  // Blink while the spawn shield is up
+  if (ship && (ship.invulnerable === 0 || Math.floor(state.time * 8) % 2 === 0)) {
+    shapes.push({ id: 'ship', points: placeOutline(SHIP_OUTLINE, ship.pos, ship.angle), closed: true });
+    if (ship.thrusting && Math.floor(state.time * 20) % 2 === 0) {
+      shapes.push({ id: 'flame', points: placeOutline(FLAME_OUTLINE, ship.pos, ship.angle), closed: false });
+    }
+  }
+
+  // Bullets are single points: the beam dwells on them, so they show as bright dots
+  state.bullets.forEach(b => shapes.push({ id: `bullet-${b.id}`, points: [{ ...b.pos }], closed: false }));
+
+  // Text shape ids are only unique within one string, so each string gets a prefix
+  const text = (prefix: string, value: string, x: number, y: number, size: number) =>
+    textToVectorShapes(value, x, y, size).map(s => ({ ...s, id: `${prefix}-${s.id}` }));
+
+  shapes.push(...text('score', String(state.score).padStart(5, '0'), 3, 3, 4));
+  for (let i = 0; i < state.lives; i++) {
+    shapes.push({
+      id: `life-${i}`,
+      points: placeOutline(SHIP_OUTLINE, { x: 95 - i * 5, y: 6 }, 0, 0.6),
+      closed: true
+    });
+  }
+
+  if (state.over) {
+    shapes.push(...text('over', 'GAME OVER', 30, 42, 5));
+    shapes.push(...text('prompt', 'PRESS ENTER', 33, 54, 3));
+  }
+  return shapes;
+};
@@ -0,0 +1,131 @@
+import { BeamPhysics, VectorPoint, VectorShape } from '../types';
+
+// Simulates the deflection system of a vector monitor for one frame of a display list.
+// The vector generator produces a commanded position, ramping along each segment at the
+// writing speed and slewing across blanked jumps. The yoke amplifiers follow it as a damped
+// second-order system, so corners round off and overshoot, and a beam unblanked before it
+// settles draws a visible hook. Brightness follows dwell time: the slower the beam moves,
+// the more energy each spot of phosphor receives.
+// All times are in simulated milliseconds, the same slowed-down clock RetroScreen animates on.
+
+// Beam timing. Lit strokes are drawn at a fixed writing rate; a blanked jump slews at a rate
+// proportional to its distance, then waits out the settle time before unblanking.
+export const BLANK_SETTLE_MS = 50;
+export const BLANK_MS_PER_UNIT = 3;
+export const LIT_MS_PER_UNIT = 90; // ~ (5 px/unit * 15) / 0.8 at the nominal screen size
+
+export const DEFAULT_BEAM_PHYSICS: BeamPhysics = {
+  refreshRate: 0.5,
+  bandwidth: 0.15,
+  damping: 0.6,
+  settleTime: BLANK_SETTLE_MS
+};
+
+export interface BeamSample {
+  t: number; // ms from frame start
+  x: number; // logical 0-100
+  y: number;
+  lit: boolean;
+  intensity: number; // 1 = nominal writing brightness
+  color?: string; // shape colour while lit; undefined is the phosphor's own
+  vector?: number; // which commanded move (vector, blanked jump or settle) produced the sample
+}
+
+export interface BeamFrame {
+  samples: BeamSample[];
+  duration: number; // time the vector generator is busy
+  budget: number; // refresh period the frame should fit in
+  period: number; // actual refresh period: whole multiples of the budget
+  load: number; // duration / budget
+}
+
+// Beam time runs this much faster than wall-clock time for content that moves on its own
+// (GAME, WIREFRAME). The educational default replays a refresh over seconds, which no one can
+// steer or follow; scaled up, a few dozen shapes refresh at a watchable rate and an
+// overloaded display list still visibly flickers.
+export const REALTIME_TIME_SCALE = 100;
+
+const SAMPLE_DT = 1;
+const DOT_DWELL_MS = 100;
+const MIN_INTENSITY = 0.3;
+const MAX_INTENSITY = 3;
+
+export const simulateBeamFrame = (shapes: VectorShape[], physics: BeamPhysics, beamSpeed: number): BeamFrame => {
+  const samples: BeamSample[] = [];
+  const writeSpeed = beamSpeed / LIT_MS_PER_UNIT; // units per ms
+  const omega = Math.max(0.005, physics.bandwidth);
+  const zeta = Math.max(0.05, physics.damping);
+  const list = shapes.filter(s => s.points.length > 0);
+
+  const budget = 1000 / Math.max(0.01, physics.refreshRate);
+  if (list.length === 0) return { samples, duration: 0, budget, period: budget, load: 0 };
+
+  // The frame loops, so the beam starts where the previous frame left it
+  const last = list[list.length - 1];
+  const lastPoint = last.closed && last.points.length > 2 ? last.points[0] : last.points[last.points.length - 1];
+  let pos = { ...lastPoint };
+  const vel = { x: 0, y: 0 };
+  let t = 0;
+  let gain = 1; // brightness multiplier of the vector being drawn
+  let color: string | undefined;
+  let vector = -1;
+
+  // Advance the amplifier model one step towards the commanded position
+  const step = (command: VectorPoint, lit: boolean) => {
+    vel.x += (omega * omega * (command.x - pos.x) - 2 * zeta * omega * vel.x) * SAMPLE_DT;
+    vel.y += (omega * omega * (command.y - pos.y) - 2 * zeta * omega * vel.y) * SAMPLE_DT;
+    pos = { x: pos.x + vel.x * SAMPLE_DT, y: pos.y + vel.y * SAMPLE_DT };
+    t += SAMPLE_DT;
+
+    const speed = Math.hypot(vel.x, vel.y);
+    const intensity = lit
+      ? gain * Math.min(MAX_INTENSITY, Math.max(MIN_INTENSITY, writeSpeed / Math.max(speed, writeSpeed / MAX_INTENSITY)))
+      : 0;
+    samples.push(lit ? { t, x: pos.x, y: pos.y, lit, intensity, color, vector } : { t, x: pos.x, y: pos.y, lit, intensity, vector });
+  };
+
+  // Commanded position ramps linearly from a to b over the given time
+  const ramp = (a: VectorPoint, b: VectorPoint, duration: number, lit: boolean) => {
+    vector++;
+    const steps = Math.max(1, Math.round(duration / SAMPLE_DT));
+    for (let i = 1; i <= steps; i++) {
+      const k = i / steps;
+      step({ x: a.x + (b.x - a.x) * k, y: a.y + (b.y - a.y) * k }, lit);
+    }
+  };
+
+  const hold = (p: VectorPoint, duration: number, lit: boolean) => ramp(p, p, duration, lit);
+
+  let command = { ...pos };
+  list.forEach(shape => {
+    const points = shape.closed && shape.points.length > 2 ? [...shape.points, shape.points[0]] : shape.points;
+
+    // Blanked jump, then wait for the deflection to settle before unblanking
+    const jump = Math.hypot(points[0].x - command.x, points[0].y - command.y);
+    ramp(command, points[0], (jump * BLANK_MS_PER_UNIT) / beamSpeed, false);
+    hold(points[0], physics.settleTime / beamSpeed, false);
+    command = points[0];
+    color = shape.color;
+    const shapeGain = shape.intensity ?? 1;
+
+    if (points.length === 1) {
+      const z = points[0].z ?? 1;
+      gain = shapeGain * z;
+      hold(points[0], DOT_DWELL_MS / beamSpeed, z > 0);
+      return;
+    }
+
+    for (let i = 1; i < points.length; i++) {
+      // Z modulates the beam per vector; a zero-Z vector is a blanked move at writing speed
+      const z = points[i].z ?? 1;
+      gain = shapeGain * z;
+      const len = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+      ramp(points[i - 1], points[i], len / writeSpeed, z > 0);
+    }
+    command = points[points.length - 1];
+  });
+
+  const duration = t;
+  const refreshes = Math.max(1, Math.ceil(duration / budget));
+  return { samples, duration, budget, period: refreshes * budget, load: duration / budget };
+};
@@ -0,0 +1,112 @@
+import { BeamFrame, BeamSample } from './beamPhysics';
+import { Framebuffer } from './rasterizer';
+
+// The signals on a monitor's inputs, as an oscilloscope across them would show: X and Y
+// deflection, blanking and intensity against time. A simulated vector frame already is
+// that. A raster frame is synthesised from the sweep: X is a fast sawtooth per line, Y a
+// slow one per field, and the beam is unblanked wherever the framebuffer is lit.
+
+// One frame of beam signals, timed from when the screen started drawing it
+export interface BeamCapture {
+  frame: BeamFrame;
+  cycleStart: number; // beam ms on the simulation clock at the frame's t = 0
+  timeScale: number; // beam ms per simulated ms
+}
+
+// One commanded move of the beam, or where the frame doesn't say (a raster sweep), a stretch
+// with the beam either drawing or blanked throughout
+export interface BeamSegment {
+  start: number; // sample indices, inclusive
+  end: number;
+  t0: number;
+  t1: number;
+  lit: boolean;
+}
+
+// Share of each line and of each field spent in retrace with the beam blanked, close to NTSC
+const H_BLANK = 0.17;
+const V_BLANK = 0.08;
+const RETRACE_SAMPLES = 3;
+
+export const rasterBeamFrame = (
+  framebuffer: Framebuffer,
+  rows: number[],
+  period: number,
+  samplesPerLine = 32
+): BeamFrame => {
+  const samples: BeamSample[] = [];
+  const { width, height, pixels } = framebuffer;
+  // Interlaced scans start a new field wherever the row order jumps back up
+  const fields = 1 + rows.filter((row, i) => i > 0 && row < rows[i - 1]).length;
+  const lineTime = (period * (1 - V_BLANK)) / Math.max(1, rows.length);
+  const fieldRetrace = (period * V_BLANK) / fields;
+  const rowY = (row: number) => ((row + 0.5) / height) * 100;
+
+  let t = 0;
+  const retrace = (from: { x: number; y: number }, to: { x: number; y: number }, duration: number, vector?: number) => {
+    for (let i = 1; i <= RETRACE_SAMPLES; i++) {
+      const k = i / RETRACE_SAMPLES;
+      samples.push({
+        t: t + duration * k,
+        x: from.x + (to.x - from.x) * k,
+        y: from.y + (to.y - from.y) * k,
+        lit: false,
+        intensity: 0,
+        vector
+      });
+    }
+    t += duration;
+  };
+
+  // Each line, with its horizontal retrace, counts as one move: vector is its index in rows
+  rows.forEach((row, i) => {
+    const y = rowY(row);
+    if (i > 0 && row < rows[i - 1]) retrace({ x: 0, y: rowY(rows[i - 1]) }, { x: 0, y }, fieldRetrace);
+
+    // Each sample carries the brightest pixel it passes, so one-pixel lines still show
+    const active = lineTime * (1 - H_BLANK);
+    for (let s = 0; s < samplesPerLine; s++) {
+      const from = Math.floor((s * width) / samplesPerLine);
+      const to = Math.max(from + 1, Math.floor(((s + 1) * width) / samplesPerLine));
+      let intensity = 0;
+      for (let col = from; col < to; col++) intensity = Math.max(intensity, pixels[row * width + col]);
+      samples.push({ t: t + (active * (s + 1)) / samplesPerLine, x: ((s + 1) / samplesPerLine) * 100, y, lit: intensity > 0, intensity, vector: i });
+    }
+    t += active;
+    retrace({ x: 100, y }, { x: 0, y }, lineTime * H_BLANK, i);
+  });
+  if (rows.length > 0) retrace({ x: 0, y: rowY(rows[rows.length - 1]) }, { x: 0, y: rowY(rows[0]) }, fieldRetrace);
+
+  // A raster frame always takes exactly its period, whatever is on screen
+  return { samples, duration: period, budget: period, period, load: 1 };
+};
+
+export const beamSegments = (frame: BeamFrame): BeamSegment[] => {
+  const segments: BeamSegment[] = [];
+  frame.samples.forEach((sample, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.lit === sample.lit && sample.vector === frame.samples[last.end].vector) {
+      last.end = i;
+      last.t1 = sample.t;
+    } else {
+      // Segments meet at the sample where the beam switches
+      const t0 = i > 0 ? frame.samples[i - 1].t : 0;
+      segments.push({ start: i, end: i, t0, t1: sample.t, lit: sample.lit });
+    }
+  });
+  return segments;
+};
+
+// Last sample at or before t
+export const sampleAt = (frame: BeamFrame, t: number): BeamSample | null => {
+  const { samples } = frame;
+  if (samples.length === 0 || t < samples[0].t) return samples[0] ?? null;
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (samples[mid].t <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return samples[lo];
+};
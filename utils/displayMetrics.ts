@@ -0,0 +1,65 @@
+import { VectorShape } from '../types';
+import { BeamFrame } from './beamPhysics';
+import { compileShapes } from './dvg';
+import { Framebuffer } from './rasterizer';
+
+// Figures for comparing the two ways of drawing one scene: how much of the screen is lit,
+// how long a refresh takes and how much memory the picture needs. Times are beam ms, the
+// same slowed-down clock the screen animates on.
+
+export interface VectorMetrics {
+  vectors: number;
+  litLength: number; // logical units; the screen is 100 across
+  refreshTime: number; // time the beam is busy drawing the list
+  period: number; // refresh slot actually used
+  load: number;
+  displayListBytes: number; // as compiled for Atari's DVG, 16-bit words
+}
+
+export interface RasterMetrics {
+  litPixels: number;
+  totalPixels: number;
+  refreshTime: number; // one full sweep
+  framebufferBytes: number;
+}
+
+// Z = 0 segments are blanked moves and don't light anything
+export const litVectorLength = (shapes: VectorShape[]) =>
+  shapes.reduce((total, shape) => {
+    const points = shape.closed && shape.points.length > 2 ? [...shape.points, shape.points[0]] : shape.points;
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      if ((points[i].z ?? 1) > 0) length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+    return total + length;
+  }, 0);
+
+export const vectorMetrics = (shapes: VectorShape[], frame: BeamFrame): VectorMetrics => {
+  const drawn = shapes.filter(s => s.points.length > 0);
+  return {
+    vectors: drawn.reduce((n, s) => n + Math.max(1, s.points.length - 1 + (s.closed && s.points.length > 2 ? 1 : 0)), 0),
+    litLength: litVectorLength(drawn),
+    refreshTime: frame.duration,
+    period: frame.period,
+    load: frame.load,
+    displayListBytes: compileShapes(drawn).length * 2
+  };
+};
+
+// Anti-aliased framebuffers need grey levels; a plain one gets by with a bit per pixel
+export const framebufferBytes = (width: number, height: number, antialias: boolean) =>
+  Math.ceil((width * height * (antialias ? 8 : 1)) / 8);
+
+export const rasterMetrics = (framebuffer: Framebuffer, refreshTime: number, antialias: boolean): RasterMetrics => {
+  let litPixels = 0;
+  for (let i = 0; i < framebuffer.pixels.length; i++) if (framebuffer.pixels[i] > 0) litPixels++;
+  return {
+    litPixels,
+    totalPixels: framebuffer.width * framebuffer.height,
+    refreshTime,
+    framebufferBytes: framebufferBytes(framebuffer.width, framebuffer.height, antialias)
+  };
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(bytes < 10240 ? 1 : 0)} KB`;
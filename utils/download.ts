@@ -0,0 +1,16 @@
+// Trigger a browser download for generated content
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a tick to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Strip characters that are unsafe in file names
+export const safeFileName = (name: string, fallback: string) =>
+  name.trim().replace(/[^a-z0-9-_]+/gi, '_') || fallback;
@@ -0,0 +1,229 @@
+import { BeamPhysics, VectorPoint, VectorShape } from '../types';
+import { simulateBeamFrame } from './beamPhysics';
+
+// Beam travel analysis and draw-order optimisation for a display list.
+// The list is refreshed in a loop, so the jump from the last stroke back to the first
+// counts as blanked travel too.
+
+export interface DrawListStats {
+  strokes: number;
+  litLength: number; // 0-100 logical units
+  blankLength: number;
+  frameTimeMs: number; // time the beam takes over the list, as the screen simulates it
+}
+
+export interface OptimizeOptions {
+  mergeTolerance?: number; // endpoints closer than this are joined (logical units)
+  maxPasses?: number; // 2-opt improvement passes
+}
+
+const dist = (a: VectorPoint, b: VectorPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Points in drawing order, with closed shapes returning to their first vertex
+const tracePoints = (shape: VectorShape) =>
+  shape.closed && shape.points.length > 2 ? [...shape.points, shape.points[0]] : shape.points;
+
+const startOf = (shape: VectorShape) => shape.points[0];
+const endOf = (shape: VectorShape) =>
+  shape.closed && shape.points.length > 2 ? shape.points[0] : shape.points[shape.points.length - 1];
+
+const strokeLength = (shape: VectorShape) => {
+  const pts = tracePoints(shape);
+  let len = 0;
+  for (let i = 1; i < pts.length; i++) len += dist(pts[i - 1], pts[i]);
+  return len;
+};
+
+// Frame time comes from the same beam simulation the screen runs, so it follows the
+// physics settings and matches the load the screen shows
+export const measureDrawList = (shapes: VectorShape[], physics: BeamPhysics, beamSpeed: number): DrawListStats => {
+  const list = shapes.filter(s => s.points.length > 0);
+  let litLength = 0;
+  let blankLength = 0;
+
+  list.forEach((shape, i) => {
+    const prev = list[(i - 1 + list.length) % list.length];
+    litLength += strokeLength(shape);
+    blankLength += dist(endOf(prev), startOf(shape));
+  });
+
+  const frameTimeMs = simulateBeamFrame(list, physics, beamSpeed).duration;
+  return { strokes: list.length, litLength, blankLength, frameTimeMs };
+};
+
+// --- Optimisation ---
+
+const hasVertexZ = (shape: VectorShape) => shape.points.some(p => p.z !== undefined);
+
+const reverseShape = (shape: VectorShape): VectorShape => {
+  let points: VectorPoint[];
+  if (!shape.closed) {
+    points = [...shape.points].reverse();
+  } else {
+    // Closed: keep the entry vertex, trace the other way round
+    const [first, ...rest] = shape.points;
+    points = [first, ...rest.reverse()];
+  }
+  if (!hasVertexZ(shape)) return { ...shape, points };
+  // Z belongs to the vector arriving at a point, so reversed, each point takes its
+  // predecessor's Z (cyclically, which also covers a closed shape's closing vector)
+  return { ...shape, points: points.map((p, i) => ({ ...p, z: points[(i - 1 + points.length) % points.length].z })) };
+};
+
+// Closed outlines can be entered at any vertex
+const rotateToNearest = (shape: VectorShape, from: VectorPoint): VectorShape => {
+  let best = 0;
+  shape.points.forEach((p, i) => {
+    if (dist(p, from) < dist(shape.points[best], from)) best = i;
+  });
+  return best === 0 ? shape : { ...shape, points: [...shape.points.slice(best), ...shape.points.slice(0, best)] };
+};
+
+// Joins open strokes end-to-end wherever their endpoints meet. Endpoints are bucketed on a
+// tolerance-sized grid so chaining stays linear for large imports. Only strokes of the same
+// intensity and colour are joined, so depth-cued edges keep their brightness; strokes with
+// per-vertex Z are left alone.
+export const mergeStrokes = (shapes: VectorShape[], tolerance = 0.01): VectorShape[] => {
+  const mergeable = (s: VectorShape) => !s.closed && s.points.length > 1 && !hasVertexZ(s);
+  const open = shapes.filter(mergeable);
+  const result: VectorShape[] = shapes.filter(s => !mergeable(s));
+  const key = (p: VectorPoint) => `${Math.round(p.x / tolerance)},${Math.round(p.y / tolerance)}`;
+
+  const index = new Map<string, Set<number>>();
+  const addEnd = (p: VectorPoint, i: number) => {
+    const k = key(p);
+    if (!index.has(k)) index.set(k, new Set());
+    index.get(k)!.add(i);
+  };
+  const removeEnds = (i: number) => {
+    index.get(key(startOf(open[i])))?.delete(i);
+    index.get(key(endOf(open[i])))?.delete(i);
+  };
+  open.forEach((s, i) => {
+    addEnd(startOf(s), i);
+    addEnd(endOf(s), i);
+  });
+
+  // Takes an unused stroke touching p, oriented so that it starts at p
+  const takeFrom = (p: VectorPoint, like: VectorShape): VectorPoint[] | null => {
+    const candidates = index.get(key(p));
+    if (!candidates) return null;
+    const i = [...candidates].find(c => open[c].intensity === like.intensity && open[c].color === like.color);
+    if (i === undefined) return null;
+    removeEnds(i);
+    const pts = open[i].points;
+    return key(startOf(open[i])) === key(p) ? pts : [...pts].reverse();
+  };
+
+  let merged = 0;
+  open.forEach((shape, i) => {
+    if (!index.get(key(startOf(shape)))?.has(i)) return; // already chained
+    removeEnds(i);
+    let chain = [...shape.points];
+    let joins = 0;
+
+    let next: VectorPoint[] | null;
+    while ((next = takeFrom(chain[chain.length - 1], shape))) {
+      chain = [...chain, ...next.slice(1)];
+      joins++;
+    }
+    while ((next = takeFrom(chain[0], shape))) {
+      chain = [...[...next].reverse(), ...chain.slice(1)];
+      joins++;
+    }
+
+    if (joins === 0) {
+      result.push(shape);
+      return;
+    }
+    // A chain that comes back to its own start is really an outline
+    const closes = chain.length > 3 && dist(chain[0], chain[chain.length - 1]) <= tolerance;
+    result.push({
+      ...shape,
+      id: `merged-${merged++}`,
+      points: closes ? chain.slice(0, -1) : chain,
+      closed: closes
+    });
+  });
+  return result;
+};
+
+const nearestNeighbour = (shapes: VectorShape[], origin: VectorPoint): VectorShape[] => {
+  const remaining = [...shapes];
+  const ordered: VectorShape[] = [];
+  let pos = origin;
+
+  while (remaining.length > 0) {
+    let bestIdx = 0;
+    let bestDist = Infinity;
+
+    // Score every candidate by its nearest entry point; only the winner is re-oriented
+    remaining.forEach((shape, idx) => {
+      let d: number;
+      if (shape.closed) {
+        d = shape.points.reduce((nearest, p) => Math.min(nearest, dist(p, pos)), Infinity);
+      } else {
+        d = Math.min(dist(startOf(shape), pos), dist(endOf(shape), pos));
+      }
+      if (d < bestDist) {
+        bestDist = d;
+        bestIdx = idx;
+      }
+    });
+
+    const best = remaining[bestIdx];
+    let bestShape = best;
+    if (best.closed) {
+      bestShape = rotateToNearest(best, pos);
+    } else if (dist(endOf(best), pos) < dist(startOf(best), pos)) {
+      bestShape = reverseShape(best);
+    }
+
+    ordered.push(bestShape);
+    remaining.splice(bestIdx, 1);
+    pos = endOf(bestShape);
+  }
+  return ordered;
+};
+
+// 2-opt on the cyclic tour: reversing a run of strokes also reverses each stroke in it,
+// which covers single-stroke flips when the run has length one. Runs are capped at `window`
+// strokes, which keeps long lists interactive while still fixing local crossings.
+const twoOpt = (tour: VectorShape[], maxPasses: number, window: number): VectorShape[] => {
+  const n = tour.length;
+  if (n < 2) return tour;
+  const order = [...tour];
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+    for (let i = 0; i < n; i++) {
+      for (let j = i; j < Math.min(n, i + window); j++) {
+        if (i === 0 && j === n - 1) continue;
+        const before = order[(i - 1 + n) % n];
+        const after = order[(j + 1) % n];
+        const first = order[i];
+        const last = order[j];
+        const current = dist(endOf(before), startOf(first)) + dist(endOf(last), startOf(after));
+        const flipped = dist(endOf(before), endOf(last)) + dist(startOf(first), startOf(after));
+        if (flipped < current - 1e-9) {
+          const run = order.slice(i, j + 1).reverse().map(reverseShape);
+          order.splice(i, run.length, ...run);
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return order;
+};
+
+export const optimizeDrawOrder = (shapes: VectorShape[], options: OptimizeOptions = {}): VectorShape[] => {
+  const list = shapes.filter(s => s.points.length > 0);
+  if (list.length < 2) return list;
+
+  const merged = mergeStrokes(list, options.mergeTolerance ?? 0.01);
+  const tour = nearestNeighbour(merged, startOf(list[0]));
+  // 2-opt is O(n^2) per pass; keep it bounded for very long display lists
+  const large = tour.length > 600;
+  return twoOpt(tour, options.maxPasses ?? (large ? 3 : 8), large ? 120 : tour.length);
+};
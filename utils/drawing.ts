@@ -0,0 +1,152 @@
+import { VectorPoint, VectorShape } from '../types';
+
+// Editable DRAW mode scene: a list of strokes plus the one the pen is currently on.
+// activeId === null means the pen is up and the next click starts a new stroke.
+export interface DrawingState {
+  shapes: VectorShape[];
+  activeId: string | null;
+}
+
+export interface DrawingHistory {
+  past: DrawingState[];
+  present: DrawingState;
+  future: DrawingState[];
+}
+
+export interface VertexRef {
+  shapeId: string;
+  index: number;
+}
+
+const MAX_HISTORY = 200;
+
+let strokeCounter = 0;
+export const nextStrokeId = () => `stroke-${Date.now().toString(36)}-${strokeCounter++}`;
+
+export const emptyDrawing = (): DrawingState => ({ shapes: [], activeId: null });
+
+export const createHistory = (initial: DrawingState = emptyDrawing()): DrawingHistory => ({
+  past: [],
+  present: initial,
+  future: []
+});
+
+// Push a new state, dropping the redo branch
+export const commit = (history: DrawingHistory, next: DrawingState): DrawingHistory => {
+  if (next === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: next,
+    future: []
+  };
+};
+
+// Swap the present state without recording an undo step (used while dragging)
+export const replacePresent = (history: DrawingHistory, next: DrawingState): DrawingHistory => ({
+  ...history,
+  present: next
+});
+
+export const undo = (history: DrawingHistory): DrawingHistory => {
+  if (history.past.length === 0) return history;
+  const previous = history.past[history.past.length - 1];
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redo = (history: DrawingHistory): DrawingHistory => {
+  if (history.future.length === 0) return history;
+  const [next, ...rest] = history.future;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future: rest
+  };
+};
+
+// --- Drawing operations (pure, return a new DrawingState) ---
+
+// `color` only applies when the point starts a new stroke
+export const addPoint = (state: DrawingState, point: VectorPoint, color?: string): DrawingState => {
+  const active = state.shapes.find(s => s.id === state.activeId);
+
+  // Pen down on a fresh stroke
+  if (!active || active.closed) {
+    const shape: VectorShape = { id: nextStrokeId(), points: [point], closed: false };
+    if (color) shape.color = color;
+    return { shapes: [...state.shapes, shape], activeId: shape.id };
+  }
+
+  return {
+    ...state,
+    shapes: state.shapes.map(s => s.id === active.id ? { ...s, points: [...s.points, point] } : s)
+  };
+};
+
+// Append externally produced shapes (imports, generators) as new strokes with fresh ids
+export const addShapes = (state: DrawingState, shapes: VectorShape[]): DrawingState => ({
+  shapes: [...state.shapes, ...shapes.map(s => ({ ...s, id: nextStrokeId() }))],
+  activeId: null
+});
+
+// Lift the pen: the beam is blanked and the next point begins a new stroke
+export const penUp = (state: DrawingState): DrawingState => {
+  if (state.activeId === null) return state;
+  return { ...state, activeId: null };
+};
+
+// Close the active stroke back to its first vertex and lift the pen
+export const closeActiveShape = (state: DrawingState): DrawingState => {
+  const active = state.shapes.find(s => s.id === state.activeId);
+  if (!active || active.points.length < 3) return state;
+  return {
+    shapes: state.shapes.map(s => s.id === active.id ? { ...s, closed: true } : s),
+    activeId: null
+  };
+};
+
+export const moveVertex = (state: DrawingState, ref: VertexRef, point: VectorPoint): DrawingState => ({
+  ...state,
+  shapes: state.shapes.map(s => {
+    if (s.id !== ref.shapeId) return s;
+    const points = s.points.map((p, i) => i === ref.index ? { ...p, x: point.x, y: point.y } : p);
+    return { ...s, points };
+  })
+});
+
+export const deleteVertex = (state: DrawingState, ref: VertexRef): DrawingState => {
+  const shapes: VectorShape[] = [];
+  state.shapes.forEach(s => {
+    if (s.id !== ref.shapeId) {
+      shapes.push(s);
+      return;
+    }
+    const points = s.points.filter((_, i) => i !== ref.index);
+    if (points.length === 0) return;
+    // A closed outline needs at least three corners
+    shapes.push({ ...s, points, closed: s.closed && points.length >= 3 });
+  });
+  const activeId = shapes.some(s => s.id === state.activeId) ? state.activeId : null;
+  return { shapes, activeId };
+};
+
+// Nearest vertex to a logical point within radius (0-100 space), or null
+export const findVertex = (shapes: VectorShape[], point: VectorPoint, radius: number): VertexRef | null => {
+  let best: VertexRef | null = null;
+  let bestDist = radius * radius;
+  shapes.forEach(s => {
+    s.points.forEach((p, index) => {
+      const dx = p.x - point.x;
+      const dy = p.y - point.y;
+      const d = dx * dx + dy * dy;
+      if (d <= bestDist) {
+        bestDist = d;
+        best = { shapeId: s.id, index };
+      }
+    });
+  });
+  return best;
+};
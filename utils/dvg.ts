@@ -0,0 +1,388 @@
+import { VectorPoint, VectorShape } from '../types';
+
+// Atari Digital Vector Generator (Asteroids, Lunar Lander) display-list tools:
+// a compiler from VectorShapes, an assembler/disassembler for 16-bit words, and an emulator.
+//
+// Word formats (bits 15-12 are the opcode):
+//   VCTR 0-9  YYYY: 0000 0Syy yyyy yyyy   XXXX: zzzz 0Sxx xxxx xxxx   (S = sign, 10-bit magnitude)
+//   LABS A    YYYY: 1010 00yy yyyy yyyy   XXXX: gggg 00xx xxxx xxxx   (absolute position, global scale)
+//   HALT B
+//   JSRL C    1100 aaaa aaaa aaaa   (call subroutine at word address)
+//   RTSL D
+//   JMPL E    1110 aaaa aaaa aaaa
+//   SVEC F    1111 sSyy zzzz tSxx   (short vector: 2-bit magnitudes scaled by 256, scale bits s/t)
+//
+// The screen is 1024x1024 with the origin at bottom-left. A vector with scale op moves by
+// delta >> (9 - ((globalScale + op) & 15)); results above 9 wrap to the smallest scale.
+
+export enum DvgOpcode {
+  VCTR = 'VCTR',
+  LABS = 'LABS',
+  HALT = 'HALT',
+  JSRL = 'JSRL',
+  RTSL = 'RTSL',
+  JMPL = 'JMPL',
+  SVEC = 'SVEC'
+}
+
+export interface DvgInstruction {
+  address: number; // word address
+  words: number[];
+  opcode: DvgOpcode;
+  scale?: number;
+  dx?: number;
+  dy?: number;
+  intensity?: number;
+  x?: number;
+  y?: number;
+  target?: number;
+}
+
+export interface DvgBeamMove {
+  from: VectorPoint; // 0-100 logical space
+  to: VectorPoint;
+  intensity: number; // 0 = blanked
+}
+
+export interface DvgRunResult {
+  moves: DvgBeamMove[];
+  executed: number; // instructions executed
+  halted: boolean;
+  error: string | null;
+}
+
+export interface DvgCompileOptions {
+  intensity?: number; // 1-15
+  // Emit shapes whose geometry repeats (e.g. letters) once as a JSRL/RTSL subroutine
+  useSubroutines?: boolean;
+}
+
+export const DVG_SCREEN_SIZE = 1024;
+export const DVG_STACK_DEPTH = 4;
+const MAX_STEPS = 20000;
+
+// --- Coordinate conversion ---
+
+const toDvg = (p: VectorPoint) => ({
+  x: Math.round((p.x / 100) * (DVG_SCREEN_SIZE - 1)),
+  y: Math.round(((100 - p.y) / 100) * (DVG_SCREEN_SIZE - 1))
+});
+
+const toLogical = (x: number, y: number): VectorPoint => ({
+  x: (x / (DVG_SCREEN_SIZE - 1)) * 100,
+  y: 100 - (y / (DVG_SCREEN_SIZE - 1)) * 100
+});
+
+// --- Encoding ---
+
+const signMag = (v: number, bits: number) => (v < 0 ? 1 << bits : 0) | (Math.abs(v) & ((1 << bits) - 1));
+
+export const encodeVctr = (scale: number, dx: number, dy: number, intensity: number): number[] => [
+  ((scale & 0xf) << 12) | signMag(dy, 10),
+  ((intensity & 0xf) << 12) | signMag(dx, 10)
+];
+
+export const encodeLabs = (x: number, y: number, globalScale = 0): number[] => [
+  0xa000 | (y & 0x3ff),
+  ((globalScale & 0xf) << 12) | (x & 0x3ff)
+];
+
+// SVEC scale 0-3 maps to effective VCTR scale 2-5, so deltas are m * 2^(scale + 1)
+export const encodeSvec = (scale: number, mx: number, my: number, intensity: number): number[] => [
+  0xf000 |
+    ((scale & 1) << 11) |
+    (my < 0 ? 0x0400 : 0) | ((Math.abs(my) & 3) << 8) |
+    ((intensity & 0xf) << 4) |
+    ((scale & 2) << 2) |
+    (mx < 0 ? 0x0004 : 0) | (Math.abs(mx) & 3)
+];
+
+export const encodeHalt = () => [0xb000];
+export const encodeRtsl = () => [0xd000];
+export const encodeJsrl = (address: number) => [0xc000 | (address & 0xfff)];
+export const encodeJmpl = (address: number) => [0xe000 | (address & 0xfff)];
+
+// Shortest exact encoding of a relative move (global scale 0)
+const encodeDelta = (dx: number, dy: number, intensity: number): number[] => {
+  for (let s = 0; s < 4; s++) {
+    const unit = 1 << (s + 1);
+    if (dx % unit === 0 && dy % unit === 0 && Math.abs(dx / unit) <= 3 && Math.abs(dy / unit) <= 3) {
+      return encodeSvec(s, dx / unit, dy / unit, intensity);
+    }
+  }
+  // VCTR: the smallest op (most internal precision) whose 10-bit field still holds the delta
+  let op = 9;
+  while (op > 0 && Math.max(Math.abs(dx), Math.abs(dy)) << (9 - op + 1) <= 1023) op--;
+  const shift = 9 - op;
+  return encodeVctr(op, dx << shift, dy << shift, intensity);
+};
+
+// --- Compiler ---
+
+export const compileShapes = (shapes: VectorShape[], options: DvgCompileOptions = {}): number[] => {
+  const intensity = Math.max(1, Math.min(15, options.intensity ?? 12));
+  const useSubroutines = options.useSubroutines ?? true;
+
+  const bodies = shapes
+    .filter(s => s.points.length > 0)
+    .map(shape => {
+      // Offsets are rounded relative to the first point so translated copies of the same
+      // geometry produce identical words (and can share a subroutine)
+      const start = toDvg(shape.points[0]);
+      const origin = shape.points[0];
+      const pts = shape.points.map(p => ({
+        x: start.x + Math.round(((p.x - origin.x) / 100) * (DVG_SCREEN_SIZE - 1)),
+        y: start.y - Math.round(((p.y - origin.y) / 100) * (DVG_SCREEN_SIZE - 1))
+      }));
+      if (shape.closed && pts.length > 2) pts.push(pts[0]);
+      const words: number[] = [];
+      // Per-vertex Z scales the vector's brightness; Z = 0 compiles to a blanked vector
+      const z = shape.points.map(p => Math.round(intensity * Math.max(0, Math.min(1, p.z ?? 1))));
+      if (shape.closed && pts.length > 2) z.push(z[0]);
+      if (pts.length === 1) {
+        // A lone point is a zero-length lit vector
+        words.push(...encodeVctr(0, 0, 0, z[0]));
+      }
+      for (let i = 1; i < pts.length; i++) {
+        words.push(...encodeDelta(pts[i].x - pts[i - 1].x, pts[i].y - pts[i - 1].y, z[i]));
+      }
+      return { start: pts[0], words, key: words.join(',') };
+    });
+
+  const counts = new Map<string, number>();
+  bodies.forEach(b => counts.set(b.key, (counts.get(b.key) ?? 0) + 1));
+
+  // Main program size is known up front, so subroutine addresses can be assigned directly
+  const subroutineKeys = useSubroutines
+    ? Array.from(counts.entries()).filter(([k, n]) => n > 1 && k.length > 0).map(([k]) => k)
+    : [];
+  const isSub = new Set(subroutineKeys);
+
+  let mainLength = 1; // HALT
+  bodies.forEach(b => {
+    mainLength += 2 + (isSub.has(b.key) ? 1 : b.words.length);
+  });
+
+  const subAddress = new Map<string, number>();
+  let next = mainLength;
+  const subs: number[] = [];
+  subroutineKeys.forEach(key => {
+    const body = bodies.find(b => b.key === key)!;
+    subAddress.set(key, next);
+    subs.push(...body.words, ...encodeRtsl());
+    next += body.words.length + 1;
+  });
+
+  const program: number[] = [];
+  bodies.forEach(b => {
+    program.push(...encodeLabs(b.start.x, b.start.y, 0));
+    if (isSub.has(b.key)) program.push(...encodeJsrl(subAddress.get(b.key)!));
+    else program.push(...b.words);
+  });
+  program.push(...encodeHalt());
+  return [...program, ...subs];
+};
+
+// --- Decoding ---
+
+const fromSignMag = (v: number, bits: number) => {
+  const mag = v & ((1 << bits) - 1);
+  return v & (1 << bits) ? -mag : mag;
+};
+
+// Decodes the instruction at an address; returns null when the words run out mid-instruction
+export const decodeInstruction = (words: number[], address: number): DvgInstruction | null => {
+  const w0 = words[address];
+  if (w0 === undefined) return null;
+  const op = w0 >> 12;
+
+  if (op <= 9) {
+    const w1 = words[address + 1];
+    if (w1 === undefined) return null;
+    return {
+      address, words: [w0, w1], opcode: DvgOpcode.VCTR,
+      scale: op, dy: fromSignMag(w0, 10), dx: fromSignMag(w1, 10), intensity: w1 >> 12
+    };
+  }
+  switch (op) {
+    case 0xa: {
+      const w1 = words[address + 1];
+      if (w1 === undefined) return null;
+      return { address, words: [w0, w1], opcode: DvgOpcode.LABS, y: w0 & 0x3ff, x: w1 & 0x3ff, scale: w1 >> 12 };
+    }
+    case 0xb:
+      return { address, words: [w0], opcode: DvgOpcode.HALT };
+    case 0xc:
+      return { address, words: [w0], opcode: DvgOpcode.JSRL, target: w0 & 0xfff };
+    case 0xd:
+      return { address, words: [w0], opcode: DvgOpcode.RTSL };
+    case 0xe:
+      return { address, words: [w0], opcode: DvgOpcode.JMPL, target: w0 & 0xfff };
+    default: {
+      const scale = ((w0 >> 11) & 1) | ((w0 >> 2) & 2);
+      return {
+        address, words: [w0], opcode: DvgOpcode.SVEC,
+        scale,
+        dy: fromSignMag(w0 >> 8, 2),
+        dx: fromSignMag(w0, 2),
+        intensity: (w0 >> 4) & 0xf
+      };
+    }
+  }
+};
+
+// Linear sweep of the whole word list, for listings
+export const disassemble = (words: number[]): DvgInstruction[] => {
+  const out: DvgInstruction[] = [];
+  let address = 0;
+  while (address < words.length) {
+    const inst = decodeInstruction(words, address);
+    if (!inst) break;
+    out.push(inst);
+    address += inst.words.length;
+  }
+  return out;
+};
+
+const hex = (v: number, digits: number) => v.toString(16).toUpperCase().padStart(digits, '0');
+const signed = (v: number) => (v >= 0 ? `+${v}` : `${v}`);
+
+export const formatInstruction = (inst: DvgInstruction): string => {
+  switch (inst.opcode) {
+    case DvgOpcode.VCTR:
+      return `VCTR  ${signed(inst.dx!)},${signed(inst.dy!)}  S=${inst.scale} Z=${inst.intensity}`;
+    case DvgOpcode.SVEC:
+      return `SVEC  ${signed(inst.dx!)},${signed(inst.dy!)}  S=${inst.scale} Z=${inst.intensity}`;
+    case DvgOpcode.LABS:
+      return inst.x === 512 && inst.y === 512 && inst.scale === 0
+        ? 'CNTR'
+        : `LABS  ${inst.x},${inst.y}  GSF=${inst.scale}`;
+    case DvgOpcode.JSRL:
+    case DvgOpcode.JMPL:
+      return `${inst.opcode}  $${hex(inst.target!, 3)}`;
+    default:
+      return inst.opcode;
+  }
+};
+
+export const formatWords = (words: number[]) => words.map(w => hex(w, 4)).join(' ');
+
+// Hex dump with word addresses, 8 words per line
+export const formatHexDump = (words: number[]): string => {
+  const lines: string[] = [];
+  for (let i = 0; i < words.length; i += 8) {
+    lines.push(`${hex(i, 4)}: ${formatWords(words.slice(i, i + 8))}`);
+  }
+  return lines.join('\n');
+};
+
+// Accepts hand-written dumps: optional "ADDR:" prefixes, ';' or '#' comments, 4-digit hex words
+export const parseHexDump = (text: string): number[] => {
+  const words: number[] = [];
+  text.split('\n').forEach((rawLine, lineNo) => {
+    const line = rawLine.replace(/[;#].*$/, '').replace(/^\s*[0-9a-f]+\s*:/i, '');
+    line.split(/[\s,]+/).filter(Boolean).forEach(token => {
+      const clean = token.replace(/^(0x|\$)/i, '');
+      if (!/^[0-9a-f]{1,4}$/i.test(clean)) {
+        throw new Error(`Line ${lineNo + 1}: "${token}" is not a 16-bit hex word`);
+      }
+      words.push(parseInt(clean, 16));
+    });
+  });
+  return words;
+};
+
+// --- Emulator ---
+
+export const runDvg = (words: number[], maxSteps = MAX_STEPS): DvgRunResult => {
+  const moves: DvgBeamMove[] = [];
+  const stack: number[] = [];
+  let pc = 0;
+  let x = DVG_SCREEN_SIZE / 2;
+  let y = DVG_SCREEN_SIZE / 2;
+  let globalScale = 0;
+  let executed = 0;
+
+  const fail = (error: string): DvgRunResult => ({ moves, executed, halted: false, error });
+
+  const draw = (dx: number, dy: number, scale: number, intensity: number) => {
+    const effective = (globalScale + scale) & 0xf;
+    const shift = effective > 9 ? 10 : 9 - effective;
+    // Sign-magnitude hardware truncates towards zero
+    const nx = x + Math.sign(dx) * (Math.abs(dx) >> shift);
+    const ny = y + Math.sign(dy) * (Math.abs(dy) >> shift);
+    moves.push({ from: toLogical(x, y), to: toLogical(nx, ny), intensity });
+    x = nx;
+    y = ny;
+  };
+
+  while (executed < maxSteps) {
+    const inst = decodeInstruction(words, pc);
+    if (!inst) return fail(`Program ran off the end at $${hex(pc, 3)} (missing HALT?)`);
+    executed++;
+    pc += inst.words.length;
+
+    switch (inst.opcode) {
+      case DvgOpcode.VCTR:
+        draw(inst.dx!, inst.dy!, inst.scale!, inst.intensity!);
+        break;
+      case DvgOpcode.SVEC:
+        // Short vectors are 10-bit deltas with the magnitude in bits 9-8, at VCTR scale 2-5
+        draw(inst.dx! << 8, inst.dy! << 8, inst.scale! + 2, inst.intensity!);
+        break;
+      case DvgOpcode.LABS: {
+        const nx = inst.x!;
+        const ny = inst.y!;
+        moves.push({ from: toLogical(x, y), to: toLogical(nx, ny), intensity: 0 });
+        x = nx;
+        y = ny;
+        globalScale = inst.scale!;
+        break;
+      }
+      case DvgOpcode.HALT:
+        return { moves, executed, halted: true, error: null };
+      case DvgOpcode.JSRL:
+        if (stack.length >= DVG_STACK_DEPTH) return fail(`Stack overflow at $${hex(inst.address, 3)}`);
+        stack.push(pc);
+        pc = inst.target!;
+        break;
+      case DvgOpcode.RTSL:
+        if (stack.length === 0) return fail(`RTSL with empty stack at $${hex(inst.address, 3)}`);
+        pc = stack.pop()!;
+        break;
+      case DvgOpcode.JMPL:
+        pc = inst.target!;
+        break;
+    }
+  }
+  return fail(`Step limit of ${maxSteps} reached (infinite loop?)`);
+};
+
+// Chains lit moves into strokes; blanked moves and zero-intensity vectors break the stroke
+export const movesToShapes = (moves: DvgBeamMove[]): VectorShape[] => {
+  const shapes: VectorShape[] = [];
+  let current: VectorPoint[] | null = null;
+
+  const flush = () => {
+    if (current && current.length > 0) {
+      shapes.push({ id: `dvg-${shapes.length}`, points: current, closed: false });
+    }
+    current = null;
+  };
+
+  moves.forEach(m => {
+    if (m.intensity === 0) {
+      flush();
+      return;
+    }
+    if (!current) current = [m.from];
+    current.push(m.to);
+  });
+  flush();
+
+  // Zero-length lit vectors are dots: keep one point so RetroScreen flashes them
+  return shapes.map(s => {
+    const moved = s.points.some(p => p.x !== s.points[0].x || p.y !== s.points[0].y);
+    return moved ? s : { ...s, points: [s.points[0]] };
+  });
+};
@@ -0,0 +1,224 @@
+// Minimal animated GIF89a encoder: per-frame 256-colour palettes and LZW compression,
+// written in plain TypeScript so recordings never leave the browser.
+
+export interface GifFrame {
+  rgba: Uint8ClampedArray; // width * height * 4
+  delay: number; // ms
+}
+
+export interface GifOptions {
+  loop?: boolean;
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(b: number) {
+    this.bytes.push(b & 0xff);
+  }
+
+  word(w: number) {
+    this.byte(w);
+    this.byte(w >> 8);
+  }
+
+  string(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  array(a: ArrayLike<number>) {
+    for (let i = 0; i < a.length; i++) this.bytes.push(a[i]);
+  }
+
+  toUint8Array() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+// --- Colour quantisation ---
+// Colours are bucketed to 15 bits. If a frame has more than 256 buckets, the most frequent
+// ones form the palette and the rest map to their nearest entry. Phosphor images are mostly
+// shades of one hue, so this popularity scheme holds up well.
+
+interface Quantized {
+  palette: number[]; // packed 0xRRGGBB
+  indices: Uint8Array;
+}
+
+const quantize = (rgba: Uint8ClampedArray): Quantized => {
+  const pixelCount = rgba.length / 4;
+  const keys = new Uint16Array(pixelCount);
+  const counts = new Uint32Array(32768);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const o = i * 4;
+    const key = ((rgba[o] >> 3) << 10) | ((rgba[o + 1] >> 3) << 5) | (rgba[o + 2] >> 3);
+    keys[i] = key;
+    counts[key]++;
+  }
+
+  const used: number[] = [];
+  for (let k = 0; k < 32768; k++) if (counts[k] > 0) used.push(k);
+  used.sort((a, b) => counts[b] - counts[a]);
+  const chosen = used.slice(0, 256);
+
+  const lookup = new Int16Array(32768).fill(-1);
+  chosen.forEach((k, idx) => { lookup[k] = idx; });
+
+  const expand = (k: number) => {
+    const r = ((k >> 10) & 31) << 3 | 4;
+    const g = ((k >> 5) & 31) << 3 | 4;
+    const b = (k & 31) << 3 | 4;
+    return [r, g, b];
+  };
+  const chosenRgb = chosen.map(expand);
+
+  const nearest = (k: number) => {
+    const [r, g, b] = expand(k);
+    let best = 0;
+    let bestDist = Infinity;
+    chosenRgb.forEach(([pr, pg, pb], idx) => {
+      const d = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (d < bestDist) {
+        bestDist = d;
+        best = idx;
+      }
+    });
+    return best;
+  };
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const k = keys[i];
+    if (lookup[k] < 0) lookup[k] = nearest(k);
+    indices[i] = lookup[k];
+  }
+
+  return {
+    palette: chosenRgb.map(([r, g, b]) => (r << 16) | (g << 8) | b),
+    indices
+  };
+};
+
+// --- LZW ---
+
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const out: number[] = [];
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let dict = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(eoiCode);
+    if (bitCount > 0) out.push(bitBuffer & 0xff);
+    return new Uint8Array(out);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = dict.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < 4096) {
+      dict.set(key, nextCode++);
+      // Grow the code width once the next code no longer fits
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      dict = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = eoiCode + 1;
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(eoiCode);
+  if (bitCount > 0) out.push(bitBuffer & 0xff);
+  return new Uint8Array(out);
+};
+
+const writeSubBlocks = (w: ByteWriter, data: Uint8Array) => {
+  for (let i = 0; i < data.length; i += 255) {
+    const chunk = data.subarray(i, i + 255);
+    w.byte(chunk.length);
+    w.array(chunk);
+  }
+  w.byte(0);
+};
+
+export const encodeGif = (width: number, height: number, frames: GifFrame[], options: GifOptions = {}): Uint8Array => {
+  const w = new ByteWriter();
+
+  // Header and logical screen descriptor (no global colour table)
+  w.string('GIF89a');
+  w.word(width);
+  w.word(height);
+  w.byte(0);
+  w.byte(0);
+  w.byte(0);
+
+  if (options.loop !== false) {
+    // NETSCAPE2.0 application extension: loop forever
+    w.array([0x21, 0xff, 0x0b]);
+    w.string('NETSCAPE2.0');
+    w.array([0x03, 0x01]);
+    w.word(0);
+    w.byte(0);
+  }
+
+  frames.forEach(frame => {
+    const { palette, indices } = quantize(frame.rgba);
+    const tableBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, palette.length))));
+    const tableSize = 1 << tableBits;
+
+    // Graphic control extension: frame delay in hundredths of a second
+    w.array([0x21, 0xf9, 0x04, 0x00]);
+    w.word(Math.max(2, Math.round(frame.delay / 10)));
+    w.byte(0);
+    w.byte(0);
+
+    // Image descriptor with a local colour table
+    w.byte(0x2c);
+    w.word(0);
+    w.word(0);
+    w.word(width);
+    w.word(height);
+    w.byte(0x80 | (tableBits - 1));
+
+    for (let i = 0; i < tableSize; i++) {
+      const c = palette[i] ?? 0;
+      w.byte(c >> 16);
+      w.byte(c >> 8);
+      w.byte(c);
+    }
+
+    const minCodeSize = Math.max(2, tableBits);
+    w.byte(minCodeSize);
+    writeSubBlocks(w, lzwEncode(indices, minCodeSize));
+  });
+
+  w.byte(0x3b);
+  return w.toUint8Array();
+};
@@ -0,0 +1,104 @@
+import { BUILTIN_FONT, Glyph, VectorFont } from './vectorFont';
+
+// Parser for Hershey fonts in the .jhf text format.
+// Each glyph starts with a 5-column glyph number and a 3-column vertex count, followed by
+// pairs of characters encoding coordinates as offsets from 'R'. The first pair is the left and
+// right bearing, " R" lifts the pen, and long glyphs continue on the following lines.
+// Glyphs are listed in ASCII order starting at space.
+
+export interface JhfOptions {
+  id: string;
+  name: string;
+  firstChar?: number; // character code of the first glyph in the file
+  // Hershey units for the top of the capitals and the baseline (y grows downwards)
+  capTop?: number;
+  baseline?: number;
+}
+
+export class JhfParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'JhfParseError';
+    this.line = line;
+  }
+}
+
+export interface JhfGlyph {
+  number: number;
+  left: number;
+  right: number;
+  strokes: { x: number; y: number }[][]; // raw Hershey units
+}
+
+const decode = (c: string) => c.charCodeAt(0) - 'R'.charCodeAt(0);
+
+export const parseJhfGlyphs = (source: string): JhfGlyph[] => {
+  const lines = source.replace(/\r/g, '').split('\n');
+  const glyphs: JhfGlyph[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const header = lines[i];
+    const lineNo = i + 1;
+    i++;
+    if (header.trim() === '') continue;
+
+    const number = parseInt(header.slice(0, 5), 10);
+    const count = parseInt(header.slice(5, 8), 10);
+    if (!Number.isFinite(number) || !Number.isFinite(count) || count < 1) {
+      throw new JhfParseError('malformed glyph header', lineNo);
+    }
+
+    let data = header.slice(8);
+    while (data.length < count * 2 && i < lines.length) data += lines[i++];
+    if (data.length < count * 2) throw new JhfParseError(`glyph ${number} is truncated`, lineNo);
+
+    const strokes: { x: number; y: number }[][] = [];
+    let current: { x: number; y: number }[] = [];
+    for (let v = 1; v < count; v++) {
+      const pair = data.slice(v * 2, v * 2 + 2);
+      if (pair === ' R') {
+        if (current.length > 0) strokes.push(current);
+        current = [];
+      } else {
+        current.push({ x: decode(pair[0]), y: decode(pair[1]) });
+      }
+    }
+    if (current.length > 0) strokes.push(current);
+
+    glyphs.push({ number, left: decode(data[0]), right: decode(data[1]), strokes });
+  }
+  return glyphs;
+};
+
+// Converts to em units: capTop maps to y = 0 and the baseline to y = 1, like the built-in font.
+// Hershey bearings already include the spacing between letters.
+export const parseJhf = (source: string, options: JhfOptions): VectorFont => {
+  const firstChar = options.firstChar ?? 32;
+  const capTop = options.capTop ?? -12;
+  const baseline = options.baseline ?? 9;
+  const em = baseline - capTop;
+
+  const glyphs: Record<string, Glyph> = {};
+  parseJhfGlyphs(source).forEach((g, idx) => {
+    const char = String.fromCharCode(firstChar + idx);
+    glyphs[char] = {
+      width: (g.right - g.left) / em,
+      strokes: g.strokes.map(stroke => stroke.map(p => [(p.x - g.left) / em, (p.y - capTop) / em]))
+    };
+  });
+
+  if (Object.keys(glyphs).length === 0) throw new JhfParseError('no glyphs found', 1);
+
+  return {
+    id: options.id,
+    name: options.name,
+    glyphs,
+    kerning: {},
+    letterSpacing: 0,
+    spaceWidth: glyphs[' ']?.width ?? BUILTIN_FONT.spaceWidth,
+    fallback: glyphs['?'] ?? BUILTIN_FONT.fallback
+  };
+};
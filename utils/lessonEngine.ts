@@ -0,0 +1,117 @@
+import { ContentMode, DisplayMode } from '../types';
+import { LessonCondition, LessonDocument, LessonRange, LessonSetup, LessonStep } from './lessonFormat';
+
+// Runs a lesson as plain data: which step the learner is on, what they have completed and how
+// their quiz answers went. Every function returns a new progress object, so the UI can keep
+// it in state and the library can store it as is.
+
+// The part of the app a lesson can check
+export interface LessonState {
+  mode: DisplayMode;
+  contentMode: ContentMode;
+  beamSpeed: number;
+  persistence: number;
+  vertices: number;
+}
+
+export interface QuizRecord {
+  attempts: number;
+  correct: boolean;
+}
+
+export interface LessonProgress {
+  lessonId: string;
+  stepIndex: number;
+  completed: string[]; // step ids
+  quiz: Record<string, QuizRecord>; // by step id
+  updatedAt: number;
+}
+
+const inRange = (value: number, range?: LessonRange) =>
+  !range || ((range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max));
+
+export const checkCondition = (condition: LessonCondition, state: LessonState): boolean =>
+  (condition.mode === undefined || condition.mode === state.mode) &&
+  (condition.contentMode === undefined || condition.contentMode === state.contentMode) &&
+  inRange(state.beamSpeed, condition.beamSpeed) &&
+  inRange(state.persistence, condition.persistence) &&
+  inRange(state.vertices, condition.vertices);
+
+export const startProgress = (lesson: LessonDocument): LessonProgress => ({
+  lessonId: lesson.id,
+  stepIndex: 0,
+  completed: [],
+  quiz: {},
+  updatedAt: Date.now()
+});
+
+// Whether the step's own requirements hold right now: its goal is met and its quiz answered correctly
+export const stepRequirementsMet = (step: LessonStep, progress: LessonProgress, state: LessonState) =>
+  (!step.waitFor || checkCondition(step.waitFor.condition, state)) &&
+  (!step.quiz || progress.quiz[step.id]?.correct === true);
+
+// A step stays complete once it has been, even if the learner then moves the sliders again
+export const isStepComplete = (step: LessonStep, progress: LessonProgress) => progress.completed.includes(step.id);
+
+export const completeStep = (progress: LessonProgress, step: LessonStep): LessonProgress =>
+  isStepComplete(step, progress)
+    ? progress
+    : { ...progress, completed: [...progress.completed, step.id], updatedAt: Date.now() };
+
+// A choice quiz is answered with an option index, an interactive one with the current screen
+export const answerQuiz = (
+  progress: LessonProgress,
+  step: LessonStep,
+  answer: number | LessonState
+): { progress: LessonProgress; correct: boolean } => {
+  const quiz = step.quiz;
+  if (!quiz) return { progress, correct: false };
+  const correct = quiz.kind === 'choice'
+    ? answer === quiz.answer
+    : typeof answer === 'object' && checkCondition(quiz.condition, answer);
+  const previous = progress.quiz[step.id];
+  // Once right, later attempts (e.g. revisiting the step) don't change the record
+  if (previous?.correct) return { progress, correct };
+  return {
+    progress: {
+      ...progress,
+      quiz: { ...progress.quiz, [step.id]: { attempts: (previous?.attempts ?? 0) + 1, correct } },
+      updatedAt: Date.now()
+    },
+    correct
+  };
+};
+
+export const goToStep = (progress: LessonProgress, lesson: LessonDocument, index: number): LessonProgress => ({
+  ...progress,
+  stepIndex: Math.max(0, Math.min(lesson.steps.length - 1, index)),
+  updatedAt: Date.now()
+});
+
+// Arriving by NEXT only applies the step's own setup, so what the learner just did stays on
+// screen. Arriving any other way (resuming, going back, jumping) replays every setup up to
+// the step, so the screen is the same however the learner got there.
+export const setupAt = (lesson: LessonDocument, index: number): LessonSetup =>
+  lesson.steps.slice(0, index + 1).reduce<LessonSetup>((merged, step) => {
+    const setup = step.setup;
+    if (!setup) return merged;
+    return {
+      ...merged,
+      ...setup,
+      scene: setup.scene || merged.scene ? { ...merged.scene, ...setup.scene } : undefined
+    };
+  }, {});
+
+export const isLessonFinished = (progress: LessonProgress, lesson: LessonDocument) =>
+  lesson.steps.every(step => isStepComplete(step, progress));
+
+// Quiz results, counting an answer as right only if it was right first time
+export const quizScore = (progress: LessonProgress, lesson: LessonDocument) => {
+  const quizzes = lesson.steps.filter(step => step.quiz);
+  const records = quizzes.map(step => progress.quiz[step.id]).filter((r): r is QuizRecord => !!r);
+  return {
+    total: quizzes.length,
+    answered: records.filter(r => r.correct).length,
+    firstTry: records.filter(r => r.correct && r.attempts === 1).length
+  };
+};
@@ -0,0 +1,197 @@
+import { ContentMode, DisplayMode, VectorShape } from '../types';
+import { isFiniteNumber, isRecord, validateShape } from './sceneFormat';
+
+// Lesson definition files: an ordered list of steps, each of which may set up the screen,
+// narrates in the terminal, and can hold the learner until they have done something or
+// answered a quiz. Written by hand, so validation reports every problem at once.
+export const LESSON_SCHEMA_VERSION = 1;
+export const LESSON_FILE_EXTENSION = '.vlesson.json';
+
+export interface LessonRange {
+  min?: number;
+  max?: number;
+}
+
+// Every field given must hold; an empty condition always holds
+export interface LessonCondition {
+  mode?: DisplayMode;
+  contentMode?: ContentMode;
+  beamSpeed?: LessonRange;
+  persistence?: LessonRange; // ms, STANDARD phosphor
+  vertices?: LessonRange; // plotted in DRAW mode
+}
+
+// Applied when the step is entered. Anything left out stays as the learner set it.
+export interface LessonSetup {
+  mode?: DisplayMode;
+  contentMode?: ContentMode;
+  beamSpeed?: number;
+  persistence?: number;
+  scene?: {
+    shapes?: VectorShape[];
+    text?: string;
+  };
+}
+
+export interface LessonGoal {
+  hint: string; // the instruction, e.g. "Slow the beam until you can follow it"
+  condition: LessonCondition;
+}
+
+export type LessonQuiz =
+  | { kind: 'choice'; question: string; options: string[]; answer: number; explanation?: string }
+  // Answered by setting the screen up and pressing CHECK
+  | { kind: 'interactive'; question: string; condition: LessonCondition; explanation?: string };
+
+export interface LessonStep {
+  id: string;
+  title: string;
+  narration: string;
+  setup?: LessonSetup;
+  waitFor?: LessonGoal;
+  quiz?: LessonQuiz;
+}
+
+export interface LessonDocument {
+  format: 'vector-console-lesson';
+  version: number;
+  id: string;
+  title: string;
+  summary: string;
+  steps: LessonStep[];
+}
+
+export class LessonValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid lesson: ${issues.join('; ')}`);
+    this.name = 'LessonValidationError';
+    this.issues = issues;
+  }
+}
+
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+const validateRange = (range: unknown, path: string, issues: string[]) => {
+  if (range === undefined) return;
+  if (!isRecord(range)) {
+    issues.push(`${path} must be an object with min and/or max`);
+    return;
+  }
+  if (range.min === undefined && range.max === undefined) issues.push(`${path} needs min or max`);
+  if (range.min !== undefined && !isFiniteNumber(range.min)) issues.push(`${path}.min must be a number`);
+  if (range.max !== undefined && !isFiniteNumber(range.max)) issues.push(`${path}.max must be a number`);
+  if (isFiniteNumber(range.min) && isFiniteNumber(range.max) && range.min > range.max) issues.push(`${path}.min is above max`);
+};
+
+const validateCondition = (condition: unknown, path: string, issues: string[]) => {
+  if (!isRecord(condition)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (condition.mode !== undefined && !Object.values<unknown>(DisplayMode).includes(condition.mode)) issues.push(`${path}.mode is not a known DisplayMode`);
+  if (condition.contentMode !== undefined && !Object.values<unknown>(ContentMode).includes(condition.contentMode)) issues.push(`${path}.contentMode is not a known ContentMode`);
+  validateRange(condition.beamSpeed, `${path}.beamSpeed`, issues);
+  validateRange(condition.persistence, `${path}.persistence`, issues);
+  validateRange(condition.vertices, `${path}.vertices`, issues);
+};
+
+const validateSetup = (setup: unknown, path: string, issues: string[]) => {
+  if (!isRecord(setup)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (setup.mode !== undefined && !Object.values<unknown>(DisplayMode).includes(setup.mode)) issues.push(`${path}.mode is not a known DisplayMode`);
+  if (setup.contentMode !== undefined && !Object.values<unknown>(ContentMode).includes(setup.contentMode)) issues.push(`${path}.contentMode is not a known ContentMode`);
+  if (setup.beamSpeed !== undefined && !(isFiniteNumber(setup.beamSpeed) && setup.beamSpeed >= 1 && setup.beamSpeed <= 10)) {
+    issues.push(`${path}.beamSpeed must be between 1 and 10`);
+  }
+  if (setup.persistence !== undefined && !(isFiniteNumber(setup.persistence) && setup.persistence > 0)) {
+    issues.push(`${path}.persistence must be a positive number of ms`);
+  }
+  const scene = setup.scene;
+  if (scene === undefined) return;
+  if (!isRecord(scene)) {
+    issues.push(`${path}.scene must be an object`);
+    return;
+  }
+  if (scene.shapes !== undefined) {
+    if (!Array.isArray(scene.shapes)) issues.push(`${path}.scene.shapes must be an array`);
+    else scene.shapes.forEach((s: unknown, i: number) => validateShape(s, `${path}.scene.shapes[${i}]`, issues));
+  }
+  if (scene.text !== undefined && typeof scene.text !== 'string') issues.push(`${path}.scene.text must be a string`);
+};
+
+const validateQuiz = (quiz: unknown, path: string, issues: string[]) => {
+  if (!isRecord(quiz)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (!isText(quiz.question)) issues.push(`${path}.question must be a non-empty string`);
+  if (quiz.explanation !== undefined && typeof quiz.explanation !== 'string') issues.push(`${path}.explanation must be a string`);
+  if (quiz.kind === 'choice') {
+    if (!Array.isArray(quiz.options) || quiz.options.length < 2 || !quiz.options.every(isText)) {
+      issues.push(`${path}.options must list at least two answers`);
+    } else if (!isFiniteNumber(quiz.answer) || !Number.isInteger(quiz.answer) || quiz.answer < 0 || quiz.answer >= quiz.options.length) {
+      issues.push(`${path}.answer must be the index of one of the options`);
+    }
+  } else if (quiz.kind === 'interactive') {
+    validateCondition(quiz.condition, `${path}.condition`, issues);
+  } else {
+    issues.push(`${path}.kind must be "choice" or "interactive"`);
+  }
+};
+
+// Throws LessonValidationError listing every problem found
+export const validateLesson = (doc: unknown): LessonDocument => {
+  const issues: string[] = [];
+  if (!isRecord(doc)) throw new LessonValidationError(['document is not an object']);
+
+  if (doc.format !== 'vector-console-lesson') issues.push('format must be "vector-console-lesson"');
+  if (doc.version !== LESSON_SCHEMA_VERSION) issues.push(`version must be ${LESSON_SCHEMA_VERSION}`);
+  if (!isText(doc.id)) issues.push('id must be a non-empty string');
+  if (!isText(doc.title)) issues.push('title must be a non-empty string');
+  if (typeof doc.summary !== 'string') issues.push('summary must be a string');
+
+  if (!Array.isArray(doc.steps) || doc.steps.length === 0) {
+    issues.push('steps must be a non-empty array');
+  } else {
+    const ids = new Set<string>();
+    doc.steps.forEach((step: unknown, i: number) => {
+      const path = `steps[${i}]`;
+      if (!isRecord(step)) {
+        issues.push(`${path} is not an object`);
+        return;
+      }
+      if (!isText(step.id)) issues.push(`${path}.id must be a non-empty string`);
+      else if (ids.has(step.id)) issues.push(`${path}.id "${step.id}" is used twice`);
+      else ids.add(step.id);
+      if (!isText(step.title)) issues.push(`${path}.title must be a non-empty string`);
+      if (typeof step.narration !== 'string') issues.push(`${path}.narration must be a string`);
+      if (step.setup !== undefined) validateSetup(step.setup, `${path}.setup`, issues);
+      if (step.waitFor !== undefined) {
+        const waitFor = isRecord(step.waitFor) ? step.waitFor : {};
+        if (!isText(waitFor.hint)) issues.push(`${path}.waitFor.hint must be a non-empty string`);
+        validateCondition(waitFor.condition, `${path}.waitFor.condition`, issues);
+      }
+      if (step.quiz !== undefined) validateQuiz(step.quiz, `${path}.quiz`, issues);
+    });
+  }
+
+  if (issues.length > 0) throw new LessonValidationError(issues);
+  return doc as unknown as LessonDocument;
+};
+
+// Accepts a raw object or JSON text
+export const parseLesson = (input: string | object): LessonDocument => {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new LessonValidationError(['file is not valid JSON']);
+    }
+  }
+  return validateLesson(raw);
+};
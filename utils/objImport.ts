@@ -0,0 +1,67 @@
+import { Mesh, Vector3 } from '../types';
+import { normalizeMesh } from './wireframe';
+
+// Parser for the geometry subset of Wavefront .obj files: "v" vertices, "f" faces and "l"
+// polylines. Texture coordinates, normals, groups and materials are ignored; face corners
+// like "3/1/2" use only the vertex index. Indices are 1-based, negative ones count back
+// from the latest vertex.
+
+export class ObjParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'ObjParseError';
+    this.line = line;
+  }
+}
+
+export const parseObj = (source: string, id: string, name: string): Mesh => {
+  const vertices: Vector3[] = [];
+  const faces: number[][] = [];
+  const lines: number[][] = [];
+
+  // A trailing backslash continues a statement on the next line; errors report the line
+  // the statement starts on
+  const statements: { text: string; lineNo: number }[] = [];
+  let pending: { text: string; lineNo: number } | null = null;
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const continued = raw.endsWith('\\');
+    const text = continued ? raw.slice(0, -1) : raw;
+    if (pending) pending.text += ` ${text}`;
+    else pending = { text, lineNo: i + 1 };
+    if (!continued) {
+      statements.push(pending);
+      pending = null;
+    }
+  });
+  if (pending) statements.push(pending);
+
+  statements.forEach(({ text, lineNo }) => {
+    const [keyword, ...args] = text.replace(/#.*/, '').trim().split(/\s+/);
+
+    const index = (token: string) => {
+      const n = parseInt(token.split('/')[0], 10);
+      const resolved = n < 0 ? vertices.length + n : n - 1;
+      if (!Number.isFinite(n) || n === 0 || resolved < 0 || resolved >= vertices.length) {
+        throw new ObjParseError(`bad vertex index "${token}"`, lineNo);
+      }
+      return resolved;
+    };
+
+    if (keyword === 'v') {
+      const [x, y, z] = args.slice(0, 3).map(Number);
+      if (![x, y, z].every(Number.isFinite)) throw new ObjParseError('vertex needs three numbers', lineNo);
+      vertices.push({ x, y, z });
+    } else if (keyword === 'f') {
+      if (args.length < 3) throw new ObjParseError('face needs at least three vertices', lineNo);
+      faces.push(args.map(index));
+    } else if (keyword === 'l') {
+      if (args.length < 2) throw new ObjParseError('line needs at least two vertices', lineNo);
+      lines.push(args.map(index));
+    }
+  });
+
+  if (faces.length === 0 && lines.length === 0) throw new ObjParseError('no faces or lines', 1);
+  return normalizeMesh({ id, name, vertices, faces, lines });
+};
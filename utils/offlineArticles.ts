@@ -0,0 +1,69 @@
+import { DisplayMode } from '../types';
+
+// Curated articles bundled with the app, shown when no model can be reached. Each display
+// mode has one article per topic, following the same outline as the live explanation
+// prompt, so the panel reads the same online or off.
+
+export interface OfflineArticle {
+  mode: DisplayMode;
+  topic: 'beam' | 'image' | 'history';
+  title: string;
+  text: string;
+}
+
+export const OFFLINE_ARTICLES: OfflineArticle[] = [
+  {
+    mode: DisplayMode.VECTOR,
+    topic: 'beam',
+    title: 'How the beam moves',
+    text: `- The beam goes only where there is something to draw. A display list of line segments is turned into X and Y deflection voltages by DACs, and the beam is swept straight from each endpoint to the next.
+- Between strokes the beam is blanked (turned off) and jumps to the next start point, then waits a moment for the deflection amplifiers to settle.
+- The whole list is redrawn many times a second. The longer the list, the longer each pass takes.`
+  },
+  {
+    mode: DisplayMode.VECTOR,
+    topic: 'image',
+    title: 'What it looks like',
+    text: `- Lines are continuous and razor sharp at any angle: there are no pixels, so there is no stair-stepping.
+- Strokes are very bright, because the beam dwells on them instead of spreading its time over the whole screen. Slow strokes and line ends glow brighter than fast ones.
+- Too many vectors and the list can't be redrawn in time: the phosphor fades between passes and the image flickers.`
+  },
+  {
+    mode: DisplayMode.VECTOR,
+    topic: 'history',
+    title: 'Why it was used, and why it faded',
+    text: `- In the late 1970s memory was expensive. A short display list needed far less of it than a framebuffer, yet gave sharper, higher-resolution lines than any affordable raster.
+- Atari's Asteroids, Lunar Lander, Battlezone and Tempest, Cinematronics' Star Castle and the Vectrex home console all used it.
+- Filled areas and colour were hard, XY monitors were costly and fragile, and once RAM got cheap a standard raster monitor could show anything. By the mid-1980s vector games had all but vanished.`
+  },
+  {
+    mode: DisplayMode.RASTER,
+    topic: 'beam',
+    title: 'How the beam moves',
+    text: `- The beam follows the same path every frame: left to right along a scanline, a quick blanked retrace, then the next line down, top to bottom.
+- Only its intensity changes, modulated dot by dot from a framebuffer as it passes each pixel.
+- TV-style displays interlace: odd lines on one pass, even lines on the next, to halve the bandwidth without visible flicker.`
+  },
+  {
+    mode: DisplayMode.RASTER,
+    topic: 'image',
+    title: 'What it looks like',
+    text: `- The picture is a grid of pixels. Diagonal and curved edges show stair-step aliasing unless they are smoothed.
+- Every frame costs the same to draw whatever is on screen, so filled areas, sprites and colour come for free.
+- Brightness is spread over the whole screen, so individual lines are dimmer than on a vector display; visible scanlines are part of the look.`
+  },
+  {
+    mode: DisplayMode.RASTER,
+    topic: 'history',
+    title: 'Why it won',
+    text: `- It reused mass-produced television tubes and circuits, so monitors were cheap and robust.
+- As memory prices fell, a full framebuffer became affordable, and with it colour, filled graphics and detailed sprites.
+- From Space Invaders and Pac-Man onwards nearly every arcade game, home computer and console drew in raster, as displays still do today.`
+  }
+];
+
+// Everything bundled for one mode, as a single article with a heading per topic
+export const offlineExplanation = (mode: DisplayMode): string => {
+  const articles = OFFLINE_ARTICLES.filter(a => a.mode === mode);
+  return articles.map(a => `**${a.title}**\n${a.text}`).join('\n\n');
+};
@@ -0,0 +1,149 @@
+import { DecayComponent, PhosphorModel } from '../types';
+
+// Phosphor library. Every decay curve, including power laws, is reduced to a short sum of
+// exponentials: each term then decays by a constant factor per tick, which is what lets
+// the per-pixel buffers keep a handful of energy planes instead of a history per pixel.
+// Times are real-time ms. The presets are representative of the JEDEC types rather than
+// measured curves; some decay far faster than a frame, exactly as they do on a real tube.
+
+export const DEFAULT_PERSISTENCE = 1000;
+
+// The original single-exponential model, timed by the PERSISTENCE slider:
+// after `persistence` ms the glow is below 1% of where it started
+export const standardPhosphor = (persistence: number): PhosphorModel => ({
+  id: 'standard',
+  name: 'STANDARD',
+  description: 'Single exponential green glow, timed by the persistence slider.',
+  color: '#39ff14',
+  rise: 0,
+  decay: { kind: 'exponential', components: [{ weight: 1, tau: Math.max(1, persistence) / 5 }] }
+});
+
+export const PHOSPHOR_PRESETS: PhosphorModel[] = [
+  {
+    id: 'p1',
+    name: 'P1',
+    description: 'Yellow-green, medium persistence. The classic oscilloscope and radar phosphor.',
+    color: '#4cff3a',
+    rise: 0.03,
+    decay: { kind: 'exponential', components: [{ weight: 0.85, tau: 10 }, { weight: 0.15, tau: 45 }] }
+  },
+  {
+    id: 'p4',
+    name: 'P4',
+    description: 'White, short persistence: a fast blue and a slower yellow phosphor blended for monochrome TV.',
+    color: '#f0f4ff',
+    rise: 0.01,
+    decay: {
+      kind: 'exponential',
+      components: [{ weight: 0.55, tau: 0.06, color: '#9db8ff' }, { weight: 0.45, tau: 0.5, color: '#fff2b0' }]
+    }
+  },
+  {
+    id: 'p7',
+    name: 'P7',
+    description: 'Blue-white flash with a long yellow-green afterglow. Used for radar and slow-sweep scopes.',
+    color: '#d4ff3a',
+    rise: 0.05,
+    decay: {
+      kind: 'exponential',
+      components: [
+        { weight: 0.6, tau: 1, color: '#b8c8ff' },
+        { weight: 0.28, tau: 250 },
+        { weight: 0.12, tau: 1500 }
+      ]
+    }
+  },
+  {
+    id: 'p31',
+    name: 'P31',
+    description: 'Green, medium-short persistence with a faint power-law tail. The usual oscilloscope phosphor.',
+    color: '#4dff5a',
+    rise: 0.02,
+    decay: { kind: 'power', alpha: 0.8, t0: 0.1 }
+  },
+  {
+    id: 'p39',
+    name: 'P39',
+    description: 'Yellowish green, long persistence. Keeps slowly refreshed displays from flickering.',
+    color: '#9cff3c',
+    rise: 0.2,
+    decay: { kind: 'power', alpha: 1.6, t0: 120 }
+  }
+];
+
+// Every selectable phosphor: the slider-timed standard one, the presets and the user's own
+export const PHOSPHOR_IDS = ['standard', ...PHOSPHOR_PRESETS.map(p => p.id), 'custom'];
+
+export const DEFAULT_CUSTOM_PHOSPHOR: PhosphorModel = {
+  id: 'custom',
+  name: 'CUSTOM',
+  description: 'User-defined decay curve.',
+  color: '#39ff14',
+  rise: 0,
+  decay: { kind: 'exponential', components: [{ weight: 0.7, tau: 40 }, { weight: 0.3, tau: 400 }] }
+};
+
+// Power law as a Laplace mixture of exponentials:
+// (1 + t/t0)^-a = ∫ exp(-u t / t0) u^(a-1) e^-u / Γ(a) du, sampled at log-spaced u
+const POWER_TERMS = 8;
+const POWER_U_MIN = 0.0005;
+const POWER_U_MAX = 8;
+
+// Exponential terms of a model's decay, weights summing to 1, colours filled in
+export const decayComponents = (model: PhosphorModel): Required<DecayComponent>[] => {
+  let terms: DecayComponent[];
+  if (model.decay.kind === 'power') {
+    const { alpha, t0 } = model.decay;
+    terms = Array.from({ length: POWER_TERMS }, (_, k) => {
+      const u = POWER_U_MIN * Math.pow(POWER_U_MAX / POWER_U_MIN, k / (POWER_TERMS - 1));
+      return { weight: Math.pow(u, alpha) * Math.exp(-u), tau: Math.max(0.001, t0) / u };
+    });
+  } else {
+    terms = model.decay.components.filter(c => c.weight > 0 && c.tau > 0);
+  }
+  const total = terms.reduce((sum, c) => sum + c.weight, 0);
+  if (terms.length === 0 || total <= 0) return [{ weight: 1, tau: 1, color: model.color }];
+  return terms.map(c => ({ weight: c.weight / total, tau: c.tau, color: c.color ?? model.color }));
+};
+
+// Relative brightness t ms after a short excitation, peak normalised to about 1
+export const phosphorResponse = (model: PhosphorModel, t: number): number => {
+  if (t < 0) return 0;
+  const decay = decayComponents(model).reduce((sum, c) => sum + c.weight * Math.exp(-t / c.tau), 0);
+  return model.rise > 0 ? decay * (1 - Math.exp(-t / model.rise)) : decay;
+};
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) || 0);
+
+// Emitted colour t ms after excitation, for phosphors whose terms differ in colour
+export const phosphorColorAt = (model: PhosphorModel, t: number): string => {
+  const rgb = [0, 0, 0];
+  let total = 0;
+  decayComponents(model).forEach(c => {
+    const w = c.weight * Math.exp(-Math.max(0, t) / c.tau);
+    hexToRgb(c.color).forEach((v, i) => (rgb[i] += v * w));
+    total += w;
+  });
+  if (total <= 0) return model.color;
+  return `#${rgb.map(v => Math.round(v / total).toString(16).padStart(2, '0')).join('')}`;
+};
+
+const MAX_LIFETIME = 20000;
+
+// Time for the glow to fall below `threshold` of its peak
+export const phosphorLifetime = (model: PhosphorModel, threshold = 0.01): number => {
+  const above = (t: number) => phosphorResponse(model, t) > threshold;
+  // Past the rise the response only falls, so bracket the crossing and bisect
+  let lo = model.rise * 5;
+  if (!above(lo)) return Math.max(lo, 0.001);
+  let hi = Math.max(1, lo * 2);
+  while (above(hi) && hi < MAX_LIFETIME) hi *= 2;
+  if (hi >= MAX_LIFETIME) return MAX_LIFETIME;
+  for (let i = 0; i < 30; i++) {
+    const mid = (lo + hi) / 2;
+    if (above(mid)) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+};
@@ -0,0 +1,339 @@
+import { PhosphorModel } from '../types';
+import { DEFAULT_PERSISTENCE, decayComponents, standardPhosphor } from './phosphor';
+
+// Per-pixel phosphor accumulation buffer for the canvas renderer and the raster framebuffer.
+// The beam deposits energy into float planes as it moves, one plane per exponential term of
+// the phosphor's decay; every frame each plane decays by its own factor and the planes are
+// summed, tone-mapped into an ImageData, then composited with a cheap bloom made by
+// downsampling and stretching the image back up. Terms that emit a different colour (the
+// flash of a P7) are tone-mapped separately and added on top. Nothing is retained per
+// stroke, so the cost per frame depends on the screen size, not the length of the display list.
+
+export type PhosphorColor = [number, number, number];
+
+// Energy is tone-mapped over 0..MAX_ENERGY through a lookup table
+const MAX_ENERGY = 4;
+const LUT_SIZE = 1024;
+// Below this a plane's pixel is treated as fully decayed
+const ENERGY_FLOOR = 1 / 512;
+// Rise times shorter than this are over well within a tick, so energy is deposited straight
+// into the emitting planes. Longer ones go through an excitation plane first.
+const MIN_RISE = 0.5;
+// Distance between energy splats along a stroke, in pixels
+const SPLAT_STEP = 0.5;
+const BLOOM_SCALES = [4, 8];
+const BLOOM_STRENGTH = 0.7;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  return canvas;
+};
+
+interface Plane {
+  energy: Float32Array;
+  weight: number;
+  tau: number;
+  lit: boolean;
+}
+
+// Planes that share an emission colour, summed before tone mapping
+interface ColorGroup {
+  lut: Uint32Array;
+  planes: Plane[];
+  image: ImageData | null;
+  imageCanvas: HTMLCanvasElement | null;
+  bloomCanvases: HTMLCanvasElement[];
+}
+
+export class PhosphorBuffer {
+  readonly width: number;
+  readonly height: number;
+  private planes: Plane[] = [];
+  private groups: ColorGroup[] = [];
+  // Excitation not yet emitted, for phosphors with a visible rise time
+  private pending: Float32Array | null = null;
+  private rise = 0;
+  // Nothing to decay or present once the screen has gone dark
+  private lit = false;
+
+  // `color` overrides the model's emission colours (a colour vector beam), keeping its decay
+  constructor(width: number, height: number, model: PhosphorModel = standardPhosphor(DEFAULT_PERSISTENCE), color?: PhosphorColor) {
+    this.width = Math.max(1, Math.floor(width));
+    this.height = Math.max(1, Math.floor(height));
+    this.setModel(model, color);
+  }
+
+  // RGBA words for each energy level: brightness saturates towards 1 and very hot
+  // spots wash out towards white, like an overdriven dot on a real tube
+  private static buildLut(color: PhosphorColor): Uint32Array {
+    const lut = new Uint32Array(LUT_SIZE);
+    for (let i = 0; i < LUT_SIZE; i++) {
+      const e = (i / (LUT_SIZE - 1)) * MAX_ENERGY;
+      const brightness = 1 - Math.exp(-e * 1.5);
+      const white = Math.max(0, Math.min(1, (e - 1) / (MAX_ENERGY - 1)));
+      const r = Math.round(color[0] + (255 - color[0]) * white);
+      const g = Math.round(color[1] + (255 - color[1]) * white);
+      const b = Math.round(color[2] + (255 - color[2]) * white);
+      const a = Math.round(brightness * 255);
+      // ImageData is RGBA in memory; Uint32 views are little-endian on every browser we target
+      lut[i] = ((a << 24) | (b << 16) | (g << 8) | r) >>> 0;
+    }
+    return lut;
+  }
+
+  // Switches phosphor; the screen starts dark
+  setModel(model: PhosphorModel, color?: PhosphorColor) {
+    const size = this.width * this.height;
+    const groups = new Map<string, ColorGroup>();
+    this.planes = decayComponents(model).map(c => {
+      const plane: Plane = { energy: new Float32Array(size), weight: c.weight, tau: c.tau, lit: false };
+      const key = color ? '' : c.color;
+      let group = groups.get(key);
+      if (!group) {
+        const lut = PhosphorBuffer.buildLut(color ?? parsePhosphorColor(c.color) ?? [255, 255, 255]);
+        group = { lut, planes: [], image: null, imageCanvas: null, bloomCanvases: [] };
+        groups.set(key, group);
+      }
+      group.planes.push(plane);
+      return plane;
+    });
+    this.groups = [...groups.values()];
+    this.rise = model.rise;
+    this.pending = model.rise >= MIN_RISE ? new Float32Array(size) : null;
+    this.lit = false;
+  }
+
+  clear() {
+    this.planes.forEach(plane => {
+      plane.energy.fill(0);
+      plane.lit = false;
+    });
+    this.pending?.fill(0);
+    this.lit = false;
+  }
+
+  // Advance the phosphor by dt ms: excitation feeds the emitting planes at the rise rate,
+  // and every plane decays by its own time constant
+  decay(dt: number) {
+    if (!this.lit || dt <= 0) return;
+    let anyLit = false;
+
+    const pending = this.pending;
+    if (pending) {
+      const transfer = 1 - Math.exp(-dt / this.rise);
+      for (let i = 0; i < pending.length; i++) {
+        const p = pending[i];
+        if (p === 0) continue;
+        const moved = p < ENERGY_FLOOR ? p : p * transfer;
+        pending[i] = p - moved;
+        this.planes.forEach(plane => (plane.energy[i] += moved * plane.weight));
+        if (pending[i] > 0) anyLit = true;
+      }
+      // Energy just moved in is decayed with the rest; close enough at frame rate
+      this.planes.forEach(plane => (plane.lit = true));
+    }
+
+    this.planes.forEach(plane => {
+      if (!plane.lit) return;
+      const factor = Math.exp(-dt / plane.tau);
+      const energy = plane.energy;
+      let planeLit = false;
+      for (let i = 0; i < energy.length; i++) {
+        const e = energy[i];
+        if (e === 0) continue;
+        const next = e * factor;
+        if (next < ENERGY_FLOOR) {
+          energy[i] = 0;
+        } else {
+          energy[i] = next;
+          planeLit = true;
+        }
+      }
+      plane.lit = planeLit;
+      anyLit ||= planeLit;
+    });
+    this.lit = anyLit;
+  }
+
+  // Bilinear splat so sub-pixel beam positions stay smooth
+  deposit(x: number, y: number, amount: number) {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    if (x0 < 0 || y0 < 0 || x0 >= this.width - 1 || y0 >= this.height - 1) return;
+    const fx = x - x0;
+    const fy = y - y0;
+    const i = y0 * this.width + x0;
+    const splat = (energy: Float32Array, a: number) => {
+      energy[i] += a * (1 - fx) * (1 - fy);
+      energy[i + 1] += a * fx * (1 - fy);
+      energy[i + this.width] += a * (1 - fx) * fy;
+      energy[i + this.width + 1] += a * fx * fy;
+    };
+    if (this.pending) {
+      splat(this.pending, amount);
+    } else {
+      this.planes.forEach(plane => {
+        splat(plane.energy, amount * plane.weight);
+        plane.lit = true;
+      });
+    }
+    this.lit = true;
+  }
+
+  // Beam sweep from (x0, y0) to (x1, y1) in pixels. `intensity` is energy per pixel of travel,
+  // so a slow beam that lingers lays down more than a fast one.
+  stroke(x0: number, y0: number, x1: number, y1: number, intensity: number) {
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    const steps = Math.max(1, Math.ceil(length / SPLAT_STEP));
+    const amount = (intensity * length) / steps;
+    for (let s = 1; s <= steps; s++) {
+      const k = s / steps;
+      this.deposit(x0 + (x1 - x0) * k, y0 + (y1 - y0) * k, amount);
+    }
+  }
+
+  // Raster refresh: the beam passing over a row re-excites it from the framebuffer.
+  // Pixels the row no longer contains are left to decay.
+  refreshRow(y: number, source: Float32Array) {
+    const offset = y * this.width;
+    const planes = this.planes;
+    const pending = this.pending;
+    for (let i = offset; i < offset + this.width; i++) {
+      const v = source[i];
+      if (v === 0) continue;
+      if (pending) {
+        // Top the excitation up to whatever the pixel isn't already emitting
+        let emitting = pending[i];
+        for (let k = 0; k < planes.length; k++) emitting += planes[k].energy[i];
+        if (v > emitting) pending[i] += v - emitting;
+      } else {
+        for (let k = 0; k < planes.length; k++) {
+          const plane = planes[k];
+          const target = v * plane.weight;
+          if (target > plane.energy[i]) {
+            plane.energy[i] = target;
+            plane.lit = true;
+          }
+        }
+      }
+      this.lit = true;
+    }
+  }
+
+  // Tone-map the buffer and draw it with bloom onto a visible canvas. By default it fills
+  // the top-left corner at 1:1; a low-resolution buffer can be stretched over `target`
+  // with `pixelated` keeping its pixels hard-edged.
+  present(
+    ctx: CanvasRenderingContext2D,
+    target = { x: 0, y: 0, width: this.width, height: this.height },
+    pixelated = false
+  ) {
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    this.composite(ctx, target, pixelated);
+  }
+
+  // Same as present, but over whatever the canvas already holds
+  composite(
+    ctx: CanvasRenderingContext2D,
+    target = { x: 0, y: 0, width: this.width, height: this.height },
+    pixelated = false
+  ) {
+    if (!this.lit) return;
+    this.groups.forEach((group, g) => {
+      if (!group.planes.some(plane => plane.lit)) return;
+      const imageCanvas = this.toneMap(group);
+
+      ctx.save();
+      // Extra emission colours add light on top of the first
+      if (g > 0) ctx.globalCompositeOperation = 'lighter';
+      ctx.imageSmoothingEnabled = !pixelated;
+      ctx.drawImage(imageCanvas, target.x, target.y, target.width, target.height);
+      ctx.restore();
+
+      // Bloom: bilinear downsample then stretch back up, added on top of the sharp image
+      ctx.save();
+      ctx.globalCompositeOperation = 'lighter';
+      ctx.globalAlpha = BLOOM_STRENGTH / group.bloomCanvases.length;
+      ctx.imageSmoothingEnabled = true;
+      group.bloomCanvases.forEach(bloom => {
+        const bctx = bloom.getContext('2d')!;
+        bctx.imageSmoothingEnabled = true;
+        bctx.clearRect(0, 0, bloom.width, bloom.height);
+        bctx.drawImage(imageCanvas, 0, 0, bloom.width, bloom.height);
+        ctx.drawImage(bloom, target.x, target.y, target.width, target.height);
+      });
+      ctx.restore();
+    });
+  }
+
+  private toneMap(group: ColorGroup): HTMLCanvasElement {
+    if (!group.image || !group.imageCanvas) {
+      group.imageCanvas = createCanvas(this.width, this.height);
+      group.image = group.imageCanvas.getContext('2d')!.createImageData(this.width, this.height);
+      group.bloomCanvases = BLOOM_SCALES.map(s =>
+        createCanvas(Math.ceil(this.width / s), Math.ceil(this.height / s)));
+    }
+
+    const pixels = new Uint32Array(group.image.data.buffer);
+    const planes = group.planes.filter(plane => plane.lit).map(plane => plane.energy);
+    const lut = group.lut;
+    const scale = (LUT_SIZE - 1) / MAX_ENERGY;
+    for (let i = 0; i < pixels.length; i++) {
+      let e = 0;
+      for (let k = 0; k < planes.length; k++) e += planes[k][i];
+      pixels[i] = e === 0 ? 0 : lut[Math.min(LUT_SIZE - 1, (e * scale) | 0)];
+    }
+    group.imageCanvas.getContext('2d')!.putImageData(group.image, 0, 0);
+    return group.imageCanvas;
+  }
+}
+
+// '#rgb' or '#rrggbb' to a phosphor colour; null if it isn't one
+export const parsePhosphorColor = (hex: string): PhosphorColor | null => {
+  const m = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!m) return null;
+  const digits = m[1].length === 3 ? [...m[1]].map(c => c + c).join('') : m[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as PhosphorColor;
+};
+
+// One buffer per beam colour, like the separate phosphors of a colour vector tube.
+// Layers are created on first use, share the phosphor's decay and are composited together.
+export class PhosphorLayers {
+  readonly width: number;
+  readonly height: number;
+  private model: PhosphorModel;
+  private layers = new Map<string, PhosphorBuffer>();
+
+  constructor(width: number, height: number, model: PhosphorModel = standardPhosphor(DEFAULT_PERSISTENCE)) {
+    this.width = width;
+    this.height = height;
+    this.model = model;
+  }
+
+  // Buffer for a '#rrggbb' beam colour; undefined (or an unparseable colour) emits the phosphor's own
+  layer(color?: string): PhosphorBuffer {
+    const key = color ?? '';
+    let buffer = this.layers.get(key);
+    if (!buffer) {
+      const parsed = color ? parsePhosphorColor(color) : null;
+      buffer = new PhosphorBuffer(this.width, this.height, this.model, parsed ?? undefined);
+      this.layers.set(key, buffer);
+    }
+    return buffer;
+  }
+
+  decay(dt: number) {
+    this.layers.forEach(buffer => buffer.decay(dt));
+  }
+
+  clear() {
+    this.layers.forEach(buffer => buffer.clear());
+  }
+
+  present(ctx: CanvasRenderingContext2D) {
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    this.layers.forEach(buffer => buffer.composite(ctx));
+  }
+}
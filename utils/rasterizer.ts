@@ -0,0 +1,132 @@
+import { RasterSettings, VectorPoint, VectorShape } from '../types';
+
+// Scan conversion of vector shapes into a low-resolution framebuffer, as a raster console's
+// video hardware would hold it. Pixels are intensities 0-1, row-major, top row first.
+
+export interface RasterResolution {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const RASTER_RESOLUTIONS: RasterResolution[] = [
+  { id: '160x192', label: '160×192 (ATARI 2600)', width: 160, height: 192 },
+  { id: '256x224', label: '256×224 (NES / SNES)', width: 256, height: 224 },
+  { id: '320x240', label: '320×240 (QVGA)', width: 320, height: 240 },
+  { id: '640x480', label: '640×480 (VGA)', width: 640, height: 480 }
+];
+
+export const DEFAULT_RASTER_SETTINGS: RasterSettings = {
+  resolution: '256x224',
+  antialias: false,
+  interlaced: false
+};
+
+export const getResolution = (id: string): RasterResolution =>
+  RASTER_RESOLUTIONS.find(r => r.id === id) ?? RASTER_RESOLUTIONS[1];
+
+export interface Framebuffer {
+  width: number;
+  height: number;
+  pixels: Float32Array;
+}
+
+const plot = (fb: Framebuffer, x: number, y: number, value: number) => {
+  if (x < 0 || y < 0 || x >= fb.width || y >= fb.height) return;
+  const i = y * fb.width + x;
+  fb.pixels[i] = Math.min(1, fb.pixels[i] + value);
+};
+
+// Integer Bresenham: one lit pixel per step along the major axis
+const bresenham = (fb: Framebuffer, x0: number, y0: number, x1: number, y1: number, value: number) => {
+  x0 = Math.round(x0); y0 = Math.round(y0);
+  x1 = Math.round(x1); y1 = Math.round(y1);
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+
+  for (;;) {
+    const i = y0 * fb.width + x0;
+    fb.pixels[i] = Math.max(fb.pixels[i], value);
+    if (x0 === x1 && y0 === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x0 += sx; }
+    if (e2 <= dx) { err += dx; y0 += sy; }
+  }
+};
+
+// Xiaolin Wu: coverage split between the two pixels straddling the ideal line
+const wu = (fb: Framebuffer, x0: number, y0: number, x1: number, y1: number, value: number) => {
+  const steep = Math.abs(y1 - y0) > Math.abs(x1 - x0);
+  if (steep) [x0, y0, x1, y1] = [y0, x0, y1, x1];
+  if (x0 > x1) [x0, y0, x1, y1] = [x1, y1, x0, y0];
+
+  const put = (major: number, minor: number, value: number) =>
+    steep ? plot(fb, minor, major, value) : plot(fb, major, minor, value);
+
+  const dx = x1 - x0;
+  const gradient = dx === 0 ? 1 : (y1 - y0) / dx;
+  const start = Math.round(x0);
+  const end = Math.round(x1);
+  let y = y0 + gradient * (start - x0);
+
+  for (let x = start; x <= end; x++) {
+    const base = Math.floor(y);
+    const frac = y - base;
+    put(x, base, (1 - frac) * value);
+    put(x, base + 1, frac * value);
+    y += gradient;
+  }
+};
+
+export const rasterizeShapes = (
+  shapes: VectorShape[],
+  width: number,
+  height: number,
+  antialias: boolean
+): Framebuffer => {
+  const fb: Framebuffer = { width, height, pixels: new Float32Array(width * height) };
+  // Logical 0-100 spans the whole framebuffer, pixel centres at the edges
+  const toPixel = (p: VectorPoint) => ({
+    x: Math.max(0, Math.min(width - 1, (p.x / 100) * (width - 1))),
+    y: Math.max(0, Math.min(height - 1, (p.y / 100) * (height - 1))),
+    z: p.z ?? 1
+  });
+
+  shapes.forEach(shape => {
+    if (shape.points.length === 0) return;
+    const points = (shape.closed && shape.points.length > 2 ? [...shape.points, shape.points[0]] : shape.points).map(toPixel);
+    const value = Math.min(1, shape.intensity ?? 1);
+
+    if (points.length === 1) {
+      plot(fb, Math.round(points[0].x), Math.round(points[0].y), value * Math.min(1, points[0].z));
+      return;
+    }
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      const z = Math.min(1, b.z);
+      if (z <= 0) continue;
+      if (antialias) wu(fb, a.x, a.y, b.x, b.y, value * z);
+      else bresenham(fb, a.x, a.y, b.x, b.y, value * z);
+    }
+  });
+  return fb;
+};
+
+// Order in which the beam visits rows in one frame. Interlaced video sends the even
+// field first, then the odd one, each sweeping the full height in half the frame time.
+export const scanOrder = (height: number, interlaced: boolean): number[] => {
+  const rows = Array.from({ length: height }, (_, i) => i);
+  if (!interlaced) return rows;
+  return [...rows.filter(r => r % 2 === 0), ...rows.filter(r => r % 2 === 1)];
+};
+
+// Settings as a human-readable summary for badges and listings
+export const describeRaster = (settings: RasterSettings) => {
+  const res = getResolution(settings.resolution);
+  return `${res.width}×${res.height}${settings.interlaced ? 'i' : 'p'}${settings.antialias ? ' AA' : ''}`;
+};
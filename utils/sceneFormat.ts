@@ -0,0 +1,225 @@
+import { BeamPhysics, ContentMode, DisplayMode, PhosphorModel, VectorShape } from '../types';
+import { DEFAULT_BEAM_PHYSICS } from './beamPhysics';
+import { PHOSPHOR_IDS } from './phosphor';
+
+// Versioned, serialisable snapshot of everything needed to restore a scene.
+// Bump SCENE_SCHEMA_VERSION and add an entry to MIGRATIONS whenever the shape changes.
+export const SCENE_SCHEMA_VERSION = 1;
+export const SCENE_FILE_EXTENSION = '.vscene.json';
+
+export interface SceneDocument {
+  format: 'vector-console-scene';
+  version: number;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  display: {
+    mode: DisplayMode;
+    contentMode: ContentMode;
+  };
+  simulation: {
+    beamSpeed: number; // 1-10
+    persistence: number; // ms
+    physics: BeamPhysics;
+    phosphorId: string; // 'standard', a preset id or 'custom'
+    customPhosphor?: PhosphorModel; // saved when phosphorId is 'custom'
+  };
+  content: {
+    shapes: VectorShape[];
+    text: string;
+  };
+}
+
+export class SceneValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid scene: ${issues.join('; ')}`);
+    this.name = 'SceneValidationError';
+    this.issues = issues;
+  }
+}
+
+export const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+type RawScene = Record<string, unknown>;
+
+// Each migration upgrades a raw document from version N to N + 1. None yet: version 1 is
+// the first one written.
+const MIGRATIONS: Record<number, (doc: RawScene) => RawScene> = {};
+
+export const migrateScene = (raw: unknown): RawScene => {
+  if (!isRecord(raw)) {
+    throw new SceneValidationError(['document is not an object']);
+  }
+  if (!isFiniteNumber(raw.version)) throw new SceneValidationError(['version must be a number']);
+  let doc = raw;
+  let version = raw.version;
+
+  if (version > SCENE_SCHEMA_VERSION) {
+    throw new SceneValidationError([`version ${version} is newer than supported version ${SCENE_SCHEMA_VERSION}`]);
+  }
+
+  while (version < SCENE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new SceneValidationError([`no migration from version ${version}`]);
+    doc = migrate(doc);
+    version = doc.version as number;
+  }
+  return doc;
+};
+
+export const validateShape = (shape: unknown, path: string, issues: string[]) => {
+  if (!isRecord(shape)) {
+    issues.push(`${path} is not an object`);
+    return;
+  }
+  if (typeof shape.id !== 'string' || shape.id.length === 0) issues.push(`${path}.id must be a non-empty string`);
+  if (typeof shape.closed !== 'boolean') issues.push(`${path}.closed must be a boolean`);
+  if (!Array.isArray(shape.points)) {
+    issues.push(`${path}.points must be an array`);
+    return;
+  }
+  shape.points.forEach((p: unknown, i: number) => {
+    if (!isRecord(p) || !isFiniteNumber(p.x) || !isFiniteNumber(p.y)) {
+      issues.push(`${path}.points[${i}] must have numeric x and y`);
+    } else if (p.z !== undefined && !(isFiniteNumber(p.z) && p.z >= 0 && p.z <= 1)) {
+      issues.push(`${path}.points[${i}].z must be a number from 0 to 1`);
+    }
+  });
+  if (shape.color !== undefined && !isColor(shape.color)) {
+    issues.push(`${path}.color must be a #rrggbb string`);
+  }
+  if (shape.intensity !== undefined && !(isFiniteNumber(shape.intensity) && shape.intensity >= 0)) {
+    issues.push(`${path}.intensity must be a non-negative number`);
+  }
+};
+
+const isColor = (v: unknown): v is string => typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v);
+
+export const validatePhosphor = (model: unknown, path: string, issues: string[]) => {
+  if (!isRecord(model)) {
+    issues.push(`${path} is not an object`);
+    return;
+  }
+  (['id', 'name', 'description'] as const).forEach(key => {
+    if (typeof model[key] !== 'string') issues.push(`${path}.${key} must be a string`);
+  });
+  if (!isColor(model.color)) issues.push(`${path}.color must be a #rrggbb string`);
+  if (!isFiniteNumber(model.rise) || model.rise < 0) issues.push(`${path}.rise must be a non-negative number of ms`);
+
+  const decay = model.decay;
+  if (!isRecord(decay)) {
+    issues.push(`${path}.decay is not an object`);
+  } else if (decay.kind === 'exponential') {
+    if (!Array.isArray(decay.components) || decay.components.length === 0) {
+      issues.push(`${path}.decay.components must be a non-empty array`);
+    } else {
+      decay.components.forEach((c: unknown, i: number) => {
+        const at = `${path}.decay.components[${i}]`;
+        if (!isRecord(c) || !isFiniteNumber(c.weight) || c.weight < 0 || !isFiniteNumber(c.tau) || c.tau <= 0) {
+          issues.push(`${at} needs a non-negative weight and a positive tau`);
+        } else if (c.color !== undefined && !isColor(c.color)) {
+          issues.push(`${at}.color must be a #rrggbb string`);
+        }
+      });
+    }
+  } else if (decay.kind === 'power') {
+    if (!isFiniteNumber(decay.alpha) || decay.alpha <= 0) issues.push(`${path}.decay.alpha must be a positive number`);
+    if (!isFiniteNumber(decay.t0) || decay.t0 <= 0) issues.push(`${path}.decay.t0 must be a positive number of ms`);
+  } else {
+    issues.push(`${path}.decay.kind must be "exponential" or "power"`);
+  }
+};
+
+// Throws SceneValidationError listing every problem found
+export const validateScene = (doc: unknown): SceneDocument => {
+  if (!isRecord(doc)) throw new SceneValidationError(['document is not an object']);
+  const issues: string[] = [];
+
+  if (doc.format !== 'vector-console-scene') issues.push('format must be "vector-console-scene"');
+  if (doc.version !== SCENE_SCHEMA_VERSION) issues.push(`version must be ${SCENE_SCHEMA_VERSION}`);
+  if (typeof doc.name !== 'string') issues.push('name must be a string');
+  if (!isFiniteNumber(doc.createdAt)) issues.push('createdAt must be a timestamp');
+  if (!isFiniteNumber(doc.updatedAt)) issues.push('updatedAt must be a timestamp');
+
+  const display = isRecord(doc.display) ? doc.display : {};
+  if (!Object.values<unknown>(DisplayMode).includes(display.mode)) issues.push('display.mode is not a known DisplayMode');
+  if (!Object.values<unknown>(ContentMode).includes(display.contentMode)) issues.push('display.contentMode is not a known ContentMode');
+
+  const simulation = isRecord(doc.simulation) ? doc.simulation : {};
+  const speed = simulation.beamSpeed;
+  if (!isFiniteNumber(speed) || speed < 1 || speed > 10) issues.push('simulation.beamSpeed must be between 1 and 10');
+  const persistence = simulation.persistence;
+  if (!isFiniteNumber(persistence) || persistence < 0) issues.push('simulation.persistence must be a positive number of ms');
+  const physics = isRecord(simulation.physics) ? simulation.physics : {};
+  (Object.keys(DEFAULT_BEAM_PHYSICS) as (keyof BeamPhysics)[]).forEach(key => {
+    const value = physics[key];
+    if (!isFiniteNumber(value) || value < 0) issues.push(`simulation.physics.${key} must be a non-negative number`);
+  });
+  if (typeof simulation.phosphorId !== 'string' || !PHOSPHOR_IDS.includes(simulation.phosphorId)) {
+    issues.push(`simulation.phosphorId must be one of ${PHOSPHOR_IDS.join(', ')}`);
+  } else if (simulation.phosphorId === 'custom') {
+    validatePhosphor(simulation.customPhosphor, 'simulation.customPhosphor', issues);
+  }
+
+  const content = isRecord(doc.content) ? doc.content : {};
+  if (!Array.isArray(content.shapes)) {
+    issues.push('content.shapes must be an array');
+  } else {
+    content.shapes.forEach((s: unknown, i: number) => validateShape(s, `content.shapes[${i}]`, issues));
+  }
+  if (typeof content.text !== 'string') issues.push('content.text must be a string');
+
+  if (issues.length > 0) throw new SceneValidationError(issues);
+  return doc as unknown as SceneDocument;
+};
+
+// Accepts a raw object or JSON text of any supported version
+export const parseScene = (input: string | object): SceneDocument => {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new SceneValidationError(['file is not valid JSON']);
+    }
+  }
+  return validateScene(migrateScene(raw));
+};
+
+export const serializeScene = (doc: SceneDocument): string => JSON.stringify(doc, null, 2);
+
+export const createScene = (
+  name: string,
+  state: {
+    mode: DisplayMode;
+    contentMode: ContentMode;
+    beamSpeed: number;
+    persistence: number;
+    physics: BeamPhysics;
+    phosphorId: string;
+    customPhosphor: PhosphorModel;
+    shapes: VectorShape[];
+    text: string;
+  },
+  createdAt: number = Date.now()
+): SceneDocument => ({
+  format: 'vector-console-scene',
+  version: SCENE_SCHEMA_VERSION,
+  name,
+  createdAt,
+  updatedAt: Date.now(),
+  display: { mode: state.mode, contentMode: state.contentMode },
+  simulation: {
+    beamSpeed: state.beamSpeed,
+    persistence: state.persistence,
+    physics: state.physics,
+    phosphorId: state.phosphorId,
+    ...(state.phosphorId === 'custom' ? { customPhosphor: state.customPhosphor } : {})
+  },
+  content: { shapes: state.shapes, text: state.text }
+});
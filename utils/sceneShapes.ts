@@ -0,0 +1,133 @@
+import { BeamStyle, ContentMode, VectorPoint, VectorShape } from '../types';
+import { layoutText, TextAlign, VectorFont } from './vectorFont';
+import { AnimationClip, Keyframe } from './animation';
+
+// Pre-defined Ship Shape
+export const SHIP_SHAPE: VectorShape = {
+  id: 'ship',
+  points: [
+    { x: 50, y: 35 },
+    { x: 65, y: 65 },
+    { x: 50, y: 55 },
+    { x: 35, y: 65 }
+  ],
+  closed: true
+};
+
+// Exhaust drawn under the ship's rear notch while thrusting
+export const FLAME_SHAPE: VectorShape = {
+  id: 'flame',
+  points: [
+    { x: 46, y: 58 },
+    { x: 50, y: 70 },
+    { x: 54, y: 58 }
+  ],
+  closed: false
+};
+
+const flameFrame = (tip: number): VectorPoint[] => [
+  { x: 46, y: 58 },
+  { x: 50, y: tip },
+  { x: 54, y: 58 }
+];
+
+// Demo loop: turn right, thrust across, turn about, thrust back, settle
+export const SHIP_DEMO_CLIP: AnimationClip = {
+  id: 'ship-demo',
+  name: 'SHIP PATROL',
+  duration: 8000,
+  loop: true,
+  tracks: [
+    {
+      targets: ['flame'],
+      // Flicker between a long and short plume
+      morph: Array.from({ length: 67 }, (_, i): Keyframe<VectorPoint[]> => ({
+        time: i * 120,
+        value: flameFrame(i % 2 === 0 ? 72 : 65)
+      })),
+      visible: [
+        { time: 0, value: false },
+        { time: 2500, value: true },
+        { time: 4500, value: false },
+        { time: 5500, value: true },
+        { time: 7000, value: false }
+      ]
+    },
+    {
+      targets: ['ship', 'flame'],
+      pivot: { x: 50, y: 52 },
+      rotate: [
+        { time: 0, value: 0 },
+        { time: 1500, value: 0 },
+        { time: 2500, value: 90, easing: 'easeInOut' },
+        { time: 4500, value: 90 },
+        { time: 5500, value: -90, easing: 'easeInOut' },
+        { time: 7000, value: -90 },
+        { time: 8000, value: 0, easing: 'easeInOut' }
+      ],
+      translate: [
+        { time: 0, value: { x: 0, y: 0 } },
+        { time: 2500, value: { x: 0, y: 0 } },
+        { time: 4500, value: { x: 25, y: 0 }, easing: 'easeIn' },
+        { time: 5500, value: { x: 25, y: 0 } },
+        { time: 7000, value: { x: 0, y: 0 }, easing: 'easeOut' }
+      ],
+      scale: [
+        { time: 0, value: 1 },
+        { time: 4500, value: 0.8, easing: 'easeInOut' },
+        { time: 8000, value: 1, easing: 'easeInOut' }
+      ]
+    }
+  ]
+};
+
+// Inputs each content mode draws from
+export interface SceneContent {
+  customShapes: VectorShape[];
+  customText: string;
+  textAlign?: TextAlign;
+  textFont?: VectorFont;
+  textStyle?: BeamStyle;
+  // Output of a generated display list (DVG mode)
+  programShapes?: VectorShape[];
+  // Frame at `time` (simulated ms) of content that changes on its own (GAME and WIREFRAME modes)
+  liveShapes?: (time: number) => VectorShape[];
+  // Still of imported XY audio (AUDIO mode); the vector screen replays the full trace instead
+  audioShapes?: VectorShape[];
+}
+
+// The draw list for the current content mode, in 0-100 logical space, at `time` (simulated ms)
+export const getSceneShapes = (contentMode: ContentMode, content: SceneContent, time = 0): VectorShape[] => {
+  if (contentMode === ContentMode.PRESET) {
+    return [SHIP_SHAPE, FLAME_SHAPE];
+  } else if (contentMode === ContentMode.DRAW) {
+    return content.customShapes.filter(s => s.points.length > 0);
+  } else if (contentMode === ContentMode.TEXT) {
+    const { shapes } = layoutText(content.customText || "READY", {
+      box: { x: 5, y: 5, width: 90, height: 90 },
+      size: 10,
+      font: content.textFont,
+      align: content.textAlign ?? 'center',
+      verticalAlign: 'middle',
+      autoFit: true
+    });
+    const style = content.textStyle;
+    if (!style || (!style.color && style.z === 1)) return shapes;
+    return shapes.map(s => ({
+      ...s,
+      ...(style.color && { color: style.color }),
+      ...(style.z !== 1 && { intensity: style.z })
+    }));
+  } else if (contentMode === ContentMode.DVG) {
+    return content.programShapes ?? [];
+  } else if (contentMode === ContentMode.GAME || contentMode === ContentMode.WIREFRAME) {
+    return content.liveShapes?.(time) ?? [];
+  } else if (contentMode === ContentMode.AUDIO) {
+    return content.audioShapes ?? [];
+  }
+  return [];
+};
+
+// Animation played over the content mode's shapes, if it has one
+export const getSceneAnimation = (contentMode: ContentMode): AnimationClip | null =>
+  contentMode === ContentMode.PRESET ? SHIP_DEMO_CLIP : null;
@@ -0,0 +1,117 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BeamFrame } from './beamPhysics';
+import { BeamSimulation, SimulationClock, SimulationEvent, stepTarget } from './simulation';
+
+// Run with `npm test`
+
+const PERIOD = 10; // beam ms
+
+// A 10 ms frame posed from its start time: two lit vectors meeting at 4 ms
+const frameAt = (start: number): BeamFrame => ({
+  samples: Array.from({ length: 9 }, (_, i) => ({
+    t: i + 1,
+    x: start,
+    y: i,
+    lit: true,
+    intensity: 1,
+    vector: i < 4 ? 0 : 1
+  })),
+  duration: 9,
+  budget: PERIOD,
+  period: PERIOD,
+  load: 0.9
+});
+
+const simulation = () => new BeamSimulation({ nextFrame: (_cycle, start) => frameAt(start) });
+
+// What the screen would draw: absolute sample times, and where each sample's frame was posed
+const drawn = (events: SimulationEvent[]) =>
+  events.flatMap(e => (e.kind === 'samples' ? e.samples.map(s => [e.cycleStart + s.t, s.x]) : []));
+
+describe('BeamSimulation', () => {
+  test('draws the same samples however time is advanced', () => {
+    const fine = simulation();
+    const byMs = Array.from({ length: 36 }, (_, i) => fine.advanceTo(i)).flat();
+    const coarse = simulation();
+    const inOne = [...coarse.advanceTo(0), ...coarse.advanceTo(35)];
+    assert.deepEqual(drawn(byMs), drawn(inOne));
+    assert.deepEqual(drawn(inOne).at(-1), [35, 30]);
+  });
+
+  test('starts on the refresh slot holding the start time', () => {
+    const events = simulation().advanceTo(25);
+    assert.deepEqual(events[0], { kind: 'cycle', time: 20, cycle: 2, frame: frameAt(20) });
+  });
+
+  test('skips cycles it has fallen too far behind on', () => {
+    const sim = simulation();
+    sim.advanceTo(5);
+    const events = sim.advanceTo(1000);
+    assert.ok(events.some(e => e.kind === 'reset' && e.time === 1000));
+    assert.equal(sim.cycleStart, 1000);
+  });
+
+  test('rewinding replays from the start of the cycle holding the new time', () => {
+    const sim = simulation();
+    const first = drawn(sim.advanceTo(47));
+    const events = sim.advanceTo(43);
+    assert.deepEqual(events[0], { kind: 'reset', time: 40 });
+    assert.deepEqual(drawn(events), first.filter(([t]) => t >= 40 && t <= 43));
+    assert.equal(sim.beam?.t, 3);
+  });
+
+  test('rewinding past the remembered cycles poses the same frames again', () => {
+    const sim = simulation();
+    sim.advanceTo(0);
+    const original = drawn(sim.advanceTo(35));
+    for (let t = 40; t <= 400; t += 5) sim.advanceTo(t);
+    const events = sim.advanceTo(0);
+    assert.deepEqual(events[0], { kind: 'reset', time: 0 });
+    assert.deepEqual(drawn(sim.advanceTo(35)), original);
+  });
+});
+
+describe('SimulationClock', () => {
+  test('follows the wall clock at its speed and holds while paused', () => {
+    const clock = new SimulationClock();
+    clock.play(0);
+    assert.equal(clock.time(100), 100);
+    clock.pause(100);
+    assert.equal(clock.time(500), 100);
+    clock.setSpeed(0.5, 500);
+    clock.play(500);
+    assert.equal(clock.time(700), 200);
+  });
+
+  test('seeks without losing its speed', () => {
+    const clock = new SimulationClock();
+    clock.setSpeed(0.5, 0);
+    clock.play(0);
+    clock.seek(50, 100);
+    assert.equal(clock.time(300), 150);
+    clock.seek(-10, 300);
+    assert.equal(clock.time(300), 0);
+  });
+});
+
+describe('stepTarget', () => {
+  const frame = frameAt(20);
+
+  test('steps to the end of each segment and on to the next frame', () => {
+    assert.equal(stepTarget(frame, 20, 20, 'segment', 1), 24);
+    assert.equal(stepTarget(frame, 20, 24, 'segment', 1), 29);
+    assert.equal(stepTarget(frame, 20, 29, 'segment', 1), 30);
+  });
+
+  test('steps back a segment, then to the frame before', () => {
+    assert.equal(stepTarget(frame, 20, 29, 'segment', -1), 24);
+    assert.equal(stepTarget(frame, 20, 20, 'segment', -1), 10);
+  });
+
+  test('steps whole frames', () => {
+    assert.equal(stepTarget(frame, 20, 23, 'frame', 1), 30);
+    assert.equal(stepTarget(frame, 20, 23, 'frame', -1), 20);
+    assert.equal(stepTarget(frame, 0, 0, 'frame', -1), 0);
+  });
+});
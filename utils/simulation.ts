@@ -0,0 +1,215 @@
+import { BeamFrame, BeamSample } from './beamPhysics';
+import { beamSegments } from './deflectionSignals';
+
+// The beam, independent of React and the DOM. A BeamSimulation lays frames end to end, one
+// per refresh slot, and replays their samples as its time is moved; whatever moves it gets
+// back the draw events for that stretch, in order. Moving it backwards replays from the start
+// of the cycle holding the new time, so the same time always gives the same screen as long as
+// the frames are posed from the cycle start they are given rather than from a clock of their own.
+//
+// Simulation time is kept by a SimulationClock in wall-clock ms, so it can be paused, slowed
+// down or sought; screens multiply it by their timeScale to get beam ms.
+
+export type SimulationEvent =
+  // The screen is starting over from `time`; anything drawn so far should be cleared
+  | { kind: 'reset'; time: number }
+  // A refresh cycle begins at `time` with this frame
+  | { kind: 'cycle'; time: number; cycle: number; frame: BeamFrame }
+  // Samples the beam has just passed; each one's time is cycleStart + sample.t
+  | { kind: 'samples'; cycleStart: number; samples: BeamSample[] };
+
+export interface BeamSimulationOptions {
+  // The frame for a refresh cycle starting at `time` (beam ms), asked for as the cycle begins
+  nextFrame: (cycle: number, time: number) => BeamFrame;
+}
+
+interface Cycle {
+  index: number;
+  start: number;
+  frame: BeamFrame;
+}
+
+// Cycles remembered for replaying backwards; older ones are asked for again
+const HISTORY = 16;
+// Further behind than this (a hidden tab), the slots in between are skipped
+const MAX_CATCH_UP_CYCLES = 4;
+const MIN_PERIOD = 1; // beam ms
+
+const periodOf = (frame: BeamFrame) => Math.max(MIN_PERIOD, frame.period);
+
+export class BeamSimulation {
+  private nextFrame: (cycle: number, time: number) => BeamFrame;
+  private cycles: Cycle[] = []; // most recent last
+  private idx = 0; // next sample of the current cycle
+  private now = 0;
+
+  constructor({ nextFrame }: BeamSimulationOptions) {
+    this.nextFrame = nextFrame;
+  }
+
+  get time() {
+    return this.now;
+  }
+
+  get frame(): BeamFrame | null {
+    return this.current?.frame ?? null;
+  }
+
+  get cycleStart() {
+    return this.current?.start ?? 0;
+  }
+
+  // Where the beam is: the last sample passed, or null before the first and once the
+  // display list is done and the beam idles until the next refresh
+  get beam(): BeamSample | null {
+    const current = this.current;
+    if (!current || this.idx === 0 || this.idx >= current.frame.samples.length) return null;
+    return current.frame.samples[this.idx - 1];
+  }
+
+  // Moves the beam to `time` (beam ms) and returns what it drew on the way
+  advanceTo(time: number): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+    if (!this.current) {
+      // The first cycle starts on the refresh slot holding the start time; the frame is
+      // posed again for the slot's start unless the two already agree
+      const frame = this.nextFrame(0, time);
+      const period = periodOf(frame);
+      const slot = Math.floor(time / period);
+      const start = slot * period;
+      this.begin(slot, start, start === time ? frame : null, events);
+    } else if (time < this.now) {
+      this.rewind(time, events);
+    }
+    this.run(time, events);
+    this.now = time;
+    return events;
+  }
+
+  private get current(): Cycle | undefined {
+    return this.cycles[this.cycles.length - 1];
+  }
+
+  private begin(index: number, start: number, frame: BeamFrame | null, events: SimulationEvent[]) {
+    const cycle = { index, start, frame: frame ?? this.nextFrame(index, start) };
+    this.cycles.push(cycle);
+    if (this.cycles.length > HISTORY) this.cycles.shift();
+    this.idx = 0;
+    events.push({ kind: 'cycle', time: start, cycle: index, frame: cycle.frame });
+  }
+
+  private run(time: number, events: SimulationEvent[]) {
+    for (;;) {
+      const current = this.current!;
+      const { samples } = current.frame;
+      const period = periodOf(current.frame);
+      const end = current.start + period;
+
+      const reached = Math.min(time, end) - current.start;
+      let to = this.idx;
+      while (to < samples.length && samples[to].t <= reached) to++;
+      if (to > this.idx) {
+        events.push({ kind: 'samples', cycleStart: current.start, samples: samples.slice(this.idx, to) });
+        this.idx = to;
+      }
+      if (time < end) return;
+
+      const behind = Math.floor((time - end) / period);
+      if (behind >= MAX_CATCH_UP_CYCLES) {
+        const start = end + behind * period;
+        events.push({ kind: 'reset', time: start });
+        this.begin(current.index + 1 + behind, start, null, events);
+      } else {
+        this.begin(current.index + 1, end, null, events);
+      }
+    }
+  }
+
+  private rewind(time: number, events: SimulationEvent[]) {
+    let i = this.cycles.length - 1;
+    while (i >= 0 && this.cycles[i].start > time) i--;
+    if (i >= 0) {
+      const cycle = this.cycles[i];
+      this.cycles = this.cycles.slice(0, i);
+      events.push({ kind: 'reset', time: cycle.start });
+      this.begin(cycle.index, cycle.start, cycle.frame, events);
+      return;
+    }
+    // Before anything remembered: count slots back from the oldest cycle
+    const oldest = this.cycles[0];
+    const period = periodOf(oldest.frame);
+    const back = Math.ceil((oldest.start - time) / period);
+    const start = oldest.start - back * period;
+    this.cycles = [];
+    events.push({ kind: 'reset', time: start });
+    this.begin(oldest.index - back, start, null, events);
+  }
+}
+
+// Simulated time in ms. Runs with the wall clock while playing, scaled by its speed.
+export class SimulationClock {
+  private origin = 0; // simulated time when playback last started, changed speed or was sought
+  private startedAt: number | null = null;
+  private rate = 1;
+
+  get playing() {
+    return this.startedAt !== null;
+  }
+
+  get speed() {
+    return this.rate;
+  }
+
+  time(now = performance.now()): number {
+    return this.startedAt === null ? this.origin : this.origin + (now - this.startedAt) * this.rate;
+  }
+
+  play(now = performance.now()) {
+    if (this.playing) return;
+    this.startedAt = now;
+  }
+
+  pause(now = performance.now()) {
+    if (!this.playing) return;
+    this.origin = this.time(now);
+    this.startedAt = null;
+  }
+
+  setSpeed(rate: number, now = performance.now()) {
+    this.origin = this.time(now);
+    if (this.playing) this.startedAt = now;
+    this.rate = rate;
+  }
+
+  seek(time: number, now = performance.now()) {
+    this.origin = Math.max(0, time);
+    if (this.playing) this.startedAt = now;
+  }
+}
+
+export type StepUnit = 'segment' | 'frame';
+
+// Tolerance for "already at this boundary", beam ms
+const STEP_EPSILON = 1e-3;
+
+// Beam time of the next boundary after `time`, or the last one before it, for stepping
+// through the frame that started at cycleStart. Segments step to where each one ends.
+export const stepTarget = (
+  frame: BeamFrame,
+  cycleStart: number,
+  time: number,
+  unit: StepUnit,
+  direction: 1 | -1
+): number => {
+  const period = periodOf(frame);
+  const boundaries = unit === 'segment' ? beamSegments(frame).map(s => cycleStart + s.t1) : [];
+  boundaries.unshift(cycleStart);
+  boundaries.push(cycleStart + period);
+
+  if (direction > 0) {
+    return boundaries.find(b => b > time + STEP_EPSILON) ?? Math.max(time, cycleStart + period);
+  }
+  const earlier = boundaries.filter(b => b < time - STEP_EPSILON);
+  // Stepping back from the start of a frame goes to the start of the one before
+  return earlier.length > 0 ? earlier[earlier.length - 1] : Math.max(0, cycleStart - period);
+};
@@ -0,0 +1,547 @@
+import { VectorPoint, VectorShape } from '../types';
+
+// Converts SVG artwork into VectorShapes in the 0-100 logical space used by RetroScreen.
+// Every primitive is first reduced to path data. Arcs are turned into cubic Béziers, so all
+// geometry is lines and Béziers, which stay exact under affine transforms. Control points are
+// mapped into logical space before flattening, so the tolerance is measured in screen units.
+
+export interface SvgImportOptions {
+  // Max deviation of the flattened polyline from the true curve, in 0-100 logical units
+  tolerance?: number;
+  // Margin left around the artwork when fitting it to the screen, in logical units
+  padding?: number;
+}
+
+type Matrix = [number, number, number, number, number, number]; // a b c d e f
+
+interface Segment {
+  type: 'L' | 'Q' | 'C';
+  points: VectorPoint[]; // control points after the current point, ending at the segment end
+}
+
+interface Subpath {
+  start: VectorPoint;
+  segments: Segment[];
+  closed: boolean;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_SUBDIVISION_DEPTH = 16;
+const SKIPPED_CONTAINERS = new Set(['defs', 'clipPath', 'mask', 'symbol', 'marker', 'pattern', 'style', 'script', 'title', 'desc']);
+
+// --- Matrix helpers ---
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const apply = (m: Matrix, p: VectorPoint): VectorPoint => ({
+  x: m[0] * p.x + m[2] * p.y + m[4],
+  y: m[1] * p.x + m[3] * p.y + m[5]
+});
+
+const parseNumbers = (s: string): number[] =>
+  (s.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) || []).map(Number);
+
+export const parseTransform = (value: string | null): Matrix => {
+  if (!value) return IDENTITY;
+  let result = IDENTITY;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = re.exec(value)) !== null) {
+    const [, op, rawArgs] = match;
+    const args = parseNumbers(rawArgs);
+    let m: Matrix = IDENTITY;
+
+    switch (op) {
+      case 'matrix':
+        if (args.length === 6) m = args as Matrix;
+        break;
+      case 'translate':
+        m = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+        break;
+      case 'scale':
+        m = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const a = ((args[0] || 0) * Math.PI) / 180;
+        const cos = Math.cos(a);
+        const sin = Math.sin(a);
+        m = [cos, sin, -sin, cos, 0, 0];
+        if (args.length === 3) {
+          const [, cx, cy] = args;
+          m = multiply(multiply([1, 0, 0, 1, cx, cy], m), [1, 0, 0, 1, -cx, -cy]);
+        }
+        break;
+      }
+      case 'skewX':
+        m = [1, 0, Math.tan(((args[0] || 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        m = [1, Math.tan(((args[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    result = multiply(result, m);
+  }
+  return result;
+};
+
+// --- Path data parsing ---
+
+const PARAM_COUNT: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0 };
+
+// Arc flags may be written without separators ("a1 1 0 0110 10"), so the tokenizer tracks
+// the current command and reads flag positions as single digits
+const tokenizePath = (d: string): (string | number)[] => {
+  const tokens: (string | number)[] = [];
+  const numberRe = /[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/y;
+  let cmd = '';
+  let argIndex = 0;
+  let i = 0;
+
+  while (i < d.length) {
+    const ch = d[i];
+    if (/[MmLlHhVvCcSsQqTtAaZz]/.test(ch)) {
+      tokens.push(ch);
+      cmd = ch.toUpperCase();
+      argIndex = 0;
+      i++;
+      continue;
+    }
+    if (/[\s,]/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (cmd === 'A' && (argIndex % 7 === 3 || argIndex % 7 === 4) && (ch === '0' || ch === '1')) {
+      tokens.push(Number(ch));
+      argIndex++;
+      i++;
+      continue;
+    }
+    numberRe.lastIndex = i;
+    const match = numberRe.exec(d);
+    if (!match) {
+      i++;
+      continue;
+    }
+    tokens.push(Number(match[0]));
+    argIndex++;
+    i = numberRe.lastIndex;
+  }
+  return tokens;
+};
+
+// SVG arc endpoint parameterisation -> cubic Bézier segments (F.6 of the SVG spec)
+const arcToCubics = (
+  from: VectorPoint, rxIn: number, ryIn: number, angleDeg: number,
+  largeArc: boolean, sweep: boolean, to: VectorPoint
+): Segment[] => {
+  if (from.x === to.x && from.y === to.y) return [];
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0) return [{ type: 'L', points: [to] }];
+
+  const phi = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  let coef = Math.sqrt(Math.max(0, num / den));
+  if (largeArc === sweep) coef = -coef;
+  const cx1 = (coef * rx * y1) / ry;
+  const cy1 = (-coef * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // Split into pieces of at most 90 degrees
+  const pieces = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / pieces;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const segments: Segment[] = [];
+
+  const rotate = (x: number, y: number) => ({ x: cos * x - sin * y, y: sin * x + cos * y });
+  const pointAt = (t: number) => {
+    const p = rotate(rx * Math.cos(t), ry * Math.sin(t));
+    return { x: p.x + cx, y: p.y + cy };
+  };
+
+  for (let i = 0; i < pieces; i++) {
+    const t1 = theta1 + i * step;
+    const t2 = t1 + step;
+    // Control points sit along the tangents: P1 + k * P1', P2 - k * P2'
+    const p1 = pointAt(t1);
+    const p2 = pointAt(t2);
+    const r1 = rotate(-rx * Math.sin(t1), ry * Math.cos(t1));
+    const r2 = rotate(-rx * Math.sin(t2), ry * Math.cos(t2));
+    segments.push({
+      type: 'C',
+      points: [
+        { x: p1.x + k * r1.x, y: p1.y + k * r1.y },
+        { x: p2.x - k * r2.x, y: p2.y - k * r2.y },
+        i === pieces - 1 ? to : p2
+      ]
+    });
+  }
+  return segments;
+};
+
+export const parsePathData = (d: string): Subpath[] => {
+  const tokens = tokenizePath(d);
+  const subpaths: Subpath[] = [];
+  let current: Subpath | null = null;
+  let pos: VectorPoint = { x: 0, y: 0 };
+  let lastControl: VectorPoint | null = null;
+  let lastType = '';
+  let cmd = '';
+  let i = 0;
+
+  const ensureSubpath = () => {
+    if (!current) {
+      current = { start: { ...pos }, segments: [], closed: false };
+      subpaths.push(current);
+    }
+    return current;
+  };
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (typeof token === 'string') {
+      cmd = token;
+      i++;
+      if (cmd === 'Z' || cmd === 'z') {
+        if (current) {
+          (current as Subpath).closed = true;
+          pos = { ...(current as Subpath).start };
+        }
+        current = null;
+        lastControl = null;
+        lastType = 'Z';
+        continue;
+      }
+    } else if (!cmd || cmd === 'Z' || cmd === 'z') {
+      // Numbers before the first command or after a closepath are malformed; skip them
+      i++;
+      continue;
+    }
+
+    const upper = cmd.toUpperCase();
+    const relative = cmd !== upper;
+    const count = PARAM_COUNT[upper];
+    const args: number[] = [];
+    while (args.length < count && i < tokens.length && typeof tokens[i] === 'number') {
+      args.push(tokens[i] as number);
+      i++;
+    }
+    if (args.length < count) break;
+
+    const abs = (x: number, y: number): VectorPoint => relative ? { x: pos.x + x, y: pos.y + y } : { x, y };
+    // Reflection of the previous control point, for the smooth S/T forms
+    const reflect = (types: string[]): VectorPoint =>
+      lastControl && types.includes(lastType)
+        ? { x: 2 * pos.x - lastControl.x, y: 2 * pos.y - lastControl.y }
+        : { ...pos };
+
+    switch (upper) {
+      case 'M': {
+        pos = abs(args[0], args[1]);
+        current = { start: { ...pos }, segments: [], closed: false };
+        subpaths.push(current);
+        lastControl = null;
+        // Extra coordinate pairs after a moveto are implicit linetos
+        cmd = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+      case 'H':
+      case 'V': {
+        const sub = ensureSubpath();
+        let to: VectorPoint;
+        if (upper === 'L') to = abs(args[0], args[1]);
+        else if (upper === 'H') to = { x: relative ? pos.x + args[0] : args[0], y: pos.y };
+        else to = { x: pos.x, y: relative ? pos.y + args[0] : args[0] };
+        sub.segments.push({ type: 'L', points: [to] });
+        pos = to;
+        lastControl = null;
+        break;
+      }
+      case 'C':
+      case 'S': {
+        const sub = ensureSubpath();
+        const c1 = upper === 'C' ? abs(args[0], args[1]) : reflect(['C', 'S']);
+        const off = upper === 'C' ? 2 : 0;
+        const c2 = abs(args[off], args[off + 1]);
+        const to = abs(args[off + 2], args[off + 3]);
+        sub.segments.push({ type: 'C', points: [c1, c2, to] });
+        lastControl = c2;
+        pos = to;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const sub = ensureSubpath();
+        const c = upper === 'Q' ? abs(args[0], args[1]) : reflect(['Q', 'T']);
+        const to = upper === 'Q' ? abs(args[2], args[3]) : abs(args[0], args[1]);
+        sub.segments.push({ type: 'Q', points: [c, to] });
+        lastControl = c;
+        pos = to;
+        break;
+      }
+      case 'A': {
+        const sub = ensureSubpath();
+        const to = abs(args[5], args[6]);
+        sub.segments.push(...arcToCubics(pos, args[0], args[1], args[2], args[3] !== 0, args[4] !== 0, to));
+        pos = to;
+        lastControl = null;
+        break;
+      }
+    }
+    lastType = upper;
+  }
+
+  return subpaths;
+};
+
+// --- Element -> path data ---
+
+const num = (el: Element, attr: string, fallback = 0) => {
+  const v = parseFloat(el.getAttribute(attr) || '');
+  return Number.isFinite(v) ? v : fallback;
+};
+
+const ellipsePath = (cx: number, cy: number, rx: number, ry: number) =>
+  `M${cx - rx},${cy} A${rx},${ry} 0 1 0 ${cx + rx},${cy} A${rx},${ry} 0 1 0 ${cx - rx},${cy} Z`;
+
+const pointsPath = (el: Element, close: boolean) => {
+  const n = parseNumbers(el.getAttribute('points') || '');
+  if (n.length < 4) return null;
+  let d = `M${n[0]},${n[1]}`;
+  for (let i = 2; i + 1 < n.length; i += 2) d += ` L${n[i]},${n[i + 1]}`;
+  return close ? `${d} Z` : d;
+};
+
+export const elementToPathData = (el: Element): string | null => {
+  switch (el.tagName.toLowerCase()) {
+    case 'path':
+      return el.getAttribute('d');
+    case 'line':
+      return `M${num(el, 'x1')},${num(el, 'y1')} L${num(el, 'x2')},${num(el, 'y2')}`;
+    case 'polyline':
+      return pointsPath(el, false);
+    case 'polygon':
+      return pointsPath(el, true);
+    case 'rect': {
+      const x = num(el, 'x');
+      const y = num(el, 'y');
+      const w = num(el, 'width');
+      const h = num(el, 'height');
+      if (w <= 0 || h <= 0) return null;
+      let rx = num(el, 'rx', NaN);
+      let ry = num(el, 'ry', NaN);
+      if (Number.isNaN(rx)) rx = Number.isNaN(ry) ? 0 : ry;
+      if (Number.isNaN(ry)) ry = rx;
+      rx = Math.min(rx, w / 2);
+      ry = Math.min(ry, h / 2);
+      if (rx <= 0 || ry <= 0) return `M${x},${y} H${x + w} V${y + h} H${x} Z`;
+      return `M${x + rx},${y} H${x + w - rx} A${rx},${ry} 0 0 1 ${x + w},${y + ry} ` +
+        `V${y + h - ry} A${rx},${ry} 0 0 1 ${x + w - rx},${y + h} H${x + rx} ` +
+        `A${rx},${ry} 0 0 1 ${x},${y + h - ry} V${y + ry} A${rx},${ry} 0 0 1 ${x + rx},${y} Z`;
+    }
+    case 'circle': {
+      const r = num(el, 'r');
+      return r > 0 ? ellipsePath(num(el, 'cx'), num(el, 'cy'), r, r) : null;
+    }
+    case 'ellipse': {
+      const rx = num(el, 'rx');
+      const ry = num(el, 'ry');
+      return rx > 0 && ry > 0 ? ellipsePath(num(el, 'cx'), num(el, 'cy'), rx, ry) : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// --- Flattening ---
+
+const distToChord = (p: VectorPoint, a: VectorPoint, b: VectorPoint) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len = Math.hypot(dx, dy);
+  if (len === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / len;
+};
+
+const lerp = (a: VectorPoint, b: VectorPoint, t = 0.5): VectorPoint => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t
+});
+
+// Recursive de Casteljau subdivision until control points lie within tolerance of the chord
+const flattenCubic = (
+  p0: VectorPoint, p1: VectorPoint, p2: VectorPoint, p3: VectorPoint,
+  tolerance: number, out: VectorPoint[], depth = 0
+) => {
+  if (depth >= MAX_SUBDIVISION_DEPTH ||
+      Math.max(distToChord(p1, p0, p3), distToChord(p2, p0, p3)) <= tolerance) {
+    out.push(p3);
+    return;
+  }
+  const p01 = lerp(p0, p1);
+  const p12 = lerp(p1, p2);
+  const p23 = lerp(p2, p3);
+  const p012 = lerp(p01, p12);
+  const p123 = lerp(p12, p23);
+  const mid = lerp(p012, p123);
+  flattenCubic(p0, p01, p012, mid, tolerance, out, depth + 1);
+  flattenCubic(mid, p123, p23, p3, tolerance, out, depth + 1);
+};
+
+const flattenQuadratic = (
+  p0: VectorPoint, p1: VectorPoint, p2: VectorPoint,
+  tolerance: number, out: VectorPoint[], depth = 0
+) => {
+  if (depth >= MAX_SUBDIVISION_DEPTH || distToChord(p1, p0, p2) <= tolerance) {
+    out.push(p2);
+    return;
+  }
+  const p01 = lerp(p0, p1);
+  const p12 = lerp(p1, p2);
+  const mid = lerp(p01, p12);
+  flattenQuadratic(p0, p01, mid, tolerance, out, depth + 1);
+  flattenQuadratic(mid, p12, p2, tolerance, out, depth + 1);
+};
+
+export const flattenSubpath = (sub: Subpath, m: Matrix, tolerance: number): VectorPoint[] => {
+  let pos = apply(m, sub.start);
+  const out: VectorPoint[] = [pos];
+  sub.segments.forEach(seg => {
+    const pts = seg.points.map(p => apply(m, p));
+    if (seg.type === 'L') out.push(pts[0]);
+    else if (seg.type === 'Q') flattenQuadratic(pos, pts[0], pts[1], tolerance, out);
+    else flattenCubic(pos, pts[0], pts[1], pts[2], tolerance, out);
+    pos = out[out.length - 1];
+  });
+
+  // Closing is expressed with the closed flag, not a duplicated vertex
+  if (sub.closed && out.length > 1) {
+    const first = out[0];
+    const last = out[out.length - 1];
+    if (Math.abs(first.x - last.x) < 1e-9 && Math.abs(first.y - last.y) < 1e-9) out.pop();
+  }
+  return out;
+};
+
+// --- Document traversal ---
+
+interface CollectedPath {
+  subpaths: Subpath[];
+  matrix: Matrix;
+}
+
+// A presentation property, from the inline style if it sets one (that wins) or else the attribute
+const presentation = (el: Element, name: string): string | null => {
+  for (const declaration of (el.getAttribute('style') ?? '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon >= 0 && declaration.slice(0, colon).trim().toLowerCase() === name) {
+      return declaration.slice(colon + 1).replace(/!important/i, '').trim().toLowerCase();
+    }
+  }
+  return el.getAttribute(name);
+};
+
+// Inkscape and Illustrator hide layers with style="display:none" rather than the attribute
+const isHidden = (el: Element) =>
+  presentation(el, 'display') === 'none' || ['hidden', 'collapse'].includes(presentation(el, 'visibility') ?? '');
+
+const collect = (el: Element, parent: Matrix, out: CollectedPath[]) => {
+  if (SKIPPED_CONTAINERS.has(el.tagName) || isHidden(el)) return;
+  const matrix = multiply(parent, parseTransform(el.getAttribute('transform')));
+
+  const d = elementToPathData(el);
+  if (d) {
+    const subpaths = parsePathData(d).filter(s => s.segments.length > 0);
+    if (subpaths.length > 0) out.push({ subpaths, matrix });
+  }
+
+  Array.from(el.children).forEach(child => collect(child, matrix, out));
+};
+
+// viewBox (or width/height) of the root element, in user units
+const readViewBox = (svg: Element) => {
+  const vb = parseNumbers(svg.getAttribute('viewBox') || '');
+  if (vb.length === 4 && vb[2] > 0 && vb[3] > 0) {
+    return { x: vb[0], y: vb[1], width: vb[2], height: vb[3] };
+  }
+  const width = num(svg, 'width');
+  const height = num(svg, 'height');
+  return width > 0 && height > 0 ? { x: 0, y: 0, width, height } : null;
+};
+
+export const svgToVectorShapes = (source: string, options: SvgImportOptions = {}): VectorShape[] => {
+  const tolerance = Math.max(0.01, options.tolerance ?? 0.25);
+  const padding = options.padding ?? 5;
+
+  const doc = new DOMParser().parseFromString(source, 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (!svg || svg.tagName.toLowerCase() !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid SVG document');
+  }
+
+  const collected: CollectedPath[] = [];
+  Array.from(svg.children).forEach(child => collect(child, IDENTITY, collected));
+  if (collected.length === 0) return [];
+
+  // Fall back to the artwork's own bounds when there is no viewBox
+  let box = readViewBox(svg);
+  if (!box) {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    collected.forEach(c => c.subpaths.forEach(s => flattenSubpath(s, c.matrix, 1).forEach(p => {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    })));
+    box = { x: minX, y: minY, width: Math.max(1e-6, maxX - minX), height: Math.max(1e-6, maxY - minY) };
+  }
+
+  // Uniform fit (preserveAspectRatio xMidYMid meet) into the padded 0-100 square
+  const avail = 100 - padding * 2;
+  const s = Math.min(avail / box.width, avail / box.height);
+  const ox = padding + (avail - box.width * s) / 2 - box.x * s;
+  const oy = padding + (avail - box.height * s) / 2 - box.y * s;
+  const fit: Matrix = [s, 0, 0, s, ox, oy];
+
+  const shapes: VectorShape[] = [];
+  collected.forEach((c, ci) => {
+    const m = multiply(fit, c.matrix);
+    c.subpaths.forEach((sub, si) => {
+      const points = flattenSubpath(sub, m, tolerance);
+      if (points.length < 2) return;
+      shapes.push({ id: `svg-${ci}-${si}`, points, closed: sub.closed && points.length >= 3 });
+    });
+  });
+  return shapes;
+};
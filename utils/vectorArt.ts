@@ -0,0 +1,173 @@
+import { VectorPoint, VectorShape } from '../types';
+import { isRecord } from './sceneFormat';
+
+// Vector art from a language model. The model is asked for JSON matching VECTOR_ART_SCHEMA;
+// parseVectorArt then checks what came back and repairs what it can: stray prose or code
+// fences around the JSON, [x, y] pairs instead of objects, drawings in the wrong range,
+// duplicate points, open/closed mix-ups and oversized drawings. Each repair is reported.
+
+export const MAX_ART_SHAPES = 64;
+export const MAX_ART_POINTS_PER_SHAPE = 200;
+export const MAX_ART_POINTS = 1500;
+
+// Margin kept when a drawing has to be refitted to the screen
+const FIT_PADDING = 5;
+
+export class VectorArtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VectorArtError';
+  }
+}
+
+export interface VectorArtResult {
+  shapes: VectorShape[];
+  repairs: string[];
+}
+
+// JSON Schema for the model's structured output
+export const VECTOR_ART_SCHEMA = {
+  type: 'object',
+  properties: {
+    shapes: {
+      type: 'array',
+      maxItems: MAX_ART_SHAPES,
+      items: {
+        type: 'object',
+        properties: {
+          points: {
+            type: 'array',
+            minItems: 1,
+            maxItems: MAX_ART_POINTS_PER_SHAPE,
+            items: {
+              type: 'object',
+              properties: {
+                x: { type: 'number', minimum: 0, maximum: 100 },
+                y: { type: 'number', minimum: 0, maximum: 100 }
+              },
+              required: ['x', 'y']
+            }
+          },
+          closed: { type: 'boolean' }
+        },
+        required: ['points', 'closed']
+      }
+    }
+  },
+  required: ['shapes']
+};
+
+// The JSON object or array in a reply, ignoring any text or code fence around it
+const extractJson = (text: string): unknown => {
+  const body = text.replace(/```(?:json)?/gi, '');
+  const start = body.search(/[[{]/);
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  if (start < 0 || end <= start) throw new VectorArtError('No JSON in the reply');
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch {
+    throw new VectorArtError('The reply is not valid JSON');
+  }
+};
+
+const toPoint = (raw: unknown): VectorPoint | null => {
+  const [x, y]: unknown[] = Array.isArray(raw) ? raw : isRecord(raw) ? [raw.x, raw.y] : [];
+  const px = Number(x);
+  const py = Number(y);
+  return Number.isFinite(px) && Number.isFinite(py) ? { x: px, y: py } : null;
+};
+
+const toClosed = (raw: unknown): boolean | null => {
+  if (typeof raw === 'boolean') return raw;
+  if (raw === 'true' || raw === 1) return true;
+  if (raw === 'false' || raw === 0) return false;
+  return null;
+};
+
+// Every `step`-th point, always keeping the last one
+const decimate = (points: VectorPoint[], max: number): VectorPoint[] => {
+  const step = Math.ceil(points.length / max);
+  const kept = points.filter((_, i) => i % step === 0);
+  if (kept[kept.length - 1] !== points[points.length - 1]) kept[kept.length - 1] = points[points.length - 1];
+  return kept;
+};
+
+export const parseVectorArt = (text: string): VectorArtResult => {
+  const json = extractJson(text);
+  const rawShapes = Array.isArray(json) ? json : isRecord(json) ? json.shapes : undefined;
+  if (!Array.isArray(rawShapes)) throw new VectorArtError('The reply has no shapes array');
+
+  const repairs: string[] = [];
+  const note = (message: string) => {
+    if (!repairs.includes(message)) repairs.push(message);
+  };
+
+  let shapes: VectorShape[] = [];
+  rawShapes.forEach((raw: unknown, i: number) => {
+    const rawPoints = Array.isArray(raw) ? raw : isRecord(raw) ? raw.points : undefined;
+    if (!Array.isArray(rawPoints)) {
+      note('dropped shapes without points');
+      return;
+    }
+
+    let points = rawPoints.map(toPoint).filter((p): p is VectorPoint => p !== null);
+    if (points.length < rawPoints.length) note('dropped points that were not numbers');
+    const deduped = points.filter((p, j) => j === 0 || p.x !== points[j - 1].x || p.y !== points[j - 1].y);
+    if (deduped.length < points.length) note('removed repeated points');
+    points = deduped;
+    if (points.length === 0) return;
+
+    let closed = toClosed(isRecord(raw) ? raw.closed : undefined);
+    const first = points[0];
+    const last = points[points.length - 1];
+    const loops = points.length > 3 && first.x === last.x && first.y === last.y;
+    if (closed === null) {
+      closed = loops;
+      note('guessed missing closed flags');
+    }
+    // A closed shape returns to its start on its own
+    if (closed && loops) points = points.slice(0, -1);
+    if (closed && points.length < 3) {
+      closed = false;
+      note('opened closed shapes with fewer than 3 points');
+    }
+
+    if (points.length > MAX_ART_POINTS_PER_SHAPE) {
+      points = decimate(points, MAX_ART_POINTS_PER_SHAPE);
+      note(`thinned shapes to ${MAX_ART_POINTS_PER_SHAPE} points`);
+    }
+    shapes.push({ id: `art-${i}`, points, closed });
+  });
+
+  if (shapes.length > MAX_ART_SHAPES) {
+    shapes = shapes.slice(0, MAX_ART_SHAPES);
+    note(`kept the first ${MAX_ART_SHAPES} shapes`);
+  }
+  let total = 0;
+  shapes = shapes.filter(s => (total += s.points.length) <= MAX_ART_POINTS);
+  if (total > MAX_ART_POINTS) note(`kept the first ${MAX_ART_POINTS} points`);
+  if (shapes.length === 0) throw new VectorArtError('The reply has no drawable shapes');
+
+  // Anything outside 0-100 means the model drew in another range: refit the whole drawing
+  // (keeping its proportions) rather than clamping and squashing the edges
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  shapes.forEach(shape => shape.points.forEach(p => {
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y);
+    maxY = Math.max(maxY, p.y);
+  }));
+  if (minX < 0 || minY < 0 || maxX > 100 || maxY > 100) {
+    const avail = 100 - FIT_PADDING * 2;
+    const s = avail / Math.max(maxX - minX, maxY - minY, 1e-6);
+    const ox = FIT_PADDING + (avail - (maxX - minX) * s) / 2;
+    const oy = FIT_PADDING + (avail - (maxY - minY) * s) / 2;
+    shapes = shapes.map(shape => ({
+      ...shape,
+      points: shape.points.map(p => ({ x: ox + (p.x - minX) * s, y: oy + (p.y - minY) * s }))
+    }));
+    note('scaled the drawing to fit the screen');
+  }
+
+  return { shapes, repairs };
+};
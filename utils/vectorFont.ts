@@ -1,86 +1,323 @@
 import { VectorShape } from '../types';
 
-// Simple 3x5 grid font definitions (normalized 0-1)
-const CHAR_MAP: Record<string, number[][][]> = {
-  'A': [[[0, 1], [0.5, 0], [1, 1]], [[0.2, 0.6], [0.8, 0.6]]],
-  'B': [[[0, 1], [0, 0], [0.7, 0], [0.8, 0.2], [0.7, 0.5], [0, 0.5], [0.7, 0.5], [0.8, 0.8], [0.7, 1], [0, 1]]],
-  'C': [[[1, 0.2], [0.8, 0], [0.2, 0], [0, 0.2], [0, 0.8], [0.2, 1], [0.8, 1], [1, 0.8]]],
-  'D': [[[0, 1], [0, 0], [0.7, 0], [1, 0.3], [1, 0.7], [0.7, 1], [0, 1]]],
-  'E': [[[1, 0], [0, 0], [0, 1], [1, 1]], [[0, 0.5], [0.8, 0.5]]],
-  'F': [[[1, 0], [0, 0], [0, 1]], [[0, 0.5], [0.8, 0.5]]],
-  'G': [[[1, 0.2], [0.8, 0], [0.2, 0], [0, 0.2], [0, 0.8], [0.2, 1], [0.8, 1], [1, 0.8], [1, 0.5], [0.5, 0.5]]],
-  'H': [[[0, 0], [0, 1]], [[1, 0], [1, 1]], [[0, 0.5], [1, 0.5]]],
-  'I': [[[0.5, 0], [0.5, 1]], [[0, 0], [1, 0]], [[0, 1], [1, 1]]],
-  'J': [[[0.8, 0], [0.8, 0.8], [0.6, 1], [0.2, 1], [0, 0.8]]],
-  'K': [[[0, 0], [0, 1]], [[1, 0], [0, 0.5], [1, 1]]],
-  'L': [[[0, 0], [0, 1], [1, 1]]],
-  'M': [[[0, 1], [0, 0], [0.5, 0.5], [1, 0], [1, 1]]],
-  'N': [[[0, 1], [0, 0], [1, 1], [1, 0]]],
-  'O': [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
-  'P': [[[0, 1], [0, 0], [1, 0], [1, 0.5], [0, 0.5]]],
-  'Q': [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]], [[0.6, 0.6], [1, 1]]],
-  'R': [[[0, 1], [0, 0], [1, 0], [1, 0.5], [0, 0.5], [1, 1]]],
-  'S': [[[1, 0.2], [0.8, 0], [0.2, 0], [0, 0.2], [0.8, 0.8], [1, 0.8], [0.8, 1], [0.2, 1], [0, 0.8]]],
-  'T': [[[0.5, 0], [0.5, 1]], [[0, 0], [1, 0]]],
-  'U': [[[0, 0], [0, 0.8], [0.2, 1], [0.8, 1], [1, 0.8], [1, 0]]],
-  'V': [[[0, 0], [0.5, 1], [1, 0]]],
-  'W': [[[0, 0], [0.2, 1], [0.5, 0.5], [0.8, 1], [1, 0]]],
-  'X': [[[0, 0], [1, 1]], [[1, 0], [0, 1]]],
-  'Y': [[[0, 0], [0.5, 0.5]], [[1, 0], [0.5, 0.5], [0.5, 1]]],
-  'Z': [[[0, 0], [1, 0], [0, 1], [1, 1]]],
-  '0': [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0], [1, 1]]],
-  '1': [[[0.2, 0], [0.5, 0], [0.5, 1], [0.2, 1], [0.8, 1]]],
-  '2': [[[0, 0.2], [0.2, 0], [0.8, 0], [1, 0.2], [1, 0.5], [0, 1], [1, 1]]],
-  '3': [[[0, 0], [1, 0], [0.5, 0.5], [1, 0.5], [1, 1], [0, 1]]],
-  '4': [[[0.8, 1], [0.8, 0]], [[0, 0.5], [0.8, 0.5], [0.6, 0]]],
-  '5': [[[1, 0], [0, 0], [0, 0.4], [0.8, 0.4], [1, 0.6], [1, 0.8], [0.8, 1], [0, 1]]],
-  '6': [[[1, 0], [0.2, 0.2], [0, 0.5], [0, 0.8], [0.2, 1], [0.8, 1], [1, 0.8], [1, 0.5], [0, 0.5]]],
-  '7': [[[0, 0], [1, 0], [0.4, 1]]],
-  '8': [[[0.5, 0.5], [0.2, 0.2], [0.5, 0], [0.8, 0.2], [0.5, 0.5], [0.8, 0.8], [0.5, 1], [0.2, 0.8], [0.5, 0.5]]],
-  '9': [[[1, 0.5], [0, 0.5], [0.2, 0.2], [0.8, 0.2], [1, 0.5], [0.8, 0.8], [0, 1]]],
-  ' ': [],
-  '.': [[[0.4, 0.9], [0.6, 0.9], [0.6, 1], [0.4, 1], [0.4, 0.9]]],
-  '-': [[[0.2, 0.5], [0.8, 0.5]]],
-  '?': [[[0, 0.2], [0.2, 0], [0.8, 0], [1, 0.2], [1, 0.4], [0.5, 0.6], [0.5, 0.8]], [[0.5, 0.95], [0.5, 1]]]
+// Stroke font and text layout for TEXT mode.
+// Glyph coordinates are in em units: y = 0 is the cap height, y = 1 the baseline, lowercase
+// x-height sits at 0.4 and descenders reach down to 1.3. x runs from 0 to the glyph's width.
+
+export interface Glyph {
+  width: number;
+  strokes: number[][][];
+}
+
+export interface VectorFont {
+  id: string;
+  name: string;
+  glyphs: Record<string, Glyph>;
+  // Extra advance for a character pair, in em units (negative pulls the pair together)
+  kerning: Record<string, number>;
+  letterSpacing: number; // em gap added after every glyph
+  spaceWidth: number;
+  fallback: Glyph; // drawn for characters the font doesn't cover
+}
+
+const glyph = (strokes: number[][][], width = 1): Glyph => ({ width, strokes });
+
+const BUILTIN_GLYPHS: Record<string, Glyph> = {
+  // Uppercase
+  'A': glyph([[[0, 1], [0.5, 0], [1, 1]], [[0.2, 0.6], [0.8, 0.6]]]),
+  'B': glyph([[[0, 1], [0, 0], [0.7, 0], [0.8, 0.2], [0.7, 0.5], [0, 0.5], [0.7, 0.5], [0.8, 0.8], [0.7, 1], [0, 1]]], 0.8),
+  'C': glyph([[[1, 0.2], [0.8, 0], [0.2, 0], [0, 0.2], [0, 0.8], [0.2, 1], [0.8, 1], [1, 0.8]]]),
+  'D': glyph([[[0, 1], [0, 0], [0.7, 0], [1, 0.3], [1, 0.7], [0.7, 1], [0, 1]]]),
+  'E': glyph([[[0.8, 0], [0, 0], [0, 1], [0.8, 1]], [[0, 0.5], [0.6, 0.5]]], 0.8),
+  'F': glyph([[[0.8, 0], [0, 0], [0, 1]], [[0, 0.5], [0.6, 0.5]]], 0.8),
+  'G': glyph([[[1, 0.2], [0.8, 0], [0.2, 0], [0, 0.2], [0, 0.8], [0.2, 1], [0.8, 1], [1, 0.8], [1, 0.5], [0.5, 0.5]]]),
+  'H': glyph([[[0, 0], [0, 1]], [[1, 0], [1, 1]], [[0, 0.5], [1, 0.5]]]),
+  'I': glyph([[[0.3, 0], [0.3, 1]], [[0, 0], [0.6, 0]], [[0, 1], [0.6, 1]]], 0.6),
+  'J': glyph([[[0.8, 0], [0.8, 0.8], [0.6, 1], [0.2, 1], [0, 0.8]]], 0.8),
+  'K': glyph([[[0, 0], [0, 1]], [[0.9, 0], [0, 0.5], [0.9, 1]]], 0.9),
+  'L': glyph([[[0, 0], [0, 1], [0.8, 1]]], 0.8),
+  'M': glyph([[[0, 1], [0, 0], [0.55, 0.5], [1.1, 0], [1.1, 1]]], 1.1),
+  'N': glyph([[[0, 1], [0, 0], [1, 1], [1, 0]]]),
+  'O': glyph([[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]]),
+  'P': glyph([[[0, 1], [0, 0], [0.9, 0], [0.9, 0.5], [0, 0.5]]], 0.9),
+  'Q': glyph([[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]], [[0.6, 0.6], [1, 1]]]),
+  'R': glyph([[[0, 1], [0, 0], [0.9, 0], [0.9, 0.5], [0, 0.5], [0.9, 1]]], 0.9),
+  'S': glyph([[[1, 0.2], [0.8, 0], [0.2, 0], [0, 0.2], [0.8, 0.8], [1, 0.8], [0.8, 1], [0.2, 1], [0, 0.8]]]),
+  'T': glyph([[[0.5, 0], [0.5, 1]], [[0, 0], [1, 0]]]),
+  'U': glyph([[[0, 0], [0, 0.8], [0.2, 1], [0.8, 1], [1, 0.8], [1, 0]]]),
+  'V': glyph([[[0, 0], [0.5, 1], [1, 0]]]),
+  'W': glyph([[[0, 0], [0.25, 1], [0.6, 0.5], [0.95, 1], [1.2, 0]]], 1.2),
+  'X': glyph([[[0, 0], [1, 1]], [[1, 0], [0, 1]]]),
+  'Y': glyph([[[0, 0], [0.5, 0.5]], [[1, 0], [0.5, 0.5], [0.5, 1]]]),
+  'Z': glyph([[[0, 0], [1, 0], [0, 1], [1, 1]]]),
+
+  // Lowercase
+  'a': glyph([[[0.1, 0.45], [0.3, 0.4], [0.6, 0.4], [0.8, 0.5], [0.8, 1]], [[0.8, 0.65], [0.2, 0.65], [0, 0.75], [0, 0.9], [0.2, 1], [0.6, 1], [0.8, 0.9]]], 0.8),
+  'b': glyph([[[0, 0], [0, 1]], [[0, 0.55], [0.2, 0.4], [0.6, 0.4], [0.8, 0.55], [0.8, 0.85], [0.6, 1], [0.2, 1], [0, 0.85]]], 0.8),
+  'c': glyph([[[0.8, 0.5], [0.6, 0.4], [0.2, 0.4], [0, 0.55], [0, 0.85], [0.2, 1], [0.6, 1], [0.8, 0.9]]], 0.8),
+  'd': glyph([[[0.8, 0], [0.8, 1]], [[0.8, 0.55], [0.6, 0.4], [0.2, 0.4], [0, 0.55], [0, 0.85], [0.2, 1], [0.6, 1], [0.8, 0.85]]], 0.8),
+  'e': glyph([[[0, 0.7], [0.8, 0.7], [0.8, 0.55], [0.6, 0.4], [0.2, 0.4], [0, 0.55], [0, 0.85], [0.2, 1], [0.6, 1], [0.8, 0.9]]], 0.8),
+  'f': glyph([[[0.6, 0.05], [0.45, 0], [0.3, 0.05], [0.2, 0.2], [0.2, 1]], [[0, 0.4], [0.5, 0.4]]], 0.6),
+  'g': glyph([[[0.8, 0.4], [0.8, 1.15], [0.6, 1.3], [0.2, 1.3], [0, 1.2]], [[0.8, 0.55], [0.6, 0.4], [0.2, 0.4], [0, 0.55], [0, 0.8], [0.2, 0.95], [0.6, 0.95], [0.8, 0.8]]], 0.8),
+  'h': glyph([[[0, 0], [0, 1]], [[0, 0.55], [0.2, 0.4], [0.6, 0.4], [0.8, 0.55], [0.8, 1]]], 0.8),
+  'i': glyph([[[0.1, 0.4], [0.1, 1]], [[0.1, 0.15], [0.1, 0.22]]], 0.2),
+  'j': glyph([[[0.4, 0.4], [0.4, 1.15], [0.25, 1.3], [0, 1.3]], [[0.4, 0.15], [0.4, 0.22]]], 0.5),
+  'k': glyph([[[0, 0], [0, 1]], [[0.7, 0.4], [0, 0.75]], [[0.25, 0.6], [0.7, 1]]], 0.7),
+  'l': glyph([[[0.1, 0], [0.1, 0.9], [0.3, 1]]], 0.3),
+  'm': glyph([[[0, 1], [0, 0.4]], [[0, 0.55], [0.15, 0.4], [0.35, 0.4], [0.5, 0.55], [0.5, 1]], [[0.5, 0.55], [0.65, 0.4], [0.85, 0.4], [1, 0.55], [1, 1]]]),
+  'n': glyph([[[0, 0.4], [0, 1]], [[0, 0.55], [0.2, 0.4], [0.6, 0.4], [0.8, 0.55], [0.8, 1]]], 0.8),
+  'o': glyph([[[0.2, 0.4], [0.6, 0.4], [0.8, 0.55], [0.8, 0.85], [0.6, 1], [0.2, 1], [0, 0.85], [0, 0.55], [0.2, 0.4]]], 0.8),
+  'p': glyph([[[0, 0.4], [0, 1.3]], [[0, 0.55], [0.2, 0.4], [0.6, 0.4], [0.8, 0.55], [0.8, 0.85], [0.6, 1], [0.2, 1], [0, 0.85]]], 0.8),
+  'q': glyph([[[0.8, 0.4], [0.8, 1.3]], [[0.8, 0.55], [0.6, 0.4], [0.2, 0.4], [0, 0.55], [0, 0.85], [0.2, 1], [0.6, 1], [0.8, 0.85]]], 0.8),
+  'r': glyph([[[0, 0.4], [0, 1]], [[0, 0.6], [0.2, 0.43], [0.4, 0.4], [0.6, 0.45]]], 0.6),
+  's': glyph([[[0.7, 0.45], [0.5, 0.4], [0.15, 0.4], [0, 0.5], [0.1, 0.65], [0.6, 0.75], [0.7, 0.88], [0.55, 1], [0.15, 1], [0, 0.95]]], 0.7),
+  't': glyph([[[0.2, 0.1], [0.2, 0.9], [0.35, 1], [0.6, 0.95]], [[0, 0.4], [0.55, 0.4]]], 0.6),
+  'u': glyph([[[0, 0.4], [0, 0.85], [0.2, 1], [0.6, 1], [0.8, 0.85]], [[0.8, 0.4], [0.8, 1]]], 0.8),
+  'v': glyph([[[0, 0.4], [0.4, 1], [0.8, 0.4]]], 0.8),
+  'w': glyph([[[0, 0.4], [0.2, 1], [0.5, 0.6], [0.8, 1], [1, 0.4]]]),
+  'x': glyph([[[0, 0.4], [0.7, 1]], [[0.7, 0.4], [0, 1]]], 0.7),
+  'y': glyph([[[0, 0.4], [0.4, 0.95]], [[0.8, 0.4], [0.3, 1.3], [0.1, 1.3]]], 0.8),
+  'z': glyph([[[0, 0.4], [0.7, 0.4], [0, 1], [0.7, 1]]], 0.7),
+
+  // Digits
+  '0': glyph([[[0, 0], [0.8, 0], [0.8, 1], [0, 1], [0, 0], [0.8, 1]]], 0.8),
+  '1': glyph([[[0, 0.1], [0.3, 0], [0.3, 1]], [[0, 1], [0.6, 1]]], 0.6),
+  '2': glyph([[[0, 0.2], [0.2, 0], [0.6, 0], [0.8, 0.2], [0.8, 0.5], [0, 1], [0.8, 1]]], 0.8),
+  '3': glyph([[[0, 0], [0.8, 0], [0.4, 0.5], [0.8, 0.5], [0.8, 1], [0, 1]]], 0.8),
+  '4': glyph([[[0.7, 1], [0.7, 0]], [[0.8, 0.65], [0, 0.65], [0.5, 0]]], 0.8),
+  '5': glyph([[[0.8, 0], [0, 0], [0, 0.4], [0.6, 0.4], [0.8, 0.6], [0.8, 0.8], [0.6, 1], [0, 1]]], 0.8),
+  '6': glyph([[[0.8, 0], [0.2, 0.2], [0, 0.5], [0, 0.8], [0.2, 1], [0.6, 1], [0.8, 0.8], [0.8, 0.6], [0.6, 0.5], [0, 0.5]]], 0.8),
+  '7': glyph([[[0, 0], [0.8, 0], [0.3, 1]]], 0.8),
+  '8': glyph([[[0.4, 0.5], [0.1, 0.25], [0.4, 0], [0.7, 0.25], [0.4, 0.5], [0.8, 0.75], [0.4, 1], [0, 0.75], [0.4, 0.5]]], 0.8),
+  '9': glyph([[[0.8, 0.5], [0.2, 0.5], [0, 0.3], [0.2, 0], [0.6, 0], [0.8, 0.2], [0.8, 0.5], [0.6, 0.8], [0, 1]]], 0.8),
+
+  // Punctuation and symbols
+  '!': glyph([[[0.1, 0], [0.1, 0.7]], [[0.1, 0.93], [0.1, 1]]], 0.2),
+  '"': glyph([[[0.1, 0], [0.1, 0.25]], [[0.4, 0], [0.4, 0.25]]], 0.5),
+  '#': glyph([[[0.35, 0], [0.25, 1]], [[0.75, 0], [0.65, 1]], [[0, 0.35], [1, 0.35]], [[0, 0.65], [1, 0.65]]]),
+  '$': glyph([[[0.8, 0.25], [0.6, 0.1], [0.2, 0.1], [0, 0.3], [0.2, 0.5], [0.6, 0.5], [0.8, 0.7], [0.6, 0.9], [0.2, 0.9], [0, 0.75]], [[0.4, 0], [0.4, 1]]], 0.8),
+  '%': glyph([[[0, 1], [1, 0]], [[0.05, 0.05], [0.3, 0.05], [0.3, 0.3], [0.05, 0.3], [0.05, 0.05]], [[0.7, 0.7], [0.95, 0.7], [0.95, 0.95], [0.7, 0.95], [0.7, 0.7]]]),
+  '&': glyph([[[1, 1], [0.2, 0.4], [0.2, 0.15], [0.4, 0], [0.6, 0.15], [0.6, 0.3], [0, 0.7], [0, 0.9], [0.2, 1], [0.5, 1], [1, 0.5]]]),
+  '\'': glyph([[[0.1, 0], [0.1, 0.25]]], 0.2),
+  '(': glyph([[[0.4, 0], [0.1, 0.3], [0.1, 0.7], [0.4, 1]]], 0.4),
+  ')': glyph([[[0, 0], [0.3, 0.3], [0.3, 0.7], [0, 1]]], 0.4),
+  '*': glyph([[[0.4, 0.2], [0.4, 0.8]], [[0.1, 0.35], [0.7, 0.65]], [[0.7, 0.35], [0.1, 0.65]]], 0.8),
+  '+': glyph([[[0.4, 0.2], [0.4, 0.8]], [[0, 0.5], [0.8, 0.5]]], 0.8),
+  ',': glyph([[[0.2, 0.9], [0.2, 1], [0, 1.2]]], 0.3),
+  '-': glyph([[[0.1, 0.5], [0.7, 0.5]]], 0.8),
+  '.': glyph([[[0, 0.9], [0.2, 0.9], [0.2, 1], [0, 1], [0, 0.9]]], 0.2),
+  '/': glyph([[[0, 1], [0.8, 0]]], 0.8),
+  ':': glyph([[[0.1, 0.35], [0.1, 0.45]], [[0.1, 0.9], [0.1, 1]]], 0.2),
+  ';': glyph([[[0.2, 0.35], [0.2, 0.45]], [[0.2, 0.9], [0.2, 1], [0, 1.2]]], 0.3),
+  '<': glyph([[[0.7, 0.1], [0, 0.5], [0.7, 0.9]]], 0.7),
+  '=': glyph([[[0, 0.35], [0.8, 0.35]], [[0, 0.65], [0.8, 0.65]]], 0.8),
+  '>': glyph([[[0, 0.1], [0.7, 0.5], [0, 0.9]]], 0.7),
+  '?': glyph([[[0, 0.2], [0.2, 0], [0.6, 0], [0.8, 0.2], [0.8, 0.4], [0.4, 0.6], [0.4, 0.8]], [[0.4, 0.93], [0.4, 1]]], 0.8),
+  '@': glyph([[[0.7, 0.6], [0.7, 0.3], [0.4, 0.3], [0.3, 0.45], [0.4, 0.6], [0.7, 0.6], [1, 0.6], [1, 0.2], [0.8, 0], [0.2, 0], [0, 0.2], [0, 0.8], [0.2, 1], [0.9, 1]]]),
+  '[': glyph([[[0.4, 0], [0, 0], [0, 1], [0.4, 1]]], 0.4),
+  '\\': glyph([[[0, 0], [0.8, 1]]], 0.8),
+  ']': glyph([[[0, 0], [0.4, 0], [0.4, 1], [0, 1]]], 0.4),
+  '^': glyph([[[0, 0.4], [0.4, 0], [0.8, 0.4]]], 0.8),
+  '_': glyph([[[0, 1.1], [0.8, 1.1]]], 0.8),
+  '`': glyph([[[0, 0], [0.3, 0.2]]], 0.3),
+  '{': glyph([[[0.5, 0], [0.3, 0], [0.2, 0.1], [0.2, 0.4], [0, 0.5], [0.2, 0.6], [0.2, 0.9], [0.3, 1], [0.5, 1]]], 0.5),
+  '|': glyph([[[0.1, 0], [0.1, 1.2]]], 0.2),
+  '}': glyph([[[0, 0], [0.2, 0], [0.3, 0.1], [0.3, 0.4], [0.5, 0.5], [0.3, 0.6], [0.3, 0.9], [0.2, 1], [0, 1]]], 0.5),
+  '~': glyph([[[0, 0.55], [0.2, 0.4], [0.4, 0.45], [0.6, 0.55], [0.8, 0.6], [1, 0.45]]])
 };
 
-export const textToVectorShapes = (text: string, startX: number, startY: number, scale: number): VectorShape[] => {
-  const shapes: VectorShape[] = [];
-  const upperText = text.toUpperCase();
-  const spacing = 1.5 * scale;
-  
-  let currentX = startX;
-  let currentY = startY;
-  const maxCharsPerLine = 8; // simple wrap
-  let charCount = 0;
-
-  for (let i = 0; i < upperText.length; i++) {
-    const char = upperText[i];
-    
-    if (charCount >= maxCharsPerLine) {
-        currentX = startX;
-        currentY += spacing * 1.5;
-        charCount = 0;
+// Pairs whose shapes leave a visible gap at the default spacing
+const BUILTIN_KERNING: Record<string, number> = {
+  'AV': -0.25, 'VA': -0.25, 'AW': -0.2, 'WA': -0.2, 'AY': -0.25, 'YA': -0.25, 'AT': -0.2, 'TA': -0.2,
+  'Av': -0.15, 'Aw': -0.1, 'Ay': -0.15,
+  'LT': -0.3, 'LV': -0.3, 'LW': -0.25, 'LY': -0.3, 'Ly': -0.15,
+  'PA': -0.2, 'FA': -0.15,
+  'T.': -0.3, 'T,': -0.3, 'V.': -0.25, 'V,': -0.25, 'W.': -0.2, 'W,': -0.2, 'Y.': -0.3, 'Y,': -0.3,
+  'P.': -0.3, 'P,': -0.3, 'F.': -0.3, 'F,': -0.3,
+  'Ta': -0.3, 'Te': -0.3, 'To': -0.3, 'Tr': -0.2, 'Tu': -0.2, 'Ty': -0.2, 'Tw': -0.2,
+  'Va': -0.2, 'Ve': -0.2, 'Vo': -0.2, 'Wa': -0.15, 'We': -0.15, 'Wo': -0.15,
+  'Ya': -0.25, 'Ye': -0.25, 'Yo': -0.25, 'Yu': -0.2,
+  'r.': -0.2, 'r,': -0.2, 'v.': -0.15, 'v,': -0.15, 'w.': -0.1, 'w,': -0.1, 'y.': -0.15, 'y,': -0.15,
+  'f.': -0.1, 'f,': -0.1, 'LO': -0.1, 'OA': -0.1, 'AO': -0.1
+};
+
+// Crossed box, so unsupported characters are visible rather than silently dropped
+const MISSING_GLYPH = glyph([[[0, 0], [0.8, 0], [0.8, 1], [0, 1], [0, 0]], [[0, 0], [0.8, 1]]], 0.8);
+
+export const BUILTIN_FONT: VectorFont = {
+  id: 'builtin',
+  name: 'VECTOR SANS',
+  glyphs: BUILTIN_GLYPHS,
+  kerning: BUILTIN_KERNING,
+  letterSpacing: 0.3,
+  spaceWidth: 0.6,
+  fallback: MISSING_GLYPH
+};
+
+// --- Layout ---
+
+export type TextAlign = 'left' | 'center' | 'right';
+export type TextVerticalAlign = 'top' | 'middle' | 'bottom';
+
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLayoutOptions {
+  box: TextBox;
+  size: number; // cap height in logical units; the largest size tried when autoFit is on
+  font?: VectorFont;
+  align?: TextAlign;
+  verticalAlign?: TextVerticalAlign;
+  lineHeight?: number; // multiple of size
+  wrap?: boolean; // break lines at word boundaries to fit the box width
+  kerning?: boolean;
+  autoFit?: boolean; // shrink until the whole text fits the box
+  minSize?: number;
+}
+
+export interface TextLayout {
+  shapes: VectorShape[];
+  lines: string[];
+  size: number; // size actually used
+  width: number; // widest line
+  height: number;
+  overflow: boolean; // text still doesn't fit at the final size
+}
+
+const advanceOf = (font: VectorFont, char: string) =>
+  char === ' ' ? font.spaceWidth : (font.glyphs[char] ?? font.fallback).width;
+
+const kernOf = (font: VectorFont, pair: string, kerning: boolean) =>
+  kerning ? font.kerning[pair] ?? 0 : 0;
+
+// Width of a single line in em units. Letter spacing only goes between glyphs.
+const measureLine = (line: string, font: VectorFont, kerning: boolean) => {
+  let width = 0;
+  for (let i = 0; i < line.length; i++) {
+    width += advanceOf(font, line[i]);
+    if (i < line.length - 1) width += font.letterSpacing + kernOf(font, line.slice(i, i + 2), kerning);
+  }
+  return width;
+};
+
+export const measureText = (text: string, size: number, font: VectorFont = BUILTIN_FONT, kerning = true) =>
+  text.split('\n').reduce((widest, line) => Math.max(widest, measureLine(line, font, kerning)), 0) * size;
+
+// Greedy word wrap. Words wider than the line on their own are broken between characters.
+const wrapParagraph = (paragraph: string, maxWidth: number, measure: (s: string) => number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  paragraph.split(' ').forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measure(candidate) <= maxWidth) {
+      line = candidate;
+      return;
     }
+    if (line) lines.push(line);
+    line = '';
+
+    let rest = word;
+    while (rest && measure(rest) > maxWidth) {
+      let cut = 1;
+      while (cut < rest.length && measure(rest.slice(0, cut + 1)) <= maxWidth) cut++;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    line = rest;
+  });
+  lines.push(line);
+  return lines;
+};
+
+const breakLines = (text: string, size: number, options: TextLayoutOptions, font: VectorFont, kerning: boolean) => {
+  const paragraphs = text.split('\n');
+  if (options.wrap === false) return paragraphs;
+  const measure = (s: string) => measureLine(s, font, kerning) * size;
+  return paragraphs.flatMap(p => wrapParagraph(p, options.box.width, measure));
+};
+
+const fits = (lines: string[], size: number, options: TextLayoutOptions, font: VectorFont, kerning: boolean) => {
+  const lineHeight = (options.lineHeight ?? 1.6) * size;
+  const height = (lines.length - 1) * lineHeight + size;
+  const width = lines.reduce((widest, l) => Math.max(widest, measureLine(l, font, kerning) * size), 0);
+  return width <= options.box.width + 1e-6 && height <= options.box.height + 1e-6;
+};
+
+export const layoutText = (text: string, options: TextLayoutOptions): TextLayout => {
+  const font = options.font ?? BUILTIN_FONT;
+  const kerning = options.kerning ?? true;
+  const { box } = options;
 
-    const strokes = CHAR_MAP[char] || [];
-    
-    strokes.forEach((stroke, sIdx) => {
-      const points = stroke.map(p => ({
-        x: currentX + p[0] * scale,
-        y: currentY + p[1] * scale
-      }));
-
-      shapes.push({
-        id: `char-${i}-${sIdx}`,
-        points,
-        closed: false
-      });
-    });
-
-    currentX += spacing;
-    charCount++;
+  let size = options.size;
+  let lines = breakLines(text, size, options, font, kerning);
+
+  // Binary search for the largest size that fits; wrapping changes with size, so re-break each time
+  if (options.autoFit && !fits(lines, size, options, font, kerning)) {
+    let lo = options.minSize ?? options.size / 8;
+    let hi = options.size;
+    for (let i = 0; i < 16; i++) {
+      const mid = (lo + hi) / 2;
+      if (fits(breakLines(text, mid, options, font, kerning), mid, options, font, kerning)) lo = mid;
+      else hi = mid;
+    }
+    size = lo;
+    lines = breakLines(text, size, options, font, kerning);
   }
-  
-  return shapes;
-};
\ No newline at end of file
+
+  const lineHeight = (options.lineHeight ?? 1.6) * size;
+  const height = (lines.length - 1) * lineHeight + size;
+  const widths = lines.map(l => measureLine(l, font, kerning) * size);
+  const width = widths.reduce((widest, w) => Math.max(widest, w), 0);
+
+  const verticalAlign = options.verticalAlign ?? 'top';
+  let top = box.y;
+  if (verticalAlign === 'middle') top = box.y + (box.height - height) / 2;
+  else if (verticalAlign === 'bottom') top = box.y + box.height - height;
+
+  const shapes: VectorShape[] = [];
+  let charIndex = 0;
+  lines.forEach((line, row) => {
+    const align = options.align ?? 'left';
+    let x = box.x;
+    if (align === 'center') x = box.x + (box.width - widths[row]) / 2;
+    else if (align === 'right') x = box.x + box.width - widths[row];
+    const y = top + row * lineHeight;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char !== ' ') {
+        const g = font.glyphs[char] ?? font.fallback;
+        g.strokes.forEach((stroke, sIdx) => {
+          shapes.push({
+            id: `char-${charIndex}-${sIdx}`,
+            points: stroke.map(p => ({ x: x + p[0] * size, y: y + p[1] * size })),
+            closed: false
+          });
+        });
+      }
+      x += (advanceOf(font, char) + font.letterSpacing + kernOf(font, line.slice(i, i + 2), kerning)) * size;
+      charIndex++;
+    }
+  });
+
+  return { shapes, lines, size, width, height, overflow: !fits(lines, size, options, font, kerning) };
+};
+
+// Left-aligned text from (startX, startY), wrapping at the right edge of the screen
+export const textToVectorShapes = (
+  text: string,
+  startX: number,
+  startY: number,
+  scale: number,
+  font: VectorFont = BUILTIN_FONT
+): VectorShape[] =>
+  layoutText(text, {
+    box: { x: startX, y: startY, width: 100 - startX, height: Infinity },
+    size: scale,
+    font
+  }).shapes;
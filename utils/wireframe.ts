@@ -0,0 +1,173 @@
+import { Mesh, Vector3, VectorPoint, VectorShape, WireframeSettings } from '../types';
+
+// 3D wireframe pipeline for WIREFRAME mode: mesh -> unique edges -> model rotation ->
+// perspective projection -> one VectorShape per visible edge.
+// There is no hidden-line removal, as on Battlezone and Star Wars: every edge is drawn.
+// The camera sits at the origin looking down +z; the model is centred at z = distance.
+
+export const DEFAULT_WIREFRAME_SETTINGS: WireframeSettings = {
+  meshId: 'cube',
+  yaw: 30,
+  pitch: 20,
+  spin: 30,
+  distance: 3.5,
+  fov: 60,
+  nearClip: true,
+  depthCue: true
+};
+
+const NEAR_PLANE = 0.1; // model radii in front of the camera
+const DEPTH_CUE_FLOOR = 0.3; // intensity of the farthest edges
+
+// Centres a mesh on its bounding box and scales it to unit radius, so every model frames
+// the same way whatever units it was authored in
+export const normalizeMesh = (mesh: Mesh): Mesh => {
+  if (mesh.vertices.length === 0) return mesh;
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  mesh.vertices.forEach(v => {
+    (['x', 'y', 'z'] as const).forEach(axis => {
+      min[axis] = Math.min(min[axis], v[axis]);
+      max[axis] = Math.max(max[axis], v[axis]);
+    });
+  });
+  const centre = { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 };
+  const radius = mesh.vertices.reduce((r, v) => Math.max(r, Math.hypot(v.x - centre.x, v.y - centre.y, v.z - centre.z)), 0) || 1;
+  return {
+    ...mesh,
+    vertices: mesh.vertices.map(v => ({
+      x: (v.x - centre.x) / radius,
+      y: (v.y - centre.y) / radius,
+      z: (v.z - centre.z) / radius
+    }))
+  };
+};
+
+// --- Primitives ---
+
+const box = (x0: number, y0: number, z0: number, x1: number, y1: number, z1: number, base: number) => ({
+  vertices: [
+    { x: x0, y: y0, z: z0 }, { x: x1, y: y0, z: z0 }, { x: x1, y: y0, z: z1 }, { x: x0, y: y0, z: z1 },
+    { x: x0, y: y1, z: z0 }, { x: x1, y: y1, z: z0 }, { x: x1, y: y1, z: z1 }, { x: x0, y: y1, z: z1 }
+  ],
+  faces: [
+    [0, 1, 2, 3], [4, 5, 6, 7],
+    [0, 1, 5, 4], [1, 2, 6, 5], [2, 3, 7, 6], [3, 0, 4, 7]
+  ].map(face => face.map(i => i + base))
+});
+
+const CUBE = box(-1, -1, -1, 1, 1, 1, 0);
+
+// Battlezone-style tank: flared hull, turret and barrel, front facing -z
+const TANK_TURRET = box(-0.5, 0.6, -0.6, 0.5, 1.1, 0.6, 8);
+const TANK_BARREL = box(-0.08, 0.78, -2.4, 0.08, 0.92, -0.6, 16);
+
+export const MESH_PRIMITIVES: Mesh[] = [
+  { id: 'cube', name: 'CUBE', lines: [], ...CUBE },
+  {
+    id: 'pyramid',
+    name: 'PYRAMID',
+    vertices: [
+      { x: -1, y: -0.8, z: -1 }, { x: 1, y: -0.8, z: -1 }, { x: 1, y: -0.8, z: 1 }, { x: -1, y: -0.8, z: 1 },
+      { x: 0, y: 1.2, z: 0 }
+    ],
+    faces: [[0, 1, 2, 3], [0, 1, 4], [1, 2, 4], [2, 3, 4], [3, 0, 4]],
+    lines: []
+  },
+  {
+    id: 'tank',
+    name: 'TANK',
+    vertices: [
+      // Track base, then the wider hull deck above it
+      { x: -1, y: 0, z: -1.6 }, { x: 1, y: 0, z: -1.6 }, { x: 1, y: 0, z: 1.6 }, { x: -1, y: 0, z: 1.6 },
+      { x: -1.2, y: 0.6, z: -2 }, { x: 1.2, y: 0.6, z: -2 }, { x: 1.2, y: 0.6, z: 1.8 }, { x: -1.2, y: 0.6, z: 1.8 },
+      ...TANK_TURRET.vertices,
+      ...TANK_BARREL.vertices
+    ],
+    faces: [
+      [0, 1, 2, 3], [4, 5, 6, 7],
+      [0, 1, 5, 4], [1, 2, 6, 5], [2, 3, 7, 6], [3, 0, 4, 7],
+      ...TANK_TURRET.faces,
+      ...TANK_BARREL.faces
+    ],
+    lines: []
+  }
+].map(normalizeMesh);
+
+// Every distinct edge of the mesh's faces and lines, each undirected pair listed once,
+// in the order first met (so consecutive edges tend to share a vertex)
+export const extractEdges = (mesh: Mesh): [number, number][] => {
+  const seen = new Set<string>();
+  const edges: [number, number][] = [];
+  const add = (a: number, b: number) => {
+    if (a === b) return;
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    edges.push([a, b]);
+  };
+  mesh.faces.forEach(face => face.forEach((v, i) => add(v, face[(i + 1) % face.length])));
+  mesh.lines.forEach(line => line.slice(1).forEach((v, i) => add(line[i], v)));
+  return edges;
+};
+
+const rotate = (v: Vector3, yaw: number, pitch: number): Vector3 => {
+  // Yaw about the vertical axis, then pitch about the horizontal one (positive looks down on the model)
+  const x1 = v.x * Math.cos(yaw) + v.z * Math.sin(yaw);
+  const z1 = -v.x * Math.sin(yaw) + v.z * Math.cos(yaw);
+  return {
+    x: x1,
+    y: v.y * Math.cos(pitch) + z1 * Math.sin(pitch),
+    z: -v.y * Math.sin(pitch) + z1 * Math.cos(pitch)
+  };
+};
+
+// Point where the segment crosses the near plane
+const clipToNear = (inside: Vector3, outside: Vector3): Vector3 => {
+  const k = (inside.z - NEAR_PLANE) / (inside.z - outside.z);
+  return {
+    x: inside.x + (outside.x - inside.x) * k,
+    y: inside.y + (outside.y - inside.y) * k,
+    z: NEAR_PLANE
+  };
+};
+
+// Projects one pose of the mesh. `time` (ms) advances the yaw by the spin rate.
+export const projectMesh = (mesh: Mesh, settings: WireframeSettings, time = 0): VectorShape[] => {
+  const yaw = ((settings.yaw + (settings.spin * time) / 1000) * Math.PI) / 180;
+  const pitch = (settings.pitch * Math.PI) / 180;
+  const focal = 1 / Math.tan((Math.max(1, Math.min(179, settings.fov)) * Math.PI) / 360);
+
+  const view = mesh.vertices.map(v => {
+    const r = rotate(v, yaw, pitch);
+    return { ...r, z: r.z + settings.distance };
+  });
+
+  // Logical space is square, so one focal length serves both axes; +y is up in 3D, down on screen
+  const project = (v: Vector3): VectorPoint => ({
+    x: 50 + (v.x / v.z) * focal * 50,
+    y: 50 - (v.y / v.z) * focal * 50
+  });
+
+  const shapes: VectorShape[] = [];
+  extractEdges(mesh).forEach(([a, b], i) => {
+    let p = view[a];
+    let q = view[b];
+    if (p.z < NEAR_PLANE && q.z < NEAR_PLANE) return;
+    if (p.z < NEAR_PLANE || q.z < NEAR_PLANE) {
+      // Without clipping, an edge that crosses the camera plane can't be projected at all
+      if (!settings.nearClip) return;
+      if (p.z < NEAR_PLANE) p = clipToNear(q, p);
+      else q = clipToNear(p, q);
+    }
+
+    const shape: VectorShape = { id: `edge-${i}`, points: [project(p), project(q)], closed: false };
+    if (settings.depthCue) {
+      // Nearest possible point of the unit-radius model is full brightness, farthest is the floor
+      const depth = Math.max(0, Math.min(1, ((p.z + q.z) / 2 - (settings.distance - 1)) / 2));
+      shape.intensity = 1 - depth * (1 - DEPTH_CUE_FLOOR);
+    }
+    shapes.push(shape);
+  });
+  return shapes;
+};
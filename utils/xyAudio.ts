@@ -0,0 +1,207 @@
+import { VectorPoint, VectorShape } from '../types';
+import { BeamFrame, BeamSample } from './beamPhysics';
+
+// A vector display is an XY oscilloscope: this converts a draw list into a stereo signal
+// (left = X deflection, right = Y deflection, both -1..1 with +Y up) and back again.
+// Two channels can't blank the beam, so jumps between shapes are traced too, just quickly.
+
+export interface XySignal {
+  sampleRate: number;
+  left: Float32Array;
+  right: Float32Array;
+}
+
+export const XY_SAMPLE_RATES = [44100, 48000, 96000];
+export const XY_FRAME_RATES = [25, 50, 100]; // draw-list repeats per second
+
+export class WavFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WavFormatError';
+  }
+}
+
+const JUMP_WEIGHT = 0.1; // jumps get this share of the time a lit stroke of the same length would
+const DOT_LENGTH = 2; // dots dwell as long as a stroke this many units long
+const TRACE_RATE = 20000; // samples per second kept when replaying audio as beam motion
+const MAX_TRACE_SECONDS = 20;
+const NOMINAL_SPEED = 8; // units per ms that draw at nominal brightness
+const MIN_INTENSITY = 0.3;
+const MAX_INTENSITY = 3;
+
+const toChannel = (p: VectorPoint) => ({
+  l: Math.max(-1, Math.min(1, p.x / 50 - 1)),
+  r: Math.max(-1, Math.min(1, 1 - p.y / 50))
+});
+
+// One refresh of the draw list, samples spread along the path in proportion to its weighted length
+export const shapesToXySignal = (shapes: VectorShape[], sampleRate: number, frameRate: number): XySignal => {
+  const count = Math.max(1, Math.round(sampleRate / frameRate));
+  const left = new Float32Array(count);
+  const right = new Float32Array(count);
+
+  const legs: { a: VectorPoint; b: VectorPoint; weight: number }[] = [];
+  let at: VectorPoint | null = null;
+  shapes.filter(s => s.points.length > 0).forEach(shape => {
+    const points = shape.closed && shape.points.length > 2 ? [...shape.points, shape.points[0]] : shape.points;
+    if (at) legs.push({ a: at, b: points[0], weight: Math.hypot(points[0].x - at.x, points[0].y - at.y) * JUMP_WEIGHT });
+    if (points.length === 1) legs.push({ a: points[0], b: points[0], weight: DOT_LENGTH });
+    for (let i = 1; i < points.length; i++) {
+      legs.push({ a: points[i - 1], b: points[i], weight: Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y) });
+    }
+    at = points[points.length - 1];
+  });
+
+  const total = legs.reduce((sum, leg) => sum + leg.weight, 0);
+  if (total === 0) {
+    // Nothing to draw (or a single point): park the beam
+    const { l, r } = toChannel(legs[0]?.a ?? { x: 50, y: 50 });
+    left.fill(l);
+    right.fill(r);
+    return { sampleRate, left, right };
+  }
+
+  let leg = 0;
+  let legStart = 0;
+  for (let i = 0; i < count; i++) {
+    const s = (i / count) * total;
+    while (leg < legs.length - 1 && legStart + legs[leg].weight <= s) legStart += legs[leg++].weight;
+    const { a, b, weight } = legs[leg];
+    const k = weight > 0 ? Math.min(1, (s - legStart) / weight) : 0;
+    const { l, r } = toChannel({ x: a.x + (b.x - a.x) * k, y: a.y + (b.y - a.y) * k });
+    left[i] = l;
+    right[i] = r;
+  }
+  return { sampleRate, left, right };
+};
+
+// Loops a signal to fill the given number of seconds
+export const repeatSignal = (signal: XySignal, seconds: number): XySignal => {
+  const count = Math.round(signal.sampleRate * seconds);
+  const left = new Float32Array(count);
+  const right = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    left[i] = signal.left[i % signal.left.length];
+    right[i] = signal.right[i % signal.right.length];
+  }
+  return { sampleRate: signal.sampleRate, left, right };
+};
+
+// --- WAV ---
+
+// 16-bit PCM stereo
+export const encodeWav = (signal: XySignal): Uint8Array => {
+  const frames = signal.left.length;
+  const bytes = new Uint8Array(44 + frames * 4);
+  const view = new DataView(bytes.buffer);
+  const text = (offset: number, s: string) => [...s].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + frames * 4, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 2, true);
+  view.setUint32(24, signal.sampleRate, true);
+  view.setUint32(28, signal.sampleRate * 4, true);
+  view.setUint16(32, 4, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, frames * 4, true);
+
+  const pcm = (v: number) => Math.round(Math.max(-1, Math.min(1, v)) * 32767);
+  for (let i = 0; i < frames; i++) {
+    view.setInt16(44 + i * 4, pcm(signal.left[i]), true);
+    view.setInt16(46 + i * 4, pcm(signal.right[i]), true);
+  }
+  return bytes;
+};
+
+// Integer PCM (8/16/24/32-bit) and 32-bit float; the first two channels are X and Y
+export const decodeWav = (buffer: ArrayBuffer): XySignal => {
+  const view = new DataView(buffer);
+  const tag = (offset: number) => String.fromCharCode(...new Uint8Array(buffer, offset, 4));
+  if (buffer.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') throw new WavFormatError('Not a WAV file');
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bits = 0;
+  let data: DataView | null = null;
+  for (let offset = 12; offset + 8 <= buffer.byteLength;) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bits = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format at the start of the sub-format GUID
+      if (format === 0xfffe && size >= 26) format = view.getUint16(body + 24, true);
+    } else if (id === 'data') {
+      data = new DataView(buffer, body, Math.min(size, buffer.byteLength - body));
+    }
+    offset = body + size + (size % 2); // chunks are word aligned
+  }
+
+  if (!data || sampleRate === 0) throw new WavFormatError('Missing fmt or data chunk');
+  if (channels < 2) throw new WavFormatError('XY audio needs a stereo file');
+  if (!(format === 1 && [8, 16, 24, 32].includes(bits)) && !(format === 3 && bits === 32)) {
+    throw new WavFormatError(`Unsupported sample format (${format}, ${bits}-bit)`);
+  }
+
+  const bytesPerSample = bits / 8;
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(data.byteLength / frameSize);
+  if (frames < 2) throw new WavFormatError('No audio samples');
+  const read = (offset: number): number => {
+    if (format === 3) return data!.getFloat32(offset, true);
+    if (bits === 8) return (data!.getUint8(offset) - 128) / 128;
+    if (bits === 16) return data!.getInt16(offset, true) / 32768;
+    if (bits === 24) {
+      const v = data!.getUint8(offset) | (data!.getUint8(offset + 1) << 8) | (data!.getInt8(offset + 2) << 16);
+      return v / 8388608;
+    }
+    return data!.getInt32(offset, true) / 2147483648;
+  };
+
+  const left = new Float32Array(frames);
+  const right = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    left[i] = read(i * frameSize);
+    right[i] = read(i * frameSize + bytesPerSample);
+  }
+  return { sampleRate, left, right };
+};
+
+// --- Replay as beam motion ---
+
+// Resamples the signal into a beam trace RetroScreen can replay in real time. The beam is
+// always lit; brightness follows speed as it does for simulated frames.
+export const xySignalToBeamFrame = (signal: XySignal): BeamFrame => {
+  const step = Math.max(1, signal.sampleRate / TRACE_RATE);
+  const end = Math.min(signal.left.length, signal.sampleRate * MAX_TRACE_SECONDS);
+  const samples: BeamSample[] = [];
+
+  for (let i = 0; i < end; i += step) {
+    const j = Math.floor(i);
+    const t = (j / signal.sampleRate) * 1000;
+    const x = (signal.left[j] + 1) * 50;
+    const y = (1 - signal.right[j]) * 50;
+    const prev = samples[samples.length - 1];
+    const speed = prev && t > prev.t ? Math.hypot(x - prev.x, y - prev.y) / (t - prev.t) : 0;
+    const intensity = Math.min(MAX_INTENSITY, Math.max(MIN_INTENSITY, NOMINAL_SPEED / Math.max(speed, NOMINAL_SPEED / MAX_INTENSITY)));
+    samples.push({ t, x, y, lit: true, intensity });
+  }
+
+  const duration = samples.length > 0 ? samples[samples.length - 1].t : 0;
+  return { samples, duration, budget: duration, period: duration, load: 1 };
+};
+
+// Still image of the start of a trace, for exports and the raster view
+export const beamFrameToShapes = (frame: BeamFrame, windowMs = 40): VectorShape[] => {
+  const points = frame.samples.filter(s => s.t <= windowMs).map(s => ({ x: s.x, y: s.y }));
+  return points.length > 0 ? [{ id: 'xy-trace', points, closed: false }] : [];
+};